@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/cron/backfill/route'
+import { GameSnapshotSchema } from '@/lib/data/contracts'
+import { backfillAsOf, runHistoricalBackfill } from '@/lib/data/ingest'
+
+const original = {
+  cronSecret: process.env.CRON_SECRET,
+  postgresUrl: process.env.POSTGRES_URL,
+  databaseUrl: process.env.DATABASE_URL,
+  database: global.swantailDatabase,
+}
+
+afterEach(() => {
+  if (original.cronSecret === undefined) delete process.env.CRON_SECRET
+  else process.env.CRON_SECRET = original.cronSecret
+  if (original.postgresUrl === undefined) delete process.env.POSTGRES_URL
+  else process.env.POSTGRES_URL = original.postgresUrl
+  if (original.databaseUrl === undefined) delete process.env.DATABASE_URL
+  else process.env.DATABASE_URL = original.databaseUrl
+  global.swantailDatabase = original.database
+})
+
+// Answers every query with no rows and keeps each statement with its bound values.
+function recordingDatabase() {
+  const statements: Array<{ text: string; values: unknown[] }> = []
+  const sql = Object.assign((first: unknown, ...values: unknown[]) => {
+    if (!Array.isArray(first) || !('raw' in first)) return first
+    statements.push({ text: first.join('?'), values })
+    return Promise.resolve([])
+  }, {
+    json: (value: unknown) => value,
+    begin: async (work: (transaction: unknown) => Promise<unknown>) => work(sql),
+  })
+  return { sql: sql as unknown as typeof global.swantailDatabase, statements }
+}
+
+function backfillRequest(body: unknown, secret?: string) {
+  return new Request('http://localhost/api/cron/backfill', {
+    method: 'POST',
+    headers: secret ? { authorization: `Bearer ${secret}` } : {},
+    body: JSON.stringify(body),
+  })
+}
+
+describe('/api/cron/backfill', () => {
+  it('rejects a request that does not carry the configured secret', async () => {
+    process.env.CRON_SECRET = 'test-secret'
+    const response = await POST(backfillRequest({ season: 2026, from_week: 1, to_week: 2 }))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects a week range that runs backwards', async () => {
+    process.env.CRON_SECRET = 'test-secret'
+    const response = await POST(backfillRequest({ season: 2026, from_week: 3, to_week: 1 }, 'test-secret'))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('dates a backfilled week before its first kickoff', () => {
+    expect(backfillAsOf({ season: 2026, week: 1 }).toISOString()).toBe('2026-09-09T22:50:00.000Z')
+    expect(backfillAsOf({ season: 2026, week: 1, leadMinutes: 24 * 60 }).toISOString())
+      .toBe('2026-09-09T00:20:00.000Z')
+  })
+
+  it('writes backfilled snapshots with the marker and only the reports published by the as-of time', async () => {
+    const database = recordingDatabase()
+    process.env.DATABASE_URL = 'postgres://backfill-test'
+    global.swantailDatabase = database.sql
+    const injuries = [
+      'season,team,week,gsis_id,position,full_name,report_status,practice_status,date_modified',
+      '2026,NE,1,00-1,WR,Early Report,Questionable,Limited Participation in Practice,2026-09-09T10:00:00Z',
+      '2026,NE,1,00-2,RB,Late Report,Out,Did Not Participate In Practice,2026-09-11T20:00:00Z',
+    ].join('\n')
+    const fetcher = vi.fn(async (input: string | URL | Request) => (
+      String(input).includes('injuries_2026')
+        ? new Response(injuries, { status: 200 })
+        : new Response('', { status: 404 })
+    )) as unknown as typeof fetch
+
+    const [summary] = await runHistoricalBackfill({
+      season: 2026,
+      fromWeek: 1,
+      toWeek: 1,
+      now: new Date('2026-10-19T12:00:00.000Z'),
+      fetch: fetcher,
+    })
+    const inserts = database.statements.filter(statement => statement.text.includes('insert into game_snapshots'))
+    const snapshots = inserts.map(statement => GameSnapshotSchema.parse(statement.values[6]))
+    const reported = snapshots.flatMap(snapshot => snapshot.observations)
+      .filter(observation => observation.metric === 'player.availability_report')
+
+    expect(summary.backfill_as_of).toBe('2026-09-09T22:50:00.000Z')
+    expect(inserts.length).toBe(summary.snapshots)
+    expect(inserts.every(statement => statement.values[5] === true)).toBe(true)
+    expect(snapshots.every(snapshot => snapshot.backfill && snapshot.captured_at === summary.backfill_as_of)).toBe(true)
+    expect(reported.map(observation => observation.subject.id)).toEqual(['00-1'])
+  })
+})
@@ -0,0 +1,94 @@
+import { mkdtempSync, readdirSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { gzipSync } from 'zlib'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  UnrecordedRequestError,
+  createRecordingFetch,
+  createReplayFetch,
+} from '@/lib/data/fixtures'
+import { nflverseInjuryProvider } from '@/lib/data/providers/nflverse'
+import { createDownloadCache } from '@/lib/data/resilience'
+import { loadSchedule } from '@/lib/nfl/schedule'
+
+const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+const now = new Date('2026-09-09T12:00:00.000Z')
+
+function context(fetcher: typeof fetch) {
+  return {
+    games: [game],
+    season: 2026,
+    week: 1,
+    now,
+    fetch: fetcher,
+    downloads: createDownloadCache({ fetch: fetcher }),
+  }
+}
+
+describe('recorded provider fetches', () => {
+  it('replays a recorded run into the same observations without the network', async () => {
+    const csv = [
+      'season,team,week,gsis_id,position,full_name,report_primary_injury,report_status,practice_status',
+      '2026,NE,1,00-1,WR,Example Player,Hamstring,Out,Did Not Participate In Practice',
+    ].join('\n')
+    const upstream = vi.fn(async () => new Response(csv, {
+      status: 200,
+      headers: { 'last-modified': 'Wed, 09 Sep 2026 11:00:00 GMT' },
+    })) as unknown as typeof fetch
+    const directory = mkdtempSync(path.join(tmpdir(), 'fetch-fixtures-'))
+
+    const live = await nflverseInjuryProvider.collect(context(createRecordingFetch({
+      directory,
+      fetch: upstream,
+      now: () => now,
+    })))
+    const replay = createReplayFetch({ directory })
+    const replayed = await nflverseInjuryProvider.collect(context(replay))
+
+    expect(readdirSync(directory).length).toBe(vi.mocked(upstream).mock.calls.length)
+    expect(replayed.observations).toEqual(live.observations)
+    expect(replayed.raw_imports).toEqual(live.raw_imports)
+    expect(replay.unrecorded).toEqual([])
+    expect(replay.recordedAt?.toISOString()).toBe(now.toISOString())
+  })
+
+  it('serves binary bodies byte for byte', async () => {
+    const body = gzipSync('season,team\n2026,NE\n')
+    const directory = mkdtempSync(path.join(tmpdir(), 'fetch-fixtures-'))
+    const url = 'https://github.com/nflverse/nflverse-data/releases/download/pbp/play_by_play_2025.csv.gz'
+    await createRecordingFetch({
+      directory,
+      fetch: (async () => new Response(new Uint8Array(body), { status: 200 })) as unknown as typeof fetch,
+    })(url)
+
+    const response = await createReplayFetch({ directory })(url)
+
+    expect(Buffer.from(await response.arrayBuffer()).equals(body)).toBe(true)
+  })
+
+  it('reads only the requested fixture until the recorded clock is asked for', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'fetch-fixtures-'))
+    const url = 'https://api.weather.gov/alerts/active?point=47.5952,-122.3316'
+    await createRecordingFetch({
+      directory,
+      fetch: (async () => new Response('{}', { status: 200 })) as unknown as typeof fetch,
+      now: () => now,
+    })(url)
+    writeFileSync(path.join(directory, 'broken.json'), 'not json')
+
+    const replay = createReplayFetch({ directory })
+
+    expect((await replay(url)).status).toBe(200)
+    expect(() => replay.recordedAt).toThrow()
+  })
+
+  it('fails an unrecorded request and keeps it for the caller', async () => {
+    const replay = createReplayFetch({ directory: mkdtempSync(path.join(tmpdir(), 'fetch-fixtures-')) })
+
+    await expect(replay('https://api.weather.gov/points/47.5952,-122.3316'))
+      .rejects.toBeInstanceOf(UnrecordedRequestError)
+    expect(replay.unrecorded).toEqual(['GET https://api.weather.gov/points/47.5952,-122.3316'])
+    expect(replay.recordedAt).toBeNull()
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest'
+import { OBSERVATION_AGENT_IDS, type GameSnapshot } from '@/lib/data/contracts'
+import { snapshotContentHash } from '@/lib/data/hash'
+import { nflverseTeamStatsProvider } from '@/lib/data/providers/nflverse'
+import { createObservation } from '@/lib/data/providers/shared'
+import { createDownloadCache } from '@/lib/data/resilience'
+import { GameSchema } from '@/lib/nfl/game'
+import { loadSchedule } from '@/lib/nfl/schedule'
+
+const scheduled = loadSchedule({ season: 2026, week: 1 }).games[0]
+const game = GameSchema.parse(scheduled)
+
+function content(params: { checkedAt: string; spread: number }): Pick<GameSnapshot, 'game' | 'observations' | 'availability'> {
+  const observation = createObservation({
+    gameId: game.game_id,
+    agentId: 'market',
+    kind: 'market',
+    subject: { type: 'team', id: game.home_team, label: game.home_team, team: game.home_team },
+    metric: 'market.spread',
+    value: { book: 'consensus', line: params.spread, price: -110 },
+    unit: 'points',
+    source: {
+      provider: 'swantail',
+      feed: 'odds-file',
+      quality: 'internal',
+      source_url: 'file:///data/odds/week-01.json',
+    },
+    observedAt: '2026-09-08T15:00:00.000Z',
+    effectiveAt: '2026-09-08T15:00:00.000Z',
+    importedAt: params.checkedAt,
+    rawImportId: 'raw_odds',
+  })
+  return {
+    game,
+    observations: [observation],
+    availability: Object.fromEntries(OBSERVATION_AGENT_IDS.map(agentId => [agentId, {
+      state: agentId === 'market' ? 'available' : 'missing',
+      checked_at: params.checkedAt,
+      observation_count: agentId === 'market' ? 1 : 0,
+    }])) as GameSnapshot['availability'],
+  }
+}
+
+describe('snapshot content hash', () => {
+  it('ignores check and import times but moves with the evidence', () => {
+    const first = snapshotContentHash(content({ checkedAt: '2026-09-09T12:00:00.000Z', spread: -3.5 }))
+
+    expect(snapshotContentHash(content({ checkedAt: '2026-09-09T12:15:00.000Z', spread: -3.5 }))).toBe(first)
+    expect(snapshotContentHash(content({ checkedAt: '2026-09-09T12:15:00.000Z', spread: -3 }))).not.toBe(first)
+  })
+  it('stays the same when a provider reruns on unchanged files at a later time', async () => {
+    const csv = [
+      'season,week,team,season_type,games,attempts,carries,sacks_suffered,passing_epa,rushing_epa,passing_interceptions,fumbles_lost_total,def_interceptions,fumble_recovery_opp,def_fumbles_forced,def_sacks,def_qb_hits,def_tackles_for_loss',
+      `2025,1,${game.away_team},REG,17,35,20,5,-4,-2,2,1,0,0,0,1,2,2`,
+      `2025,1,${game.home_team},REG,17,30,28,1,8,4,0,0,2,1,2,4,7,6`,
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, {
+      status: 200,
+      headers: { 'last-modified': 'Tue, 01 Sep 2026 08:00:00 GMT' },
+    })) as unknown as typeof fetch
+    const hashAt = async (now: Date) => {
+      const feed = await nflverseTeamStatsProvider.collect({
+        games: [scheduled],
+        season: game.season,
+        week: game.week,
+        now,
+        fetch: fetcher,
+        downloads: createDownloadCache({ fetch: fetcher }),
+      })
+      return snapshotContentHash({
+        game,
+        observations: feed.observations,
+        availability: Object.fromEntries(OBSERVATION_AGENT_IDS.map(agentId => [
+          agentId,
+          nflverseTeamStatsProvider.agentIds.includes(agentId)
+            ? feed.game_states[game.game_id]
+            : { state: 'missing', checked_at: feed.checked_at, observation_count: 0 },
+        ])) as GameSnapshot['availability'],
+      })
+    }
+
+    expect(await hashAt(new Date('2026-09-09T12:00:00.000Z')))
+      .toBe(await hashAt(new Date('2026-09-10T18:00:00.000Z')))
+  })
+})
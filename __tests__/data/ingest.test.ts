@@ -0,0 +1,218 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRecordingFetch, createReplayFetch, UnrecordedRequestError } from '@/lib/data/fixtures'
+import { planRefresh, planSlotKey } from '@/lib/data/refresh'
+import { loadSchedule } from '@/lib/nfl/schedule'
+import type { IngestionBundle } from '@/lib/data/repository'
+import type { CircuitBreaker } from '@/lib/data/resilience'
+
+// The repository is replaced by an in-memory store so whole runs can be driven without Postgres.
+const store = vi.hoisted(() => ({
+  bundles: [] as IngestionBundle[],
+  breakers: [] as CircuitBreaker[],
+  databaseConfigured: true,
+}))
+
+vi.mock('@/lib/data/repository', async () => {
+  const { planSlotKey } = await import('@/lib/data/refresh')
+  return {
+    isDatabaseConfigured: () => store.databaseConfigured,
+    loadLatestGameSnapshot: async (gameId: string) => store.bundles
+      .flatMap(bundle => bundle.snapshots)
+      .filter(snapshot => snapshot.game_id === gameId)
+      .at(-1) ?? null,
+    loadSnapshotObservationHistory: async () => [],
+    loadServedPlanSlots: async () => new Set(store.bundles.flatMap(bundle => bundle.slots.map(planSlotKey))),
+    loadCircuitBreakers: async () => new Map(),
+    persistCircuitBreakers: async (breakers: CircuitBreaker[]) => {
+      store.breakers.push(...breakers)
+    },
+    persistIngestionBundle: async (bundle: IngestionBundle) => {
+      store.bundles.push(bundle)
+    },
+    recordFailedIngestionRun: async () => undefined,
+  }
+})
+
+const { runActiveWeekIngestion } = await import('@/lib/data/ingest')
+
+function unavailableFetch(): typeof fetch {
+  return vi.fn(async () => new Response('', { status: 404 })) as unknown as typeof fetch
+}
+
+// Serves each release file whose name appears in the URL, and 404 for everything else.
+function releaseFetch(files: Record<string, string>) {
+  return vi.fn(async (input: string | URL | Request) => {
+    const name = Object.keys(files).find(key => String(input).includes(key))
+    return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+  }) as unknown as typeof fetch & ReturnType<typeof vi.fn>
+}
+
+function requestedUrls(fetcher: ReturnType<typeof vi.fn>): string[] {
+  return fetcher.mock.calls.map(call => String((call as unknown[])[0]))
+}
+
+const INJURIES = [
+  'season,team,week,gsis_id,position,full_name,report_primary_injury,report_status,practice_status',
+  '2026,NE,1,00-1,WR,Example Player,Hamstring,Questionable,Limited Participation in Practice',
+  '2026,SF,1,00-2,RB,Other Player,Ankle,Out,Did Not Participate In Practice',
+].join('\n')
+
+// A full run at `now` whose providers all answered, so every slot due by then was served.
+async function servedRun(now: Date) {
+  await runActiveWeekIngestion({ now, fetch: unavailableFetch() })
+  const { games } = loadSchedule({ season: 2026, week: 1 })
+  store.bundles[0].slots = planRefresh({ games, now, served: new Set(), priorWeekEnd: null })
+}
+
+beforeEach(() => {
+  store.bundles = []
+  store.breakers = []
+  store.databaseConfigured = true
+})
+
+// Records a live run at `now` against an upstream that answers 404, with the wall clock held at
+// `now` so its snapshots are dated like a replay's, then forgets everything it stored.
+async function recordWeek(now: Date) {
+  const directory = mkdtempSync(path.join(tmpdir(), 'ingest-replay-'))
+  vi.useFakeTimers({ toFake: ['Date'], now })
+  const summary = await runActiveWeekIngestion({
+    now,
+    fetch: createRecordingFetch({ directory, fetch: unavailableFetch(), now: () => now }),
+  }).finally(() => vi.useRealTimers())
+  store.bundles = []
+  store.breakers = []
+  return { directory, summary }
+}
+
+describe('week ingestion', () => {
+  it('keeps the same snapshots when a later run sees the same responses', async () => {
+    const first = await runActiveWeekIngestion({ now: new Date('2026-09-08T12:00:00.000Z'), fetch: unavailableFetch() })
+    const second = await runActiveWeekIngestion({ now: new Date('2026-09-08T12:15:00.000Z'), fetch: unavailableFetch() })
+
+    expect(first.games.length).toBeGreaterThan(0)
+    expect(first.games.every(game => game.change === 'captured')).toBe(true)
+    expect(second.snapshots).toBe(0)
+    expect(second.games).toEqual(first.games.map(game => ({ ...game, change: 'no_change' })))
+  })
+  it('replays a recorded week offline without touching the stored runs', async () => {
+    const { directory, summary } = await recordWeek(new Date('2026-09-08T12:00:00.000Z'))
+    store.databaseConfigured = false
+
+    const replayed = await runActiveWeekIngestion({ fetch: createReplayFetch({ directory }) })
+
+    expect(replayed.run_id).toBe(summary.run_id)
+    expect(replayed.replay_of).toBe('2026-09-08T12:00:00.000Z')
+    expect(replayed.games).toEqual(summary.games)
+    expect(replayed.feeds).toEqual(summary.feeds.map(feed => ({ ...feed, latency_ms: expect.any(Number) })))
+    expect(store.bundles).toEqual([])
+    expect(store.breakers).toEqual([])
+  })
+
+  it('fails a replay that makes a request without a recording', async () => {
+    const { directory } = await recordWeek(new Date('2026-09-08T12:00:00.000Z'))
+    rmSync(path.join(directory, readdirSync(directory)[0]))
+
+    await expect(runActiveWeekIngestion({ fetch: createReplayFetch({ directory }) }))
+      .rejects.toBeInstanceOf(UnrecordedRequestError)
+    expect(store.bundles).toEqual([])
+    expect(store.breakers).toEqual([])
+  })
+  it('collects only the due game/feed pairs in a planned run and carries the other feeds forward', async () => {
+    await servedRun(new Date('2026-09-08T12:00:00.000Z'))
+    const fetcher = releaseFetch({ injuries_2026: INJURIES })
+
+    const summary = await runActiveWeekIngestion({
+      now: new Date('2026-09-08T21:30:00.000Z'),
+      fetch: fetcher,
+      mode: 'planned',
+    })
+    const previous = store.bundles[0].snapshots.find(snapshot => snapshot.game_id === '2026-wk01-NE-at-SEA')!
+    const snapshot = store.bundles[1].snapshots.find(snapshot => snapshot.game_id === '2026-wk01-NE-at-SEA')!
+
+    expect(summary.feeds.map(feed => `${feed.provider}:${feed.feed}`)).toEqual(['nflverse:injuries', 'nflverse:quarterbacks'])
+    expect(summary.games.map(game => game.game_id)).toEqual(['2026-wk01-NE-at-SEA', '2026-wk01-SF-at-LAR'])
+    expect(requestedUrls(fetcher).some(url => url.includes('weather.gov') || url.includes('stats_team'))).toBe(false)
+    expect(snapshot.availability.injury).toMatchObject({ state: 'available', checked_at: '2026-09-08T21:30:00.000Z' })
+    expect(snapshot.availability.weather).toEqual(previous.availability.weather)
+    expect(snapshot.availability.rest).toEqual(previous.availability.rest)
+    expect(snapshot.observations.filter(item => item.agent_id === 'rest'))
+      .toEqual(previous.observations.filter(item => item.agent_id === 'rest'))
+  })
+
+  it('records no run when a planned run finds no slot due', async () => {
+    await servedRun(new Date('2026-09-08T12:00:00.000Z'))
+    const fetcher = unavailableFetch()
+
+    const summary = await runActiveWeekIngestion({
+      now: new Date('2026-09-08T12:15:00.000Z'),
+      fetch: fetcher,
+      mode: 'planned',
+    })
+
+    expect(summary).toMatchObject({ snapshots: 0, feeds: [], slots: [], games: [] })
+    expect(fetcher).not.toHaveBeenCalled()
+    expect(store.bundles).toHaveLength(1)
+  })
+
+  it('serves a slot only when every provider behind its feed succeeded', async () => {
+    await servedRun(new Date('2026-09-08T12:00:00.000Z'))
+
+    const first = await runActiveWeekIngestion({
+      now: new Date('2026-09-09T00:30:00.000Z'),
+      fetch: releaseFetch({ injuries_2026: INJURIES }),
+      mode: 'planned',
+    })
+    const second = await runActiveWeekIngestion({
+      now: new Date('2026-09-09T00:45:00.000Z'),
+      fetch: releaseFetch({ injuries_2026: INJURIES }),
+      mode: 'planned',
+    })
+
+    expect(first.feeds.find(feed => feed.feed === 'injuries')?.state).toBe('available')
+    expect(first.feeds.find(feed => feed.feed === 'quarterbacks')?.state).not.toBe('available')
+    expect(first.slots.map(planSlotKey)).toEqual([
+      '2026-wk01-NE-at-SEA:weather:t-24h',
+      '2026-wk01-NE-at-SEA:market:t-24h',
+    ])
+    expect(second.feeds.map(feed => feed.feed)).toEqual(expect.arrayContaining(['injuries', 'quarterbacks']))
+    expect(second.feeds.map(feed => feed.feed)).not.toContain('odds-file')
+    expect(second.games.map(game => game.game_id)).toEqual(['2026-wk01-NE-at-SEA', '2026-wk01-SF-at-LAR'])
+  })
+  it('marks an agent with only internal grades under an unconfigured feed as degraded', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'internal-metrics-'))
+    writeFileSync(path.join(directory, 'manifest.json'), JSON.stringify({
+      schema_version: 1,
+      files: [{
+        file: 'market.csv',
+        agent_id: 'market',
+        metric: 'internal.market_grade',
+        subject_type: 'team',
+        team_column: 'team',
+        value_columns: ['grade'],
+        observed_at_column: 'graded_at',
+        freshness_hours: 168,
+      }],
+    }))
+    writeFileSync(path.join(directory, 'market.csv'), 'team,grade,graded_at\nNE,61,2026-09-07T15:00:00.000Z\n')
+    const previous = process.env.SWANTAIL_INTERNAL_METRICS_DIR
+    process.env.SWANTAIL_INTERNAL_METRICS_DIR = directory
+    try {
+      await runActiveWeekIngestion({ now: new Date('2026-09-08T12:00:00.000Z'), fetch: unavailableFetch() })
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_INTERNAL_METRICS_DIR
+      else process.env.SWANTAIL_INTERNAL_METRICS_DIR = previous
+    }
+    const snapshots = store.bundles[0].snapshots
+
+    expect(snapshots.find(snapshot => snapshot.game_id === '2026-wk01-NE-at-SEA')?.availability.market).toMatchObject({
+      state: 'degraded',
+      observation_count: 1,
+      message: expect.stringMatching(/^Internal metrics only; /),
+    })
+    expect(snapshots.find(snapshot => snapshot.game_id === '2026-wk01-SF-at-LAR')?.availability.market)
+      .toMatchObject({ state: 'not_configured', observation_count: 0 })
+  })
+})
@@ -1,7 +1,22 @@
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
 import { describe, expect, it, vi } from 'vitest'
-import { nflverseInjuryProvider, nflverseTeamStatsProvider } from '@/lib/data/providers/nflverse'
-import { nwsWeatherProvider, parseWindMph } from '@/lib/data/providers/nws'
+import {
+  nflverseInjuryProvider,
+  nflverseMomentumProvider,
+  nflversePaceProvider,
+  nflversePressureProvider,
+  nflverseQuarterbackProvider,
+  nflverseTeamStatsProvider,
+  practiceTrajectory,
+} from '@/lib/data/providers/nflverse'
+import { alertCategory, forecastTrend, nwsWeatherProvider, parseWindMph } from '@/lib/data/providers/nws'
+import { internalMetricsProvider } from '@/lib/data/providers/internal-metrics'
+import { localOddsProvider } from '@/lib/data/providers/odds'
+import { createObservation } from '@/lib/data/providers/shared'
 import { scheduleRestProvider } from '@/lib/data/providers/rest'
+import { createDownloadCache } from '@/lib/data/resilience'
 import { loadSchedule } from '@/lib/nfl/schedule'
 
 const game = loadSchedule({ season: 2026, week: 1 }).games[0]
@@ -13,6 +28,7 @@ function context(fetcher: typeof fetch, now = new Date('2026-09-09T12:00:00.000Z
     week: 1,
     now,
     fetch: fetcher,
+    downloads: createDownloadCache({ fetch: fetcher }),
   }
 }
 
@@ -22,7 +38,20 @@ describe('observation providers', () => {
       const url = String(input)
       if (url.includes('/points/')) {
         return new Response(JSON.stringify({
-          properties: { forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly' },
+          properties: {
+            forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly',
+            forecastGridData: 'https://api.weather.gov/gridpoints/SEW/1,1',
+          },
+        }), { status: 200 })
+      }
+      if (url.endsWith('/gridpoints/SEW/1,1')) {
+        return new Response(JSON.stringify({
+          properties: {
+            windGust: {
+              uom: 'wmoUnit:km_h-1',
+              values: [{ validTime: '2026-09-09T23:00:00+00:00/PT2H', value: 45 }],
+            },
+          },
         }), { status: 200 })
       }
       return new Response(JSON.stringify({
@@ -48,7 +77,312 @@ describe('observation providers', () => {
     expect(parseWindMph('15 to 20 mph')).toBe(20)
     expect(result.state).toBe('available')
     expect(result.observations[0].source.quality).toBe('official')
-    expect(result.observations[0].value).toMatchObject({ wind_mph: 20 })
+    expect(result.observations[0].value).toMatchObject({
+      wind_mph: 20,
+      wind_bearing_degrees: 180,
+      wind_gust_mph: 28,
+      gust_spread_mph: 8,
+      field_bearing_degrees: 175,
+      crosswind_mph: 1.7,
+      along_axis_mph: 19.9,
+    })
+  })
+
+  it('leaves wind unsplit at a venue whose field axis has not been surveyed', async () => {
+    const unsurveyed = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.venue === 'Paycor Stadium')!
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input)
+      if (url.includes('/points/')) {
+        return new Response(JSON.stringify({
+          properties: { forecastHourly: 'https://api.weather.gov/gridpoints/ILN/1,1/forecast/hourly' },
+        }), { status: 200 })
+      }
+      return new Response(JSON.stringify({
+        properties: {
+          updated: '2026-09-12T11:45:00.000Z',
+          periods: [{
+            number: 1,
+            startTime: '2026-09-13T17:00:00.000Z',
+            endTime: '2026-09-13T18:00:00.000Z',
+            temperature: 72,
+            temperatureUnit: 'F',
+            probabilityOfPrecipitation: { value: 10 },
+            windSpeed: '14 mph',
+            windDirection: 'W',
+            shortForecast: 'Sunny',
+          }],
+        },
+      }), { status: 200 })
+    }) as unknown as typeof fetch
+
+    const result = await nwsWeatherProvider.collect({
+      ...context(fetcher, new Date('2026-09-12T12:00:00.000Z')),
+      games: [unsurveyed],
+    })
+
+    expect(result.observations[0].value).toMatchObject({
+      wind_mph: 14,
+      field_bearing_degrees: null,
+      crosswind_mph: null,
+      along_axis_mph: null,
+    })
+  })
+
+  it('keeps agricultural freeze products out of the winter storm category', () => {
+    expect(['Winter Storm Warning', 'Ice Storm Warning', 'Blizzard Warning', 'Wind Chill Advisory', 'Extreme Cold Warning']
+      .map(alertCategory)).toEqual(Array(5).fill('winter_storm'))
+    expect(['Freeze Warning', 'Frost Advisory', 'Hard Freeze Watch'].map(alertCategory)).toEqual([null, null, null])
+  })
+
+  it('marks reversing forecast revisions as volatile', () => {
+    const forecast = (observedAt: string, windMph: number, precipitation: number) => createObservation({
+      gameId: game.game_id,
+      agentId: 'weather',
+      kind: 'forecast',
+      subject: { type: 'venue', id: 'Lumen Field' },
+      metric: 'weather.kickoff_forecast',
+      value: { wind_mph: windMph, precipitation_probability: precipitation },
+      source: {
+        provider: 'nws',
+        feed: 'hourly-forecast',
+        quality: 'official',
+        source_url: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly',
+      },
+      observedAt,
+      effectiveAt: game.kickoff,
+      importedAt: observedAt,
+      rawImportId: 'raw_test',
+    })
+
+    expect(forecastTrend([
+      forecast('2026-09-07T12:00:00.000Z', 6, 10),
+      forecast('2026-09-08T12:00:00.000Z', 18, 50),
+      forecast('2026-09-09T12:00:00.000Z', 9, 20),
+    ])).toEqual({
+      trend: 'volatile',
+      wind_change_mph: 3,
+      precipitation_change: 10,
+      max_wind_revision_mph: 12,
+      max_precipitation_revision: 40,
+      large_revision: true,
+    })
+  })
+
+  it('records an announced closed roof instead of requesting the exterior forecast', async () => {
+    const indoorGame = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.venue === 'Lucas Oil Stadium')!
+    const directory = mkdtempSync(path.join(tmpdir(), 'roof-status-'))
+    writeFileSync(path.join(directory, '2026.json'), JSON.stringify({
+      schema_version: 1,
+      season: 2026,
+      entries: [{
+        game_id: indoorGame.game_id,
+        status: 'closed',
+        announced_at: '2026-09-11T15:00:00.000Z',
+        source: 'Club announcement',
+        source_url: 'https://www.colts.com/news/roof-status',
+      }],
+    }))
+    const previous = process.env.SWANTAIL_ROOF_STATUS_DIR
+    process.env.SWANTAIL_ROOF_STATUS_DIR = directory
+    const fetcher = vi.fn() as unknown as typeof fetch
+    try {
+      const result = await nwsWeatherProvider.collect({
+        ...context(fetcher, new Date('2026-09-12T12:00:00.000Z')),
+        games: [indoorGame],
+      })
+
+      expect(fetcher).not.toHaveBeenCalled()
+      expect(result.observations).toHaveLength(1)
+      expect(result.observations[0].metric).toBe('venue.roof_status')
+      expect(result.observations[0].value).toMatchObject({ roof: 'retractable', status: 'closed' })
+      expect(result.game_states[indoorGame.game_id]).toMatchObject({ state: 'available', observation_count: 1 })
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ROOF_STATUS_DIR
+      else process.env.SWANTAIL_ROOF_STATUS_DIR = previous
+    }
+  })
+
+  it('keeps each book\'s latest pregame spread and total from the odds drop directory', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'odds-'))
+    const quote = {
+      game_id: game.game_id,
+      book: 'Book A',
+      source_url: 'https://sportsbook.example.com/nfl',
+    }
+    writeFileSync(path.join(directory, 'book-a.json'), JSON.stringify({
+      schema_version: 1,
+      quotes: [
+        { ...quote, market: 'spread', side: 'home', line: -3, price: -110, quoted_at: '2026-09-08T12:00:00.000Z' },
+        { ...quote, market: 'spread', side: 'home', line: -3.5, price: -105, quoted_at: '2026-09-09T10:00:00.000Z' },
+        { ...quote, market: 'spread', side: 'home', line: -4, price: -110, quoted_at: '2026-09-09T18:00:00.000Z' },
+      ],
+    }))
+    writeFileSync(path.join(directory, 'book-b.csv'), [
+      'game_id,book,market,side,line,price,quoted_at,source_url',
+      `${game.game_id},Book B,total,over,44.5,-108,2026-09-09T09:00:00.000Z,https://book-b.example.com/nfl`,
+    ].join('\n'))
+    writeFileSync(path.join(directory, 'broken.csv'), [
+      'game_id,book,market,side,line,price,quoted_at,source_url',
+      `${game.game_id},Book C,total,home,44.5,-108,2026-09-09T09:00:00.000Z,https://book-c.example.com/nfl`,
+    ].join('\n'))
+    const previous = process.env.SWANTAIL_ODDS_DIR
+    process.env.SWANTAIL_ODDS_DIR = directory
+    try {
+      const result = await localOddsProvider.collect(context(vi.fn() as unknown as typeof fetch))
+      const spread = result.observations.find(observation => observation.metric === 'market.spread')!
+      const total = result.observations.find(observation => observation.metric === 'market.total')!
+
+      expect(result.observations).toHaveLength(2)
+      expect(spread).toMatchObject({
+        agent_id: 'market',
+        kind: 'market',
+        subject: { type: 'team', id: game.home_team },
+        observed_at: '2026-09-09T10:00:00.000Z',
+        expires_at: game.kickoff,
+        source: { provider: 'swantail', feed: 'odds-file', quality: 'internal' },
+      })
+      expect(spread.value).toMatchObject({ book: 'Book A', side: 'home', line: -3.5, price: -105 })
+      expect(spread.unit).toBeUndefined()
+      expect(total.subject).toMatchObject({ type: 'game', id: game.game_id })
+      expect(total.value).toMatchObject({ book: 'Book B', side: 'over', line: 44.5, price: -108 })
+      expect(result.raw_imports.map(rawImport => rawImport.raw_import_id)).toContain(spread.raw_import_id)
+      expect((result.raw_imports[0].payload as { quotes: Array<{ quoted_at: string }> }).quotes.map(item => item.quoted_at))
+        .toEqual(['2026-09-08T12:00:00.000Z', '2026-09-09T10:00:00.000Z'])
+      expect(result.state).toBe('degraded')
+      expect(result.message).toContain('broken.csv')
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ODDS_DIR
+      else process.env.SWANTAIL_ODDS_DIR = previous
+    }
+  })
+
+  it('keeps one latest quote per book and side across separate odds drops', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'odds-'))
+    const quote = {
+      game_id: game.game_id,
+      book: 'Book A',
+      market: 'spread',
+      side: 'home',
+      price: -110,
+      source_url: 'https://sportsbook.example.com/nfl',
+    }
+    writeFileSync(path.join(directory, 'drop-1.json'), JSON.stringify({
+      schema_version: 1,
+      quotes: [{ ...quote, line: -3, quoted_at: '2026-09-08T12:00:00.000Z' }],
+    }))
+    writeFileSync(path.join(directory, 'drop-2.json'), JSON.stringify({
+      schema_version: 1,
+      quotes: [{ ...quote, line: -3.5, quoted_at: '2026-09-09T10:00:00.000Z' }],
+    }))
+    const previous = process.env.SWANTAIL_ODDS_DIR
+    process.env.SWANTAIL_ODDS_DIR = directory
+    try {
+      const result = await localOddsProvider.collect(context(vi.fn() as unknown as typeof fetch))
+
+      expect(result.observations).toHaveLength(1)
+      expect(result.observations[0].value).toMatchObject({ line: -3.5 })
+      expect(result.observations[0].raw_import_id).toBe(result.raw_imports[1].raw_import_id)
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ODDS_DIR
+      else process.env.SWANTAIL_ODDS_DIR = previous
+    }
+  })
+
+  it('turns manifest-mapped analyst grades into internal observations with a per-file report', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'internal-metrics-'))
+    writeFileSync(path.join(directory, 'manifest.json'), JSON.stringify({
+      schema_version: 1,
+      files: [
+        {
+          file: 'pass-pro.csv',
+          agent_id: 'trenches',
+          metric: 'internal.pass_protection_grade',
+          subject_type: 'team',
+          team_column: 'team',
+          value_columns: ['grade', 'sample_snaps'],
+          observed_at_column: 'graded_at',
+          freshness_hours: 168,
+        },
+        {
+          file: 'missing.json',
+          agent_id: 'qb',
+          metric: 'internal.qb_grade',
+          subject_type: 'player',
+          team_column: 'team',
+          subject_column: 'player_id',
+          value_columns: ['grade'],
+          observed_at_column: 'graded_at',
+          freshness_hours: 72,
+        },
+      ],
+    }))
+    writeFileSync(path.join(directory, 'pass-pro.csv'), [
+      'team,grade,sample_snaps,graded_at',
+      'NE,71.5,610,2026-09-08T15:00:00.000Z',
+      'Seattle,64,590,2026-09-08T15:00:00.000Z',
+      'XYZ,80,600,2026-09-08T15:00:00.000Z',
+      'NE,69,580,2026-08-20T15:00:00.000Z',
+    ].join('\n'))
+    const previous = process.env.SWANTAIL_INTERNAL_METRICS_DIR
+    process.env.SWANTAIL_INTERNAL_METRICS_DIR = directory
+    try {
+      const result = await internalMetricsProvider.collect(context(vi.fn() as unknown as typeof fetch))
+
+      expect(result.observations.map(observation => observation.subject.id)).toEqual(['NE', 'SEA'])
+      expect(result.observations[0]).toMatchObject({
+        agent_id: 'trenches',
+        kind: 'measurement',
+        metric: 'internal.pass_protection_grade',
+        value: { grade: 71.5, sample_snaps: 610 },
+        expires_at: '2026-09-15T15:00:00.000Z',
+        source: { provider: 'swantail', quality: 'internal' },
+      })
+      expect(result.raw_imports).toHaveLength(1)
+      expect(result.raw_imports[0].payload).toMatchObject({
+        validation: {
+          file: 'pass-pro.csv',
+          rows: 4,
+          accepted: 2,
+          stale: 1,
+          rejected: [{ row: 4, message: 'team is not a known team' }],
+        },
+      })
+      expect(result.state).toBe('degraded')
+      expect(result.message).toBe(
+        'pass-pro.csv: rejected 1 of 4 rows (row 4: team is not a known team); missing.json: file is missing',
+      )
+      expect(result.game_states[game.game_id]).toMatchObject({ state: 'available', observation_count: 2 })
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_INTERNAL_METRICS_DIR
+      else process.env.SWANTAIL_INTERNAL_METRICS_DIR = previous
+    }
+  })
+
+  it('rejects an internal metrics manifest entry without an observed-at column', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'internal-metrics-'))
+    writeFileSync(path.join(directory, 'manifest.json'), JSON.stringify({
+      schema_version: 1,
+      files: [{
+        file: 'grades.csv',
+        agent_id: 'trenches',
+        metric: 'internal.pass_protection_grade',
+        subject_type: 'team',
+        team_column: 'team',
+        value_columns: ['grade'],
+        freshness_hours: 168,
+      }],
+    }))
+    writeFileSync(path.join(directory, 'grades.csv'), 'team,grade\nNE,71.5\n')
+    const previous = process.env.SWANTAIL_INTERNAL_METRICS_DIR
+    process.env.SWANTAIL_INTERNAL_METRICS_DIR = directory
+    try {
+      const result = await internalMetricsProvider.collect(context(vi.fn() as unknown as typeof fetch))
+
+      expect(result).toMatchObject({ state: 'degraded', message: 'The internal metrics manifest is invalid', observations: [] })
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_INTERNAL_METRICS_DIR
+      else process.env.SWANTAIL_INTERNAL_METRICS_DIR = previous
+    }
   })
 
   it('labels nflverse injury observations as research-grade', async () => {
@@ -60,11 +394,115 @@ describe('observation providers', () => {
 
     const result = await nflverseInjuryProvider.collect(context(fetcher))
 
-    expect(result.observations).toHaveLength(1)
+    expect(result.observations.map(item => item.metric)).toEqual(['player.availability_report'])
     expect(result.observations[0].source.quality).toBe('research')
     expect(result.game_states[game.game_id].state).toBe('available')
   })
 
+  it('keeps injury rows published after the as-of time out of a backfill', async () => {
+    const csv = [
+      'season,team,week,gsis_id,position,full_name,report_status,practice_status,date_modified',
+      '2026,NE,1,00-1,WR,Early Report,Questionable,Limited Participation in Practice,2026-09-09T10:00:00Z',
+      '2026,NE,1,00-2,RB,Late Report,Out,Did Not Participate In Practice,2026-09-11T20:00:00Z',
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, {
+      status: 200,
+      headers: { 'last-modified': 'Mon, 19 Oct 2026 09:00:00 GMT' },
+    })) as unknown as typeof fetch
+
+    const result = await nflverseInjuryProvider.collect(context(fetcher))
+
+    expect(new Set(result.observations.map(item => item.subject.id))).toEqual(new Set(['00-1']))
+    expect(new Set(result.observations.map(item => item.observed_at))).toEqual(new Set(['2026-09-09T12:00:00.000Z']))
+  })
+
+  it('attaches the listed replacement for each designated starter', async () => {
+    const files: Record<string, string> = {
+      injuries: [
+        'season,team,week,gsis_id,position,full_name,report_status,practice_status',
+        '2026,NE,1,00-LT,T,Tackle Starter,Out,Did Not Participate In Practice',
+        '2026,SEA,1,00-CB,CB,Corner Starter,Out,Did Not Participate In Practice',
+      ].join('\n'),
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,NE,1,REG,1,Tackle Starter,00-LT,LT',
+        '2026,NE,1,REG,2,Tackle Reserve,00-LT2,LT',
+        '2026,SEA,1,REG,1,Corner Starter,00-CB,CB',
+        '2026,SEA,1,REG,2,Corner Reserve,00-CB2,CB',
+      ].join('\n'),
+      snap_counts: [
+        'season,week,game_type,player,team,offense_snaps,offense_pct,defense_snaps,defense_pct,st_snaps,st_pct',
+        '2025,1,REG,Tackle Starter,NE,60,1,0,0,0,0',
+        '2025,1,REG,Tackle Reserve,NE,6,0.1,0,0,10,0.4',
+        '2025,1,REG,Corner Starter,SEA,0,0,60,0.95,0,0',
+        '2025,1,REG,Corner Reserve Jr.,SEA,0,0,45,0.7,5,0.2',
+      ].join('\n'),
+      stats_player: [
+        'season,week,season_type,player_id,def_sacks,def_qb_hits,def_tackles_for_loss,def_pass_defended,def_interceptions,def_fumbles_forced',
+        '2025,1,REG,00-CB,0,0,0,2,0,0',
+        '2025,1,REG,00-CB2,0,0,0,1,1,0',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+
+    const result = await nflverseInjuryProvider.collect(context(fetcher))
+    const profiles = result.observations.filter(item => item.metric === 'player.replacement_profile')
+    const tackle = profiles.find(item => item.subject.id === '00-LT')!
+
+    expect(result.observations).toHaveLength(4)
+    expect(result.raw_imports.map(item => item.feed)).toEqual(['injuries', 'depth-charts'])
+    expect(tackle.source.feed).toBe('depth-charts')
+    expect(tackle.value).toMatchObject({
+      role: 'LT',
+      report_status: 'Out',
+      starter: { snap_share: 1, production_per_game: null },
+      replacement: { player_id: '00-LT2', name: 'Tackle Reserve', depth_chart_rank: 2, snap_share: 0.1 },
+      production_metric: null,
+      snap_share_gap: 0.9,
+      data_season: 2025,
+    })
+    expect(profiles.find(item => item.subject.id === '00-CB')!.value).toMatchObject({
+      replacement: { snap_share: 0.7, production_per_game: 2 },
+      production_metric: 'defensive_disruptions',
+    })
+  })
+
+  it('does not read a late downgrade across a report day that was never captured', () => {
+    const report = (reportDate: string, practiceStatus: string) => createObservation({
+      gameId: game.game_id,
+      agentId: 'injury',
+      kind: 'report',
+      subject: { type: 'player', id: '00-1', label: 'Example Player', team: 'NE' },
+      metric: 'player.practice_report',
+      value: { report_date: reportDate, practice_status: practiceStatus, report_status: 'Questionable' },
+      source: {
+        provider: 'nflverse',
+        feed: 'injuries',
+        quality: 'research',
+        source_url: 'https://github.com/nflverse/nflverse-data/releases/download/injuries/injuries_2026.csv',
+      },
+      observedAt: `${reportDate}T20:30:00.000Z`,
+      effectiveAt: game.kickoff,
+      importedAt: `${reportDate}T20:30:00.000Z`,
+      rawImportId: 'raw_test',
+    })
+
+    const gapped = practiceTrajectory([
+      report('2026-09-07', 'Full Participation in Practice'),
+      report('2026-09-09', 'Limited Participation in Practice'),
+    ], game.kickoff)
+    const consecutive = practiceTrajectory([
+      report('2026-09-08', 'Full Participation in Practice'),
+      report('2026-09-09', 'Limited Participation in Practice'),
+    ], game.kickoff)
+
+    expect(gapped).toMatchObject({ trajectory: 'worsening', late_downgrade: false, missing_days: 1 })
+    expect(consecutive).toMatchObject({ trajectory: 'worsening', late_downgrade: true, missing_days: 0 })
+  })
+
   it('creates shared efficiency, turnover, and trenches baselines for week one', async () => {
     const csv = [
       'season,week,team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa,passing_interceptions,fumbles_lost_total,def_interceptions,fumble_recovery_opp,def_fumbles_forced,def_sacks,def_qb_hits,def_tackles_for_loss',
@@ -81,6 +519,237 @@ describe('observation providers', () => {
     expect(result.observations.map(item => item.subject.id)).toEqual(expect.arrayContaining(['NE', 'SEA']))
   })
 
+  it('degrades the team baseline when the play-by-play splits cannot be downloaded', async () => {
+    const csv = [
+      'season,week,team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+      '2025,1,NE,REG,35,20,5,-4,-2',
+      '2025,1,SEA,REG,30,28,1,8,4',
+    ].join('\n')
+    const fetcher = vi.fn(async (input: string | URL | Request) => (
+      String(input).includes('play_by_play') ? new Response('', { status: 503 }) : new Response(csv, { status: 200 })
+    )) as unknown as typeof fetch
+
+    const result = await nflverseTeamStatsProvider.collect(context(fetcher))
+
+    expect(result.observations).toHaveLength(6)
+    expect(result.state).toBe('degraded')
+    expect(result.game_states[game.game_id]).toMatchObject({
+      state: 'degraded',
+      observation_count: 6,
+      message: expect.stringContaining('Efficiency splits unavailable'),
+    })
+  })
+
+  it('ranks a soft-schedule offense below its opponent-adjusted peers', async () => {
+    const offense: Record<string, number> = { NE: 0.1, SEA: 0.2, BUF: 0, MIA: 0 }
+    const allowance: Record<string, number> = { NE: 0, SEA: 0, BUF: 0.3, MIA: -0.1 }
+    const games = [['NE', 'BUF'], ['NE', 'BUF'], ['SEA', 'MIA'], ['SEA', 'MIA'], ['NE', 'SEA'], ['BUF', 'MIA'], ['NE', 'MIA']]
+    const csv = [
+      'season,week,team,opponent_team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+      ...games.flatMap(([first, second], index) => [[first, second], [second, first]].map(([team, opponent]) => (
+        `2025,${index + 1},${team},${opponent},REG,30,30,0,${((offense[team] + allowance[opponent]) * 60).toFixed(2)},0`
+      ))),
+    ].join('\n')
+    const fetcher = vi.fn(async (input: string | URL | Request) => (
+      String(input).includes('stats_team') ? new Response(csv, { status: 200 }) : new Response('', { status: 404 })
+    )) as unknown as typeof fetch
+
+    const result = await nflverseTeamStatsProvider.collect(context(fetcher))
+    const epa = Object.fromEntries(result.observations
+      .filter(item => item.metric === 'team.offensive_epa_per_play')
+      .map(item => [item.subject.id, item.value as Record<string, unknown>]))
+
+    expect(epa.NE).toMatchObject({ value: 0.225, rank: 1, adjusted: true, opponent_adjusted: { rank: 2 } })
+    expect(epa.SEA).toMatchObject({ rank: 2, adjusted: true, opponent_adjusted: { rank: 1 } })
+    expect((epa.SEA.opponent_adjusted as { value: number }).value
+      - (epa.NE.opponent_adjusted as { value: number }).value).toBeCloseTo(0.1, 3)
+  })
+
+  it('labels a momentum window without enough completed games as insufficient', async () => {
+    const csv = [
+      'season,week,team,opponent_team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+      '2025,1,NE,SEA,REG,30,30,0,6,0',
+      '2025,1,SEA,NE,REG,30,30,0,-3,0',
+      '2025,2,NE,SEA,REG,30,30,0,3,0',
+      '2025,2,SEA,NE,REG,30,30,0,0,0',
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+
+    const result = await nflverseMomentumProvider.collect(context(fetcher))
+    const newEngland = result.observations.find(item => item.subject.id === 'NE')!
+
+    expect(result.observations).toHaveLength(2)
+    expect(result.game_states[game.game_id].state).toBe('available')
+    expect(newEngland.metric).toBe('team.momentum_profile')
+    expect(newEngland.value).toMatchObject({
+      recent_games: 2,
+      baseline_games: 0,
+      opponent_adjusted: true,
+      offense: { significance: 'insufficient_sample', change: null },
+    })
+  })
+
+  it('aggregates play-by-play into a neutral pace profile per team', async () => {
+    const csv = [
+      'season,week,season_type,game_id,posteam,play_type,fixed_drive,game_seconds_remaining,half_seconds_remaining,qtr,wp,no_huddle,down,pass',
+      '2025,1,REG,2025_01_NE_SEA,NE,pass,1,3000,1200,2,0.5,1,1,1',
+      '2025,1,REG,2025_01_NE_SEA,NE,run,1,2980,1180,2,0.5,1,2,0',
+      '2025,1,REG,2025_01_NE_SEA,NE,pass,1,2960,1160,2,0.5,0,3,1',
+      '2025,1,REG,2025_01_NE_SEA,SEA,pass,2,2900,1100,2,0.5,0,1,1',
+      '2025,1,REG,2025_01_NE_SEA,SEA,run,2,2870,1070,2,0.5,0,2,0',
+      '2025,1,REG,2025_01_NE_SEA,SEA,run,2,2840,1040,2,0.95,0,1,0',
+      '2025,1,REG,2025_01_NE_SEA,SEA,no_play,2,2830,1030,2,0.5,0,1,0',
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+
+    const result = await nflversePaceProvider.collect(context(fetcher))
+    const byTeam = Object.fromEntries(result.observations.map(item => [item.subject.id, item.value]))
+
+    expect(result.observations).toHaveLength(2)
+    expect(result.game_states[game.game_id].state).toBe('available')
+    expect(byTeam.NE).toMatchObject({
+      neutral_seconds_per_snap: 20,
+      tempo_rank: 1,
+      no_huddle_rate: 0.6667,
+      neutral_early_down_pass_rate: 0.5,
+      plays_per_drive: 3,
+      data_season: 2025,
+    })
+    expect(byTeam.SEA).toMatchObject({ neutral_seconds_per_snap: 30, tempo_rank: 2, neutral_snaps: 2 })
+  })
+
+  it('keeps only the play-by-play columns providers read in the shared download', async () => {
+    const csv = [
+      'season,week,season_type,game_id,posteam,play_type,desc,air_yards',
+      '2025,1,REG,2025_01_NE_SEA,NE,pass,(14:55) M.Jones pass short right,6',
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+    const run = context(fetcher)
+    const loaded: unknown[] = []
+    const downloads = {
+      load: <T,>(url: string, read: (fetcher: typeof fetch) => Promise<T>) => run.downloads.load(url, read)
+        .then(download => {
+          loaded.push(download)
+          return download
+        }),
+    }
+
+    await nflversePaceProvider.collect({ ...run, downloads })
+
+    expect(loaded).toMatchObject([{
+      rows: [{ season: '2025', week: '1', season_type: 'REG', game_id: '2025_01_NE_SEA', posteam: 'NE', play_type: 'pass' }],
+    }])
+    expect(Object.keys((loaded[0] as { rows: object[] }).rows[0])).not.toContain('desc')
+  })
+
+  it('combines charted pressures, time to throw, and pressured EPA into a pressure profile', async () => {
+    const files: Record<string, string> = {
+      advstats_week_pass: [
+        'season,week,game_type,team,opponent,times_pressured',
+        '2025,1,REG,NE,SEA,3',
+        '2025,1,REG,SEA,NE,1',
+      ].join('\n'),
+      advstats_week_def: [
+        'season,week,game_type,team,opponent,def_pressures',
+        '2025,1,REG,NE,SEA,1',
+        '2025,1,REG,SEA,NE,2',
+        '2025,1,REG,SEA,NE,1',
+      ].join('\n'),
+      ngs_2025_passing: [
+        'season,season_type,week,team_abbr,attempts,avg_time_to_throw',
+        '2025,REG,0,NE,40,9.9',
+        '2025,REG,1,NE,30,2.5',
+        '2025,REG,1,SEA,30,3.1',
+      ].join('\n'),
+      play_by_play: [
+        'season,week,season_type,game_id,posteam,defteam,qb_dropback,qb_hit,sack,epa',
+        '2025,1,REG,2025_01_NE_SEA,NE,SEA,1,1,0,-2',
+        '2025,1,REG,2025_01_NE_SEA,NE,SEA,1,0,1,-1',
+        '2025,1,REG,2025_01_NE_SEA,NE,SEA,1,0,0,0.4',
+        '2025,1,REG,2025_01_NE_SEA,NE,SEA,1,0,0,0.2',
+        '2025,1,REG,2025_01_NE_SEA,SEA,NE,1,1,0,0.5',
+        '2025,1,REG,2025_01_NE_SEA,SEA,NE,1,0,0,0.1',
+        '2025,1,REG,2025_01_NE_SEA,SEA,NE,1,0,0,0.3',
+        '2025,1,REG,2025_01_NE_SEA,SEA,NE,1,0,0,0.2',
+        '2025,1,REG,2025_01_NE_SEA,SEA,NE,0,0,0,0.2',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+
+    const result = await nflversePressureProvider.collect(context(fetcher))
+    const byTeam = Object.fromEntries(result.observations.map(item => [item.subject.id, item.value]))
+
+    expect(result.observations).toHaveLength(2)
+    expect(result.game_states[game.game_id].state).toBe('available')
+    expect(byTeam.NE).toMatchObject({
+      pressure_rate_allowed: 0.75,
+      pressure_rate_generated: 0.25,
+      average_time_to_throw: 2.5,
+      qb_epa_under_pressure: -1.5,
+      protection_rank: 2,
+      pass_rush_rank: 2,
+    })
+    expect(byTeam.SEA).toMatchObject({
+      pressure_rate_allowed: 0.25,
+      pressure_rate_generated: 0.75,
+      pressure_response_rank: 1,
+    })
+  })
+
+  it('projects each starting quarterback from the depth chart and injury report', async () => {
+    const dropbacks = (params: {
+      team: string
+      opponent: string
+      passerId: string
+      passer: string
+      count: number
+      epa: number
+    }) => Array.from({ length: params.count }, (_, index) => [
+      2025, 1, 'REG', `2025_01_${params.team}`, params.team, params.opponent, 1, params.passerId, params.passer,
+      params.epa, index % 10 === 0 ? 0 : 1, index % 10 === 0 ? 1 : 0, index % 25 === 1 ? 1 : 0, 0, 2.5,
+    ].join(','))
+    const files: Record<string, string> = {
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,NE,1,REG,1,Starter A,00-A,QB',
+        '2026,NE,1,REG,2,Backup B,00-B,QB',
+        '2026,SEA,1,REG,1,Starter S,00-S,QB',
+      ].join('\n'),
+      injuries: 'season,team,week,gsis_id,full_name,report_status\n2026,NE,1,00-A,Starter A,Out',
+      play_by_play: [
+        'season,week,season_type,game_id,posteam,defteam,qb_dropback,passer_id,passer,epa,pass_attempt,sack,interception,qb_scramble,cpoe',
+        ...dropbacks({ team: 'NE', opponent: 'SEA', passerId: '00-A', passer: 'Starter A', count: 200, epa: 0.2 }),
+        ...dropbacks({ team: 'NE', opponent: 'SEA', passerId: '00-B', passer: 'Backup B', count: 60, epa: -0.3 }),
+        ...dropbacks({ team: 'SEA', opponent: 'NE', passerId: '00-S', passer: 'Starter S', count: 200, epa: 0.1 }),
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+
+    const result = await nflverseQuarterbackProvider.collect(context(fetcher))
+    const starters = result.observations.filter(item => item.metric === 'player.qb_profile')
+    const newEngland = starters.find(item => item.subject.team === 'NE')!
+
+    expect(result.observations).toHaveLength(4)
+    expect(result.game_states[game.game_id].state).toBe('available')
+    expect(newEngland.subject).toMatchObject({ type: 'player', id: '00-B', label: 'Backup B' })
+    expect(newEngland.value).toMatchObject({
+      injury_adjusted: true,
+      starter_change: true,
+      incumbent: { player_id: '00-A', name: 'Starter A' },
+      dropbacks: 60,
+      epa_per_dropback: -0.3,
+      sack_rate: 0.1,
+      cpoe: 2.5,
+    })
+    expect(starters.find(item => item.subject.team === 'SEA')!.value).toMatchObject({ starter_change: false })
+  })
+
   it('derives Week 1 rest and travel context without inventing prior-game rest', async () => {
     const result = await scheduleRestProvider.collect(context(fetch))
     const values = result.observations.map(observation => observation.value as Record<string, unknown>)
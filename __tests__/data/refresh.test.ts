@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { planRefresh, planSlotKey, priorWeekEndsAt, refreshSlots } from '@/lib/data/refresh'
+import { loadSchedule, loadSeasonGames } from '@/lib/nfl/schedule'
+
+const week1 = loadSchedule({ season: 2026, week: 1 }).games
+const opener = week1[0]
+
+describe('kickoff-relative refresh plan', () => {
+  it('lists weather, practice-report, weekly, and market slots for a game', () => {
+    const sunday = week1.find(game => game.game_id === '2026-wk01-TB-at-CIN')!
+    const slots = refreshSlots(sunday, null)
+
+    expect(slots.filter(slot => slot.feed === 'weather').map(slot => [slot.slot_id, slot.due_at])).toEqual([
+      ['t-72h', '2026-09-10T17:00:00.000Z'],
+      ['t-24h', '2026-09-12T17:00:00.000Z'],
+      ['t-6h', '2026-09-13T11:00:00.000Z'],
+      ['t-90m', '2026-09-13T15:30:00.000Z'],
+      ['final', '2026-09-13T21:00:00.000Z'],
+    ])
+    expect(slots.filter(slot => slot.feed === 'injury').map(slot => slot.slot_id)).toEqual([
+      'practice-2026-09-09',
+      'practice-2026-09-10',
+      'practice-2026-09-11',
+    ])
+    expect(slots.find(slot => slot.feed === 'team_stats')).toMatchObject({ slot_id: 'prior-season' })
+    expect(slots.filter(slot => slot.feed === 'market').at(-1)).toMatchObject({
+      slot_id: 'close',
+      due_at: sunday.kickoff,
+    })
+  })
+
+  it('plans only the latest passed slot that no run has served', () => {
+    const now = new Date('2026-09-09T19:00:00.000Z')
+    const served = new Set([planSlotKey({ game_id: opener.game_id, feed: 'team_stats', slot_id: 'prior-season' })])
+
+    const due = planRefresh({ games: [opener], now, served, priorWeekEnd: null })
+
+    expect(due.map(slot => [slot.feed, slot.slot_id])).toEqual([
+      ['weather', 't-6h'],
+      ['injury', 'practice-2026-09-08'],
+      ['market', 't-6h'],
+      ['internal_metrics', 'prior-season'],
+    ])
+    const servedAll = new Set([...served, ...due.map(planSlotKey)])
+    expect(planRefresh({ games: [opener], now, served: servedAll, priorWeekEnd: null })).toEqual([])
+  })
+
+  it('stops planning a game once its post-game weather window has passed', () => {
+    const due = planRefresh({
+      games: [opener],
+      now: new Date('2026-09-10T07:00:00.000Z'),
+      served: new Set(),
+      priorWeekEnd: null,
+    })
+
+    expect(due).toEqual([])
+  })
+
+  it('waits for the prior week to finish before refreshing weekly statistics', () => {
+    const weekOneKickoffs = loadSeasonGames(2026)
+      .filter(game => game.week === 1)
+      .map(game => Date.parse(game.kickoff))
+    const weekEnd = priorWeekEndsAt({ season: 2026, week: 2 })!
+    const game = loadSchedule({ season: 2026, week: 2 }).games[0]
+
+    expect(weekEnd.getTime()).toBe(Math.max(...weekOneKickoffs) + 12 * 60 * 60 * 1000)
+    expect(priorWeekEndsAt({ season: 2026, week: 1 })).toBeNull()
+    expect(planRefresh({
+      games: [game],
+      now: new Date(weekEnd.getTime() - 60 * 1000),
+      served: new Set(),
+      priorWeekEnd: weekEnd,
+    }).some(slot => slot.feed === 'team_stats')).toBe(false)
+    expect(planRefresh({
+      games: [game],
+      now: weekEnd,
+      served: new Set(),
+      priorWeekEnd: weekEnd,
+    }).find(slot => slot.feed === 'team_stats')).toMatchObject({ slot_id: 'after-week-1' })
+  })
+})
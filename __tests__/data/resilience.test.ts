@@ -0,0 +1,202 @@
+import { describe, expect, it, vi } from 'vitest'
+import { IngestionFeedResultSchema } from '@/lib/data/contracts'
+import {
+  nflversePaceProvider,
+  nflversePressureProvider,
+  nflverseTeamStatsProvider,
+} from '@/lib/data/providers/nflverse'
+import type { ObservationProvider, WeekProviderContext } from '@/lib/data/providers/types'
+import {
+  breakerState,
+  collectWithResilience,
+  createDownloadCache,
+  nextBreaker,
+  type CircuitBreaker,
+} from '@/lib/data/resilience'
+import { loadSchedule } from '@/lib/nfl/schedule'
+
+const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+const now = new Date('2026-09-09T12:00:00.000Z')
+const route = { provider: 'nws', feed: 'hourly-forecast' }
+
+function context(fetcher: typeof fetch): WeekProviderContext {
+  return { games: [game], season: 2026, week: 1, now, fetch: fetcher, downloads: createDownloadCache({ fetch: fetcher }) }
+}
+
+function probeFeed(checkedAt: string, answered: boolean) {
+  return IngestionFeedResultSchema.parse({
+    provider: 'nws',
+    feed: 'hourly-forecast',
+    state: answered ? 'available' : 'missing',
+    checked_at: checkedAt,
+    raw_imports: [],
+    observations: [],
+    game_states: {
+      [game.game_id]: { state: answered ? 'available' : 'missing', checked_at: checkedAt, observation_count: 0 },
+    },
+  })
+}
+
+// Requests one URL and reports whether it answered; observations are not needed to exercise the wrapper.
+function probeProvider(onResponse?: (response: Response) => void): ObservationProvider {
+  return {
+    agentIds: ['weather'],
+    async collect(providerContext) {
+      const answered = await providerContext.fetch('https://api.weather.gov/points/47.5952,-122.3316')
+        .then(response => {
+          onResponse?.(response)
+          return response.ok
+        })
+        .catch(() => false)
+      return probeFeed(providerContext.now.toISOString(), answered)
+    },
+  }
+}
+
+// Reads one release file through the run's shared downloads.
+function releaseProvider(url: string, onBody?: (body: string) => void): ObservationProvider {
+  return {
+    agentIds: ['pace'],
+    async collect(providerContext) {
+      const body = await providerContext.downloads.load(url, async fetcher => (await fetcher(url)).text())
+      onBody?.(body)
+      return probeFeed(providerContext.now.toISOString(), true)
+    },
+  }
+}
+
+function hangingFetch(): typeof fetch {
+  return ((_: string, init?: RequestInit) => new Promise((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+  })) as unknown as typeof fetch
+}
+
+describe('provider resilience', () => {
+  it('retries a 503 and records the attempts it took', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }))
+    const statuses: number[] = []
+
+    const result = await collectWithResilience({
+      provider: probeProvider(response => statuses.push(response.status)),
+      route,
+      context: context(fetcher as unknown as typeof fetch),
+      breaker: undefined,
+    })
+
+    expect(statuses).toEqual([200])
+    expect(result.telemetry).toMatchObject({ attempts: 2, retries: 1, failed_requests: 0, breaker: 'closed' })
+    expect(result.breaker).toMatchObject({ consecutive_failures: 0, opened_at: null })
+  })
+
+  it('shares one download per release file across the providers of a run', async () => {
+    const fetcher = vi.fn(async () => new Response('season,team\n2025,NE\n', { status: 200 }))
+    const run = context(fetcher as unknown as typeof fetch)
+
+    await Promise.all([nflverseTeamStatsProvider, nflversePaceProvider, nflversePressureProvider].map(provider => (
+      collectWithResilience({ provider, route, context: { ...run, games: [game] }, breaker: undefined })
+    )))
+    const urls = fetcher.mock.calls.map(call => String((call as unknown[])[0]))
+
+    expect(urls.some(url => url.includes('play_by_play_'))).toBe(true)
+    expect(urls).toEqual([...new Set(urls)])
+  })
+
+  it('finishes a shared download for the next provider after the first misses its deadline', async () => {
+    const url = 'https://github.com/nflverse/nflverse-data/releases/download/pbp/play_by_play_2025.csv.gz'
+    const fetcher = vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 60))
+      return new Response('season,team\n2025,NE\n', { status: 200 })
+    })
+    const downloads = createDownloadCache({ fetch: fetcher as unknown as typeof fetch })
+    const run = { ...context(fetcher as unknown as typeof fetch), downloads }
+    const bodies: string[] = []
+
+    const [first, second] = await Promise.all([
+      collectWithResilience({
+        provider: releaseProvider(url),
+        route: { ...route, deadlineMs: 20 },
+        context: run,
+        breaker: undefined,
+      }),
+      collectWithResilience({
+        provider: releaseProvider(url, body => bodies.push(body)),
+        route: { provider: 'nflverse', feed: 'play-by-play' },
+        context: run,
+        breaker: undefined,
+      }),
+    ])
+
+    expect(first.telemetry.timed_out).toBe(true)
+    expect(second.breaker).toMatchObject({ consecutive_failures: 0 })
+    expect(bodies).toEqual(['season,team\n2025,NE\n'])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(downloads.telemetry()[url]).toMatchObject({ attempts: 1, failed_requests: 0 })
+  })
+
+  it('drops a failed shared download so the next reader retries it', async () => {
+    const url = 'https://github.com/nflverse/nflverse-data/releases/download/injuries/injuries_2026.csv'
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(new Response('season,team\n2026,NE\n', { status: 200 }))
+    const downloads = createDownloadCache({ fetch: fetcher as unknown as typeof fetch })
+    const read = async (loader: typeof fetch) => (await loader(url)).text()
+
+    await expect(downloads.load(url, read)).rejects.toThrow('connection reset')
+    await expect(downloads.load(url, read)).resolves.toBe('season,team\n2026,NE\n')
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('abandons a hanging request at its deadline and counts the failed run', async () => {
+    const result = await collectWithResilience({
+      provider: probeProvider(),
+      route: { ...route, requestTimeoutMs: 20 },
+      context: context(hangingFetch()),
+      breaker: undefined,
+    })
+
+    expect(result.telemetry).toMatchObject({ attempts: 1, failed_requests: 1, timed_out: false })
+    expect(result.breaker).toMatchObject({ consecutive_failures: 1, opened_at: null })
+  })
+
+  it('returns a degraded feed when the whole provider misses its deadline', async () => {
+    const provider: ObservationProvider = {
+      agentIds: ['weather'],
+      collect: () => new Promise(() => undefined),
+    }
+
+    const result = await collectWithResilience({
+      provider,
+      route: { ...route, deadlineMs: 20 },
+      context: context(hangingFetch()),
+      breaker: undefined,
+    })
+
+    expect(result.feed).toMatchObject({ provider: 'nws', feed: 'hourly-forecast', state: 'degraded' })
+    expect(result.feed.game_states[game.game_id].state).toBe('degraded')
+    expect(result.telemetry.timed_out).toBe(true)
+  })
+
+  it('opens after three failed runs, skips the provider, and allows a trial after the cooldown', async () => {
+    let breaker: CircuitBreaker | undefined
+    for (let run = 0; run < 3; run += 1) {
+      breaker = nextBreaker({ id: 'nws:hourly-forecast', breaker, failure: 'HTTP 503', now })
+    }
+    const provider = { agentIds: ['weather'] as const, collect: vi.fn() }
+
+    const skipped = await collectWithResilience({
+      provider,
+      route,
+      context: context(vi.fn() as unknown as typeof fetch),
+      breaker,
+    })
+
+    expect(breaker).toMatchObject({ consecutive_failures: 3, opened_at: now.toISOString() })
+    expect(provider.collect).not.toHaveBeenCalled()
+    expect(skipped.feed.state).toBe('degraded')
+    expect(skipped.telemetry.breaker).toBe('open')
+    expect(skipped.breaker).toBeNull()
+    expect(breakerState(breaker, new Date(now.getTime() + 31 * 60 * 1000))).toBe('half_open')
+  })
+})
@@ -1,13 +1,33 @@
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
 import { describe, expect, it, vi } from 'vitest'
 import {
   GameSnapshotSchema,
   OBSERVATION_AGENT_IDS,
   type IngestionFeedResult,
 } from '@/lib/data/contracts'
-import { nflverseTeamStatsProvider } from '@/lib/data/providers/nflverse'
+import {
+  attachPracticeTrajectories,
+  nflverseInjuryProvider,
+  nflverseMomentumProvider,
+  nflversePaceProvider,
+  nflversePressureProvider,
+  nflverseQuarterbackProvider,
+  nflverseTeamStatsProvider,
+} from '@/lib/data/providers/nflverse'
+import {
+  attachForecastErrors,
+  attachForecastTrajectories,
+  nwsWeatherProvider,
+} from '@/lib/data/providers/nws'
+import { internalMetricsProvider } from '@/lib/data/providers/internal-metrics'
+import { localOddsProvider } from '@/lib/data/providers/odds'
 import { scheduleRestProvider } from '@/lib/data/providers/rest'
+import { createObservation } from '@/lib/data/providers/shared'
+import { createDownloadCache } from '@/lib/data/resilience'
 import { loadSchedule, type ScheduleGame } from '@/lib/nfl/schedule'
-import type { ScenarioGame } from '@/lib/terminal/contracts'
+import { GAME_AGENT_IDS, type ScenarioGame } from '@/lib/terminal/contracts'
 import { resolveScenario } from '@/lib/terminal/scenario'
 
 function providerContext(game: ScheduleGame, now: Date, fetcher: typeof fetch = fetch) {
@@ -17,6 +37,7 @@ function providerContext(game: ScheduleGame, now: Date, fetcher: typeof fetch =
     week: game.week,
     now,
     fetch: fetcher,
+    downloads: createDownloadCache({ fetch: fetcher }),
   }
 }
 
@@ -90,12 +111,1273 @@ describe('data-backed Game Agent findings', () => {
     expect(scenario.suggested_anchor_ids).toEqual(['home_win', 'high_variance', 'run_heavy'])
   })
 
+  it('keeps analyst grades on the same teams from standing in for the provider profiles', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const csv = [
+      'season,week,team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa,passing_interceptions,fumbles_lost_total,def_interceptions,fumble_recovery_opp,def_fumbles_forced,def_sacks,def_qb_hits,def_tackles_for_loss',
+      '2025,1,NE,REG,35,20,5,-4,-2,2,1,0,0,0,1,2,2',
+      '2025,1,SEA,REG,30,28,1,8,4,0,0,2,1,2,4,7,6',
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const directory = mkdtempSync(path.join(tmpdir(), 'internal-metrics-'))
+    writeFileSync(path.join(directory, 'manifest.json'), JSON.stringify({
+      schema_version: 1,
+      files: ['trenches', 'turnovers'].map(agentId => ({
+        file: 'grades.csv',
+        agent_id: agentId,
+        metric: `internal.${agentId}_grade`,
+        subject_type: 'team',
+        team_column: 'team',
+        value_columns: ['grade'],
+        observed_at_column: 'graded_at',
+        freshness_hours: 168,
+      })),
+    }))
+    writeFileSync(path.join(directory, 'grades.csv'), [
+      'team,grade,graded_at',
+      'NE,88,2026-08-14T15:00:00.000Z',
+      'SEA,52,2026-08-14T15:00:00.000Z',
+    ].join('\n'))
+    const previous = process.env.SWANTAIL_INTERNAL_METRICS_DIR
+    process.env.SWANTAIL_INTERNAL_METRICS_DIR = directory
+    try {
+      const grades = await internalMetricsProvider.collect(providerContext(game, now))
+      const feed = await nflverseTeamStatsProvider.collect(providerContext(game, now, fetcher))
+      const snapshot = snapshotFromFeed({
+        game,
+        feed: { ...feed, observations: [...grades.observations, ...feed.observations] },
+        capturedAt: now.toISOString(),
+      })
+      const scenario = resolveScenario({
+        game: scenarioGame(game),
+        agentIds: ['trenches', 'turnovers'],
+        snapshot,
+        now,
+      })
+      const gradeIds = new Set(grades.observations.map(observation => observation.observation_id))
+
+      expect(grades.observations).toHaveLength(4)
+      expect(scenario.events.map(event => event.finding.state)).toEqual(['material', 'material'])
+      expect(scenario.events.map(event => event.finding.direction)).toEqual(['home', 'home'])
+      expect(scenario.events.flatMap(event => event.finding.signals.flatMap(signal => signal.observation_ids))
+        .some(id => gradeIds.has(id))).toBe(false)
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_INTERNAL_METRICS_DIR
+      else process.env.SWANTAIL_INTERNAL_METRICS_DIR = previous
+    }
+  })
+
+  it('separates a luck-driven turnover edge from the repeatable ball-security profile', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const files: Record<string, string> = {
+      stats_team: [
+        'season,week,team,season_type,games,attempts,carries,sack_fumbles,rushing_fumbles,fumbles_lost_total,passing_interceptions,def_fumbles_forced,fumble_recovery_opp,def_interceptions,def_pass_defended',
+        '2025,1,NE,REG,17,500,400,4,6,1,2,2,8,14,40',
+        '2025,1,SEA,REG,17,500,400,2,4,6,12,4,1,2,30',
+        '2025,1,BUF,REG,17,500,400,1,3,2,6,10,5,8,60',
+        '2025,1,MIA,REG,17,500,400,5,7,6,10,2,1,6,20',
+      ].join('\n'),
+      pfr_advstats: [
+        'season,week,team,game_type,passing_bad_throws',
+        '2025,1,NE,REG,40',
+        '2025,1,SEA,REG,40',
+        '2025,1,BUF,REG,20',
+        '2025,1,MIA,REG,50',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const feed = await nflverseTeamStatsProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const profiles = Object.fromEntries(feed.observations
+      .filter(item => item.metric === 'team.turnover_profile')
+      .map(item => [item.subject.id, item.value]))
+
+    expect(profiles.NE).toMatchObject({
+      giveaway_rank: 1,
+      takeaway_rank: 1,
+      luck: {
+        expected_fumbles_lost: 5,
+        expected_interceptions: 8,
+        interception_basis: 'bad_throws',
+        expected_giveaway_rank: 3,
+        expected_recoveries: 1,
+        expected_defensive_interceptions: 8,
+        expected_takeaway_rank: 2,
+        net_luck_per_game: 1.353,
+      },
+    })
+    expect(profiles.SEA).toMatchObject({ luck: { net_luck_per_game: -0.706 } })
+
+    const scenario = resolveScenario({ game: scenarioGame(game), agentIds: ['turnovers'], snapshot, now })
+    const [event] = scenario.events
+    expect(event.finding.state).toBe('contextual')
+    expect(event.finding.direction).toBe('away')
+    expect(event.finding.headline).toBe("NE's turnover edge leans on luck likely to fade")
+    expect(event.finding.signals.map(signal => signal.label)).toEqual([
+      'Expected giveaways / game',
+      'Expected takeaways / game',
+      'Luck residual / game',
+      'Cross-match exposure',
+    ])
+    expect(event.finding.signals[2]).toMatchObject({ away_value: '+1.353', home_value: '-0.706' })
+    expect(event.finding.signals[3]).toMatchObject({ away_value: 'typical', home_value: 'typical' })
+    expect(scenario.suggested_anchor_ids).toEqual([])
+  })
+
+  it('crosses each offense with the opposing defense by pass and run', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const offenseQuality: Record<string, number> = { NE: 0.3, SEA: -0.2, BUF: 0, MIA: 0.05 }
+    const defenseLeak: Record<string, number> = { NE: -0.2, SEA: 0.25, BUF: 0, MIA: 0.05 }
+    const matchups = [['NE', 'BUF'], ['BUF', 'NE'], ['NE', 'MIA'], ['MIA', 'NE'], ['SEA', 'BUF'], ['BUF', 'SEA'], ['SEA', 'MIA'], ['MIA', 'SEA']]
+    const plays = matchups.flatMap(([offense, defense], gameIndex) => Array.from({ length: 10 }, (_, index) => {
+      const playType = index < 6 ? 'pass' : 'run'
+      const epa = offenseQuality[offense] + defenseLeak[defense]
+      const touchdown = index === 9 && epa > 0 ? 1 : 0
+      return [
+        2025, 1, 'REG', `g${gameIndex}`, offense, defense, playType, epa.toFixed(2), epa > 0 ? 1 : 0,
+        epa > 0.2 ? 25 : 4, index >= 8 ? 15 : 60, 0, touchdown, 1,
+      ].join(',')
+    }))
+    const files: Record<string, string> = {
+      stats_team: [
+        'season,week,team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+        '2025,1,NE,REG,35,20,5,4,2',
+        '2025,1,SEA,REG,30,28,1,-8,-4',
+      ].join('\n'),
+      play_by_play: [
+        'season,week,season_type,game_id,posteam,defteam,play_type,epa,success,yards_gained,yardline_100,pass_touchdown,rush_touchdown,fixed_drive',
+        ...plays,
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const feed = await nflverseTeamStatsProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+
+    const scenario = resolveScenario({ game: scenarioGame(game), agentIds: ['epa'], snapshot, now })
+    const splits = Object.fromEntries(feed.observations
+      .filter(item => item.metric === 'team.efficiency_splits')
+      .map(item => [item.subject.id, item.value]))
+
+    expect(splits.NE).toMatchObject({
+      offense: { epa_rank: 1, epa_per_play: 0.325, red_zone_trips: 2, red_zone_td_rate: 1 },
+      defense: { epa_rank: 1, epa_per_play: -0.175, pass: { epa_rank: 1 }, run: { epa_rank: 1 } },
+      league_size: 4,
+    })
+    expect(splits.SEA).toMatchObject({ offense: { epa_rank: 4 }, defense: { epa_rank: 4, success_rate: 1 } })
+    expect(scenario.events[0].finding).toMatchObject({
+      state: 'material',
+      direction: 'away',
+      headline: 'NE has the clearer efficiency path',
+    })
+    expect(scenario.events[0].finding.signals.map(signal => signal.value ?? signal.away_value)).toEqual([
+      '#1 of 4 offense vs #4 of 4 defense (opponent-adjusted EPA/play)',
+      '#4 of 4 offense vs #1 of 4 defense (opponent-adjusted EPA/play)',
+      'NE passing: #1 of 4 offense into #4 of 4 defense',
+      '100% vs 100% allowed',
+    ])
+  })
+
+  it('regresses a two-game sample toward last season and holds it at contextual', async () => {
+    const game = loadSchedule({ season: 2026, week: 3 }).games[0]
+    const header = 'season,week,team,season_type,games,attempts,carries,sacks_suffered,passing_epa,rushing_epa,passing_interceptions,fumbles_lost_total,def_interceptions,fumble_recovery_opp'
+    const files: Record<string, string> = {
+      stats_team_week_2026: [
+        header,
+        '2026,1,ATL,REG,1,30,25,2,3,1,0,0,2,1',
+        '2026,2,ATL,REG,1,30,25,2,3,1,0,0,2,1',
+        '2026,1,GB,REG,1,30,25,2,-3,-1,2,1,0,0',
+        '2026,2,GB,REG,1,30,25,2,-3,-1,2,1,0,0',
+      ].join('\n'),
+      stats_team_week_2025: [
+        header,
+        '2025,18,ATL,REG,17,510,425,34,0,0,20,14,10,7',
+        '2025,18,GB,REG,17,510,425,34,0,0,10,7,20,14',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-22T12:00:00.000Z')
+    const feed = await nflverseTeamStatsProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+
+    const scenario = resolveScenario({ game: scenarioGame(game), agentIds: ['turnovers'], snapshot, now })
+    const profile = feed.observations.find(item => item.metric === 'team.turnover_profile' && item.subject.id === 'ATL')
+
+    expect(profile?.value).toMatchObject({
+      giveaways_per_game: 1.333,
+      takeaways_per_game: 1.667,
+      sample_games: 2,
+      reliability_weight: 0.333,
+      regression: { target: 'prior_season', prior_season: 2025, prior_games_equivalent: 4 },
+      luck: { actual_giveaways_per_game: 0, actual_takeaways_per_game: 3 },
+    })
+    expect(scenario.events[0].finding.signals[0]).toMatchObject({
+      label: 'Expected giveaways / game',
+      away_value: '0 (actual 0)',
+    })
+    expect(scenario.events[0]).toMatchObject({
+      evidence_state: 'observed_context',
+      suggested_anchor_ids: [],
+      finding: { state: 'contextual', direction: 'away' },
+    })
+    expect(scenario.events[0].finding.caveats[0]).toBe(
+      'Held at contextual: ATL rests on 2 games (reliability 0.333) and GB rests on 2 games (reliability 0.333), below the 0.5 reliability floor.',
+    )
+  })
+
+  it('regresses the in-season efficiency splits toward last season', async () => {
+    const game = loadSchedule({ season: 2026, week: 3 }).games[0]
+    const header = 'season,week,season_type,game_id,posteam,defteam,play_type,epa,success,yards_gained,yardline_100,pass_touchdown,rush_touchdown,fixed_drive'
+    const plays = (season: number, week: number, gameId: string, atlEpa: number, gbEpa: number) => [
+      `${season},${week},REG,${gameId},ATL,GB,pass,${atlEpa},1,8,60,0,0,1`,
+      `${season},${week},REG,${gameId},GB,ATL,pass,${gbEpa},0,3,60,0,0,2`,
+    ]
+    const files: Record<string, string> = {
+      stats_team_week_2026: [
+        'season,week,team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+        '2026,1,ATL,REG,30,25,2,3,1',
+        '2026,2,ATL,REG,30,25,2,3,1',
+        '2026,1,GB,REG,30,25,2,-3,-1',
+        '2026,2,GB,REG,30,25,2,-3,-1',
+      ].join('\n'),
+      play_by_play_2026: [header, ...plays(2026, 1, 'g1', 0.5, -0.1), ...plays(2026, 2, 'g2', 0.5, -0.1)].join('\n'),
+      play_by_play_2025: [header, ...plays(2025, 1, 'p1', 0.1, 0.1)].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return name ? new Response(files[name], { status: 200 }) : new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-22T12:00:00.000Z')
+    const feed = await nflverseTeamStatsProvider.collect(providerContext(game, now, fetcher))
+    const splits = feed.observations.find(item => item.metric === 'team.efficiency_splits' && item.subject.id === 'ATL')
+
+    expect(splits?.value).toMatchObject({
+      offense: { epa_per_play: 0.2333, pass: { epa_per_play: 0.2333 } },
+      sample_games: 2,
+      reliability_weight: 0.333,
+      regression: { target: 'prior_season', prior_season: 2025, prior_games_equivalent: 4 },
+    })
+  })
+
+  it('holds a thin in-season pace sample at contextual and keeps its caveat', async () => {
+    const game = loadSchedule({ season: 2026, week: 3 }).games[0]
+    const header = 'season,week,season_type,game_id,posteam,play_type,fixed_drive,game_seconds_remaining,half_seconds_remaining,qtr,wp,no_huddle,down,pass'
+    const drive = (week: number, team: string, seconds: number, passes: number[]) => passes.map((pass, index) => (
+      `2026,${week},REG,2026_0${week}_${team},${team},${pass ? 'pass' : 'run'},1,${3000 - index * seconds},${1200 - index * seconds},2,0.5,0,1,${pass}`
+    ))
+    const csv = [
+      header,
+      ...[1, 2].flatMap(week => [
+        ...drive(week, 'ATL', 15, [1, 1, 1, 0]),
+        ...drive(week, 'GB', 20, [1, 1, 0, 0]),
+        ...drive(week, 'KC', 35, [0, 0, 0, 1]),
+      ]),
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+    const now = new Date('2026-09-22T12:00:00.000Z')
+    const feed = await nflversePaceProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({ game: scenarioGame(game), agentIds: ['pace'], snapshot, now })
+
+    expect(scenario.events[0]).toMatchObject({
+      evidence_state: 'observed_context',
+      suggested_anchor_ids: [],
+      finding: { state: 'contextual' },
+    })
+    expect(scenario.events[0].finding.caveats).toEqual([
+      'Held at contextual: ATL rests on 2 games (reliability 0.333) and GB rests on 2 games (reliability 0.333), below the 0.5 reliability floor.',
+      'Neutral tempo excludes lopsided win probability and end-of-half snaps; early scoring can still change both teams\' tendencies.',
+    ])
+  })
+
+  it('suggests volume anchors only when both offenses play fast', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const header = 'season,week,season_type,game_id,posteam,play_type,fixed_drive,game_seconds_remaining,half_seconds_remaining,qtr,wp,no_huddle,down,pass'
+    const drive = (team: string, seconds: number, passes: number[]) => passes.map((pass, index) => (
+      `2025,1,REG,2025_01_${team},${team},${pass ? 'pass' : 'run'},1,${3000 - index * seconds},${1200 - index * seconds},2,0.5,0,1,${pass}`
+    ))
+    const csv = [
+      header,
+      ...drive('NE', 15, [1, 1, 1, 0]),
+      ...drive('SEA', 20, [1, 1, 0, 0]),
+      ...drive('KC', 35, [0, 0, 0, 1]),
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const feed = await nflversePaceProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['pace'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(finding.state).toBe('material')
+    expect(finding.direction).toBe('none')
+    expect(finding.signals.find(signal => signal.label === 'Neutral seconds / snap')).toMatchObject({
+      away_value: '15.0 s',
+      home_value: '20.0 s',
+    })
+    expect(scenario.suggested_anchor_ids).toEqual(['game_over', 'shootout'])
+  })
+
+  it('derives Pressure anchors from the two-sided rush and protection cross-match', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const files: Record<string, string> = {
+      advstats_week_pass: 'season,week,game_type,team,times_pressured\n2025,1,REG,NE,3\n2025,1,REG,SEA,1',
+      advstats_week_def: 'season,week,game_type,team,def_pressures\n2025,1,REG,NE,1\n2025,1,REG,SEA,3',
+      ngs_2025_passing: 'season,season_type,week,team_abbr,attempts,avg_time_to_throw\n2025,REG,1,NE,30,3.0\n2025,REG,1,SEA,30,2.6',
+      play_by_play: [
+        'season,week,season_type,game_id,posteam,defteam,qb_dropback,qb_hit,sack,epa',
+        ...[-2, -1, 0.4, 0.2].map((epa, index) => `2025,1,REG,g1,NE,SEA,1,${index < 2 ? 1 : 0},0,${epa}`),
+        ...[0.5, 0.1, 0.3, 0.2].map((epa, index) => `2025,1,REG,g1,SEA,NE,1,${index < 1 ? 1 : 0},0,${epa}`),
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const feed = await nflversePressureProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['pressure'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(finding.state).toBe('material')
+    expect(finding.direction).toBe('home')
+    expect(finding.signals.map(signal => signal.label)).toEqual([
+      'Pressure rate generated',
+      'Pressure rate allowed',
+      'Time to throw',
+      'QB EPA under pressure',
+    ])
+    expect(finding.caveats.join(' ')).toContain('proxy')
+    expect(scenario.suggested_anchor_ids).toEqual(['home_win'])
+  })
+
+  it('flags a projected quarterback change as a material finding', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const dropbacks = (params: {
+      team: string
+      opponent: string
+      passerId: string
+      passer: string
+      count: number
+      epa: number
+    }) => Array.from({ length: params.count }, (_, index) => [
+      2025, 1, 'REG', `2025_01_${params.team}`, params.team, params.opponent, 1, params.passerId, params.passer,
+      params.epa, index % 10 === 0 ? 0 : 1, index % 10 === 0 ? 1 : 0, index % 25 === 1 ? 1 : 0, 0, 2.5,
+    ].join(','))
+    const files: Record<string, string> = {
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,NE,1,REG,1,Starter A,00-A,QB',
+        '2026,NE,1,REG,2,Backup B,00-B,QB',
+        '2026,SEA,1,REG,1,Starter S,00-S,QB',
+      ].join('\n'),
+      injuries: 'season,team,week,gsis_id,full_name,report_status\n2026,NE,1,00-A,Starter A,Out',
+      play_by_play: [
+        'season,week,season_type,game_id,posteam,defteam,qb_dropback,passer_id,passer,epa,pass_attempt,sack,interception,qb_scramble,cpoe',
+        ...dropbacks({ team: 'NE', opponent: 'SEA', passerId: '00-A', passer: 'Starter A', count: 200, epa: 0.2 }),
+        ...dropbacks({ team: 'NE', opponent: 'SEA', passerId: '00-B', passer: 'Backup B', count: 60, epa: -0.3 }),
+        ...dropbacks({ team: 'SEA', opponent: 'NE', passerId: '00-S', passer: 'Starter S', count: 200, epa: 0.1 }),
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-08-15T12:00:00.000Z')
+    const feed = await nflverseQuarterbackProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['qb'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(finding.state).toBe('material')
+    expect(finding.headline).toContain('quarterback change')
+    expect(finding.signals.find(signal => signal.label === 'Projected starter')).toMatchObject({
+      away_value: 'Backup B (change)',
+      home_value: 'Starter S',
+    })
+    expect(finding.caveats.join(' ')).toContain('Backup B has fewer than 150 dropbacks')
+  })
+
+  it('grades the same sustained wind by how it crosses the field axis', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const weatherFinding = async (windDirection: string) => {
+      const fetcher = vi.fn(async (input: string | URL | Request) => {
+        if (String(input).includes('/points/')) {
+          return new Response(JSON.stringify({
+            properties: { forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly' },
+          }), { status: 200 })
+        }
+        return new Response(JSON.stringify({
+          properties: {
+            updated: '2026-09-09T11:00:00.000Z',
+            periods: [{
+              number: 1,
+              startTime: '2026-09-10T00:00:00.000Z',
+              endTime: '2026-09-10T01:00:00.000Z',
+              temperature: 61,
+              temperatureUnit: 'F',
+              probabilityOfPrecipitation: { value: 10 },
+              windSpeed: '14 mph',
+              windDirection,
+              shortForecast: 'Partly Cloudy',
+            }],
+          },
+        }), { status: 200 })
+      }) as unknown as typeof fetch
+      const feed = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+      const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+      return resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now })
+    }
+
+    const crosswind = await weatherFinding('W')
+    const alongAxis = await weatherFinding('S')
+
+    expect(crosswind.events[0].finding).toMatchObject({
+      state: 'material',
+      headline: 'Kickoff weather can narrow the available playbook',
+    })
+    expect(crosswind.events[0].finding.signals.find(signal => signal.label === 'Field-axis wind')?.value)
+      .toBe('13.9 mph crosswind, 1.2 mph along the axis')
+    expect(alongAxis.events[0].finding).toMatchObject({
+      state: 'contextual',
+      headline: 'Kickoff weather is a moderate constraint',
+    })
+    expect(alongAxis.events[0].suggested_anchor_ids).toEqual([])
+  })
+
+  it('makes weather material when an NWS alert covers the kickoff window', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const alert = (id: string, event: string, onset: string, ends: string) => ({
+      properties: {
+        id,
+        event,
+        headline: `${event} issued September 9 by NWS Seattle WA`,
+        severity: 'Moderate',
+        sent: '2026-09-09T10:00:00.000Z',
+        effective: '2026-09-09T10:00:00.000Z',
+        onset,
+        expires: ends,
+        ends,
+      },
+    })
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input)
+      if (url.includes('/points/')) {
+        return new Response(JSON.stringify({
+          properties: { forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly' },
+        }), { status: 200 })
+      }
+      if (url.includes('/alerts/active')) {
+        return new Response(JSON.stringify({
+          features: [
+            alert('urn:wind', 'Wind Advisory', '2026-09-09T22:00:00.000Z', '2026-09-10T03:00:00.000Z'),
+            alert('urn:heat', 'Heat Advisory', '2026-09-09T16:00:00.000Z', '2026-09-09T20:00:00.000Z'),
+            alert('urn:marine', 'Small Craft Advisory', '2026-09-09T16:00:00.000Z', '2026-09-10T06:00:00.000Z'),
+          ],
+        }), { status: 200 })
+      }
+      return new Response(JSON.stringify({
+        properties: {
+          updated: '2026-09-09T11:00:00.000Z',
+          periods: [{
+            number: 1,
+            startTime: '2026-09-10T00:00:00.000Z',
+            endTime: '2026-09-10T01:00:00.000Z',
+            temperature: 64,
+            temperatureUnit: 'F',
+            probabilityOfPrecipitation: { value: 10 },
+            windSpeed: '6 mph',
+            windDirection: 'S',
+            shortForecast: 'Mostly Sunny',
+          }],
+        },
+      }), { status: 200 })
+    }) as unknown as typeof fetch
+    const feed = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+    const alerts = feed.observations.filter(item => item.metric === 'weather.active_alert')
+
+    expect(alerts.map(item => [item.kind, item.value])).toEqual([
+      ['report', expect.objectContaining({ category: 'high_wind', overlaps_kickoff: true })],
+      ['report', expect.objectContaining({ category: 'heat', overlaps_kickoff: false })],
+    ])
+    expect(alerts[0]).toMatchObject({
+      effective_at: '2026-09-09T22:00:00.000Z',
+      expires_at: '2026-09-10T03:00:00.000Z',
+      source: { feed: 'active-alerts', quality: 'official' },
+    })
+
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const finding = resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now }).events[0].finding
+    expect(finding).toMatchObject({
+      state: 'material',
+      headline: 'NWS Wind Advisory is in force for kickoff',
+    })
+    expect(finding.signals[0]).toMatchObject({
+      label: 'Active alert',
+      value: 'Wind Advisory issued September 9 by NWS Seattle WA',
+      observation_ids: [alerts[0].observation_id],
+    })
+  })
+
+  it('records measured game-window weather and scores the last forecast against it', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const now = new Date('2026-09-10T06:00:00.000Z')
+    const reading = (timestamp: string, windKmh: number, precipitationMm: number | null, text: string) => ({
+      properties: {
+        timestamp,
+        textDescription: text,
+        temperature: { unitCode: 'wmoUnit:degC', value: 10 },
+        windSpeed: { unitCode: 'wmoUnit:km_h-1', value: windKmh },
+        windGust: { unitCode: 'wmoUnit:km_h-1', value: windKmh === 36 ? 56 : null },
+        windDirection: { unitCode: 'wmoUnit:degree_(angle)', value: 270 },
+        precipitationLastHour: { unitCode: 'wmoUnit:mm', value: precipitationMm },
+      },
+    })
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input)
+      if (url.includes('/points/')) {
+        return new Response(JSON.stringify({
+          properties: {
+            forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly',
+            observationStations: 'https://api.weather.gov/gridpoints/SEW/1,1/stations',
+          },
+        }), { status: 200 })
+      }
+      if (url.endsWith('/stations')) {
+        return new Response(JSON.stringify({
+          features: [{ properties: { stationIdentifier: 'KBFI', name: 'Seattle, Boeing Field' } }],
+        }), { status: 200 })
+      }
+      if (url.includes('/stations/KBFI/observations')) {
+        return new Response(JSON.stringify({
+          features: [
+            reading('2026-09-10T00:53:00+00:00', 32.4, 2.54, 'Light Rain'),
+            reading('2026-09-10T01:53:00+00:00', 28.8, null, 'Light Rain'),
+            reading('2026-09-10T02:53:00+00:00', 36, 0, 'Light Rain'),
+            reading('2026-09-10T03:53:00+00:00', 25.2, 0, 'Cloudy'),
+          ],
+        }), { status: 200 })
+      }
+      return new Response('', { status: 404 })
+    }) as unknown as typeof fetch
+    const collected = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+    const forecast = createObservation({
+      gameId: game.game_id,
+      agentId: 'weather',
+      kind: 'forecast',
+      subject: { type: 'venue', id: 'Lumen Field', label: 'Lumen Field' },
+      metric: 'weather.kickoff_forecast',
+      value: { wind_mph: 12, wind_gust_mph: 20, crosswind_mph: 11, temperature_f: 55, precipitation_probability: 40 },
+      source: {
+        provider: 'nws',
+        feed: 'hourly-forecast',
+        quality: 'official',
+        source_url: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly',
+      },
+      observedAt: '2026-09-09T18:00:00.000Z',
+      effectiveAt: '2026-09-10T00:00:00.000Z',
+      importedAt: '2026-09-09T18:00:00.000Z',
+      rawImportId: 'raw_test',
+    })
+    const feed = attachForecastErrors({ feed: collected, history: [forecast], now })
+    const actual = feed.observations.find(item => item.metric === 'weather.actual_conditions')!
+    const error = feed.observations.find(item => item.metric === 'weather.forecast_error')!
+
+    expect(actual).toMatchObject({ kind: 'measurement', effective_at: game.kickoff, source: { feed: 'station-observations' } })
+    expect(actual.expires_at).toBeUndefined()
+    expect(actual.value).toMatchObject({
+      station_id: 'KBFI',
+      readings: 4,
+      wind_mph: 19,
+      wind_bearing_degrees: 270,
+      wind_gust_mph: 35,
+      crosswind_mph: 18.9,
+      along_axis_mph: 1.7,
+      temperature_f: 50,
+      precipitation_in: 0.1,
+      precipitation_observed: true,
+      summary: 'Light Rain',
+    })
+    expect(error.value).toMatchObject({
+      forecast_observation_id: forecast.observation_id,
+      lead_hours: 6.3,
+      wind_error_mph: 7,
+      gust_error_mph: 15,
+      crosswind_error_mph: 7.9,
+      temperature_error_f: -5,
+      precipitation_brier: 0.36,
+    })
+
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const finding = resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now }).events[0].finding
+    expect(finding).toMatchObject({
+      state: 'material',
+      headline: 'Recorded game weather can narrow the available playbook',
+    })
+    expect(finding.signals[0]).toMatchObject({
+      label: 'Recorded conditions',
+      value: '19 mph wind, 0.1 in precipitation, Light Rain',
+    })
+  })
+
+  it('settles a finished retractable-roof game by its roof status instead of the station readings', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.venue === 'NRG Stadium')!
+    const now = new Date('2026-09-14T06:00:00.000Z')
+    const directory = mkdtempSync(path.join(tmpdir(), 'roof-status-'))
+    writeFileSync(path.join(directory, '2026.json'), JSON.stringify({
+      schema_version: 1,
+      season: 2026,
+      entries: [{
+        game_id: game.game_id,
+        status: 'closed',
+        announced_at: '2026-09-12T10:00:00.000Z',
+        source: 'Club announcement',
+        source_url: 'https://www.houstontexans.com/news/roof-status',
+      }],
+    }))
+    const previous = process.env.SWANTAIL_ROOF_STATUS_DIR
+    process.env.SWANTAIL_ROOF_STATUS_DIR = directory
+    const fetcher = vi.fn() as unknown as typeof fetch
+    try {
+      const feed = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+      const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+      const closed = resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now }).events[0]
+
+      expect(fetcher).not.toHaveBeenCalled()
+      expect(feed.observations.map(item => item.metric)).toEqual(['venue.roof_status'])
+      expect(feed.observations[0].expires_at).toBeUndefined()
+      expect(closed).toMatchObject({
+        evidence_state: 'observed_conflict',
+        finding: { state: 'balanced', headline: 'Roof closed; exterior weather was not a factor', caveats: [] },
+      })
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ROOF_STATUS_DIR
+      else process.env.SWANTAIL_ROOF_STATUS_DIR = previous
+    }
+
+    const readings = createObservation({
+      gameId: game.game_id,
+      agentId: 'weather',
+      kind: 'measurement',
+      subject: { type: 'venue', id: 'NRG Stadium', label: 'NRG Stadium' },
+      metric: 'weather.actual_conditions',
+      value: { station_id: 'KHOU', wind_mph: 24, precipitation_in: 0.4, summary: 'Rain', roof: 'retractable' },
+      source: {
+        provider: 'nws',
+        feed: 'station-observations',
+        quality: 'official',
+        source_url: 'https://api.weather.gov/stations/KHOU/observations',
+      },
+      observedAt: '2026-09-13T20:53:00.000Z',
+      effectiveAt: game.kickoff,
+      importedAt: now.toISOString(),
+      rawImportId: 'raw_test',
+    })
+    const unannounced = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['weather'],
+      snapshot: snapshotFromFeed({
+        game,
+        feed: {
+          provider: 'nws',
+          feed: 'station-observations',
+          state: 'available',
+          checked_at: now.toISOString(),
+          raw_imports: [],
+          observations: [readings],
+          game_states: {},
+        },
+        capturedAt: now.toISOString(),
+      }),
+      now,
+    }).events[0].finding
+
+    expect(unannounced.state).toBe('material')
+    expect(unannounced.headline).not.toContain('Roof decision pending')
+    expect(unannounced.caveats.join(' ')).not.toContain('No roof decision')
+  })
+
+  it('tracks a strengthening forecast across successive pulls', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const pull = async (now: Date, windSpeed: string) => {
+      const fetcher = vi.fn(async (input: string | URL | Request) => {
+        if (String(input).includes('/points/')) {
+          return new Response(JSON.stringify({
+            properties: { forecastHourly: 'https://api.weather.gov/gridpoints/SEW/1,1/forecast/hourly' },
+          }), { status: 200 })
+        }
+        return new Response(JSON.stringify({
+          properties: {
+            updated: new Date(now.getTime() - 60 * 60 * 1000).toISOString(),
+            periods: [{
+              number: 1,
+              startTime: '2026-09-10T00:00:00.000Z',
+              endTime: '2026-09-10T01:00:00.000Z',
+              temperature: 55,
+              temperatureUnit: 'F',
+              probabilityOfPrecipitation: { value: 20 },
+              windSpeed,
+              windDirection: 'W',
+              shortForecast: 'Breezy',
+            }],
+          },
+        }), { status: 200 })
+      }) as unknown as typeof fetch
+      return nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+    }
+    const first = await pull(new Date('2026-09-07T12:00:00.000Z'), '8 mph')
+    const second = await pull(new Date('2026-09-08T12:00:00.000Z'), '15 mph')
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const feed = attachForecastTrajectories({
+      feed: await pull(now, '22 mph'),
+      history: [...first.observations, ...second.observations],
+      now,
+    })
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+
+    const result = resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now })
+
+    expect(feed.game_states[game.game_id].observation_count).toBe(2)
+    expect(feed.observations.find(item => item.metric === 'weather.forecast_trajectory')?.value).toMatchObject({
+      pulls: 3,
+      trend: 'strengthening',
+      wind_change_mph: 14,
+      max_wind_revision_mph: 7,
+      large_revision: false,
+    })
+    expect(result.events[0].finding.signals.find(signal => signal.label === 'Forecast trend')?.value)
+      .toBe('strengthening, wind 8 → 22 mph across 3 pulls')
+    expect(result.events[0].finding.caveats).toEqual(['Forecast conditions can change before kickoff.'])
+  })
+
+  it('holds retractable-roof weather at contextual until the roof is announced open', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.venue === 'NRG Stadium')!
+    const now = new Date('2026-09-12T12:00:00.000Z')
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      if (String(input).includes('/points/')) {
+        return new Response(JSON.stringify({
+          properties: { forecastHourly: 'https://api.weather.gov/gridpoints/HGX/1,1/forecast/hourly' },
+        }), { status: 200 })
+      }
+      return new Response(JSON.stringify({
+        properties: {
+          updated: '2026-09-12T11:00:00.000Z',
+          periods: [{
+            number: 1,
+            startTime: '2026-09-13T17:00:00.000Z',
+            endTime: '2026-09-13T18:00:00.000Z',
+            temperature: 84,
+            temperatureUnit: 'F',
+            probabilityOfPrecipitation: { value: 70 },
+            windSpeed: '10 mph',
+            windDirection: 'SE',
+            shortForecast: 'Thunderstorms',
+          }],
+        },
+      }), { status: 200 })
+    }) as unknown as typeof fetch
+    const weatherFinding = async () => {
+      const feed = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+      const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+      return resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now })
+    }
+    const directory = mkdtempSync(path.join(tmpdir(), 'roof-status-'))
+    writeFileSync(path.join(directory, '2026.json'), JSON.stringify({ schema_version: 1, season: 2026, entries: [] }))
+    const previous = process.env.SWANTAIL_ROOF_STATUS_DIR
+    process.env.SWANTAIL_ROOF_STATUS_DIR = directory
+    try {
+      const pending = await weatherFinding()
+      writeFileSync(path.join(directory, '2026.json'), JSON.stringify({
+        schema_version: 1,
+        season: 2026,
+        entries: [{
+          game_id: game.game_id,
+          status: 'open',
+          announced_at: '2026-09-12T10:00:00.000Z',
+          source: 'Club announcement',
+          source_url: 'https://www.houstontexans.com/news/roof-status',
+        }],
+      }))
+      const open = await weatherFinding()
+
+      expect(pending.events[0]).toMatchObject({
+        evidence_state: 'observed_context',
+        suggested_anchor_ids: [],
+        finding: { state: 'contextual', headline: 'Roof decision pending; exterior weather could matter' },
+      })
+      expect(open.events[0]).toMatchObject({
+        evidence_state: 'observed_support',
+        suggested_anchor_ids: ['game_under', 'grind', 'run_heavy'],
+        finding: { state: 'material', headline: 'Roof open; kickoff weather can narrow the available playbook' },
+      })
+      expect(open.events[0].finding.signals.find(signal => signal.label === 'Roof')?.value)
+        .toBe('open (announced 2026-09-12T10:00:00.000Z)')
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ROOF_STATUS_DIR
+      else process.env.SWANTAIL_ROOF_STATUS_DIR = previous
+    }
+  })
+
+  it('keeps the roof and alert context when the weather signals reach the cap', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.venue === 'NRG Stadium')!
+    const now = new Date('2026-09-12T12:00:00.000Z')
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input)
+      if (url.includes('/points/')) {
+        return new Response(JSON.stringify({
+          properties: { forecastHourly: 'https://api.weather.gov/gridpoints/HGX/1,1/forecast/hourly' },
+        }), { status: 200 })
+      }
+      if (url.includes('/alerts/active')) {
+        return new Response(JSON.stringify({
+          features: [{
+            properties: {
+              id: 'urn:storm',
+              event: 'Severe Thunderstorm Warning',
+              headline: 'Severe Thunderstorm Warning issued September 12 by NWS Houston TX',
+              severity: 'Severe',
+              sent: '2026-09-12T10:00:00.000Z',
+              effective: '2026-09-12T10:00:00.000Z',
+              onset: '2026-09-13T16:00:00.000Z',
+              expires: '2026-09-13T21:00:00.000Z',
+              ends: '2026-09-13T21:00:00.000Z',
+            },
+          }],
+        }), { status: 200 })
+      }
+      return new Response(JSON.stringify({
+        properties: {
+          updated: '2026-09-12T11:00:00.000Z',
+          periods: [{
+            number: 1,
+            startTime: '2026-09-13T17:00:00.000Z',
+            endTime: '2026-09-13T18:00:00.000Z',
+            temperature: 84,
+            temperatureUnit: 'F',
+            probabilityOfPrecipitation: { value: 70 },
+            windSpeed: '10 mph',
+            windDirection: 'SE',
+            shortForecast: 'Thunderstorms',
+          }],
+        },
+      }), { status: 200 })
+    }) as unknown as typeof fetch
+    const directory = mkdtempSync(path.join(tmpdir(), 'roof-status-'))
+    writeFileSync(path.join(directory, '2026.json'), JSON.stringify({
+      schema_version: 1,
+      season: 2026,
+      entries: [{
+        game_id: game.game_id,
+        status: 'open',
+        announced_at: '2026-09-12T10:00:00.000Z',
+        source: 'Club announcement',
+        source_url: 'https://www.houstontexans.com/news/roof-status',
+      }],
+    }))
+    const previous = process.env.SWANTAIL_ROOF_STATUS_DIR
+    process.env.SWANTAIL_ROOF_STATUS_DIR = directory
+    try {
+      const feed = await nwsWeatherProvider.collect(providerContext(game, now, fetcher))
+      const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+      const finding = resolveScenario({ game: scenarioGame(game), agentIds: ['weather'], snapshot, now }).events[0].finding
+
+      expect(finding.signals.map(signal => signal.label)).toEqual([
+        'Active alert',
+        'Kickoff forecast',
+        'Roof',
+        'Field-axis wind',
+      ])
+      expect(finding.caveats).toEqual([
+        'Forecast conditions can change, and NWS can extend, upgrade, or cancel an alert, before kickoff.',
+      ])
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ROOF_STATUS_DIR
+      else process.env.SWANTAIL_ROOF_STATUS_DIR = previous
+    }
+  })
+
+  it('separates a lost function from a designated starter with a capable backup', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const files: Record<string, string> = {
+      injuries: [
+        'season,team,week,gsis_id,position,full_name,report_status,practice_status',
+        '2026,NE,1,00-LT,T,Tackle Starter,Out,Did Not Participate In Practice',
+        '2026,SEA,1,00-CB,CB,Corner Starter,Out,Did Not Participate In Practice',
+      ].join('\n'),
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,NE,1,REG,1,Tackle Starter,00-LT,LT',
+        '2026,NE,1,REG,2,Tackle Reserve,00-LT2,LT',
+        '2026,SEA,1,REG,1,Corner Starter,00-CB,CB',
+        '2026,SEA,1,REG,2,Corner Reserve,00-CB2,CB',
+      ].join('\n'),
+      snap_counts: [
+        'season,week,game_type,player,team,offense_snaps,offense_pct,defense_snaps,defense_pct,st_snaps,st_pct',
+        '2025,1,REG,Tackle Starter,NE,60,1,0,0,0,0',
+        '2025,1,REG,Tackle Reserve,NE,6,0.1,0,0,10,0.4',
+        '2025,1,REG,Corner Starter,SEA,0,0,60,0.95,0,0',
+        '2025,1,REG,Corner Reserve Jr.,SEA,0,0,45,0.7,5,0.2',
+      ].join('\n'),
+      stats_player: [
+        'season,week,season_type,player_id,def_sacks,def_qb_hits,def_tackles_for_loss,def_pass_defended,def_interceptions,def_fumbles_forced',
+        '2025,1,REG,00-CB,0,0,0,2,0,0',
+        '2025,1,REG,00-CB2,0,0,0,1,1,0',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const feed = await nflverseInjuryProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['injury'],
+      snapshot,
+      now,
+    })
+    const event = scenario.events[0]
+
+    expect(event.finding).toMatchObject({
+      state: 'material',
+      direction: 'home',
+      headline: 'NE loses function at LT',
+    })
+    expect(event.finding.signals.map(signal => signal.value)).toEqual([
+      '2 attached',
+      'Tackle Starter (Out) → Tackle Reserve, 10% prior snaps, function lost',
+      'Corner Starter (Out) → Corner Reserve, 70% prior snaps, capable backup',
+    ])
+    expect(event.suggested_anchor_ids).toEqual(['home_win'])
+  })
+
+  it('rates a classic-chart receiver alignment against offensive snaps', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const files: Record<string, string> = {
+      injuries: [
+        'season,team,week,gsis_id,position,full_name,report_status,practice_status',
+        '2026,NE,1,00-WR,WR,Receiver Starter,Out,Did Not Participate In Practice',
+      ].join('\n'),
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,NE,1,REG,1,Receiver Starter,00-WR,LWR',
+        '2026,NE,1,REG,2,Receiver Reserve,00-WR2,LWR',
+      ].join('\n'),
+      snap_counts: [
+        'season,week,game_type,player,team,offense_snaps,offense_pct,defense_snaps,defense_pct,st_snaps,st_pct',
+        '2025,1,REG,Receiver Starter,NE,58,0.92,0,0,0,0',
+        '2025,1,REG,Receiver Reserve,NE,50,0.8,0,0,4,0.15',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const feed = await nflverseInjuryProvider.collect(providerContext(game, now, fetcher))
+    const profile = feed.observations.find(observation => observation.metric === 'player.replacement_profile')
+
+    expect(profile?.value).toMatchObject({
+      role: 'LWR',
+      replacement: { name: 'Receiver Reserve', snap_share: 0.8 },
+    })
+  })
+
+  it('keeps a material designation when no depth chart is published', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const injuries = [
+      'season,team,week,gsis_id,position,full_name,report_status,practice_status',
+      '2026,NE,1,00-LT,T,Tackle Starter,Out,Did Not Participate In Practice',
+    ].join('\n')
+    const fetcher = vi.fn(async (input: string | URL | Request) => (
+      String(input).includes('injuries_2026')
+        ? new Response(injuries, { status: 200 })
+        : new Response('', { status: 404 })
+    )) as unknown as typeof fetch
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const feed = await nflverseInjuryProvider.collect(providerContext(game, now, fetcher))
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['injury'],
+      snapshot: snapshotFromFeed({ game, feed, capturedAt: now.toISOString() }),
+      now,
+    })
+
+    expect(scenario.events[0].finding).toMatchObject({
+      state: 'material',
+      direction: 'none',
+      headline: 'Availability can redistribute meaningful roles',
+    })
+    expect(scenario.events[0].suggested_anchor_ids.length).toBeGreaterThan(0)
+  })
+
+  it('treats a late-week practice downgrade differently from a routine maintenance day', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.game_id === '2026-wk01-TB-at-CIN')!
+    const reportDays = [
+      { modified: '2026-09-09T20:30:00Z', tackle: ['', 'Full Participation in Practice'], receiver: ['', 'Did Not Participate In Practice'] },
+      { modified: '2026-09-10T20:30:00Z', tackle: ['', 'Full Participation in Practice'], receiver: ['', 'Full Participation in Practice'] },
+      { modified: '2026-09-11T20:30:00Z', tackle: ['Questionable', 'Limited Participation in Practice'], receiver: ['', 'Full Participation in Practice'] },
+    ]
+    const staticFiles: Record<string, string> = {
+      depth_charts: [
+        'season,club_code,week,game_type,depth_team,full_name,gsis_id,depth_position',
+        '2026,TB,1,REG,1,Tackle Starter,00-LT,LT',
+        '2026,TB,1,REG,2,Tackle Reserve,00-LT2,LT',
+      ].join('\n'),
+      snap_counts: [
+        'season,week,game_type,player,team,offense_snaps,offense_pct,defense_snaps,defense_pct,st_snaps,st_pct',
+        '2025,1,REG,Tackle Starter,TB,60,1,0,0,0,0',
+        '2025,1,REG,Tackle Reserve,TB,6,0.1,0,0,10,0.4',
+      ].join('\n'),
+    }
+    const feeds: IngestionFeedResult[] = []
+    for (const day of reportDays) {
+      const files: Record<string, string> = {
+        ...staticFiles,
+        injuries: [
+          'season,team,week,gsis_id,position,full_name,report_status,practice_status,practice_primary_injury,date_modified',
+          `2026,TB,1,00-LT,T,Tackle Starter,${day.tackle.join(',')},Ankle,${day.modified}`,
+          `2026,CIN,1,00-WR,WR,Receiver Veteran,${day.receiver.join(',')},Not injury related - resting,${day.modified}`,
+        ].join('\n'),
+      }
+      const fetcher = vi.fn(async (input: string | URL | Request) => {
+        const name = Object.keys(files).find(key => String(input).includes(key))
+        return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+      }) as unknown as typeof fetch
+      feeds.push(await nflverseInjuryProvider.collect(providerContext(game, new Date(day.modified), fetcher)))
+    }
+    const now = new Date(reportDays[2].modified)
+    const feed = attachPracticeTrajectories({
+      feed: feeds[2],
+      history: feeds.slice(0, 2).flatMap(item => item.observations),
+      now,
+    })
+    const trajectories = Object.fromEntries(feed.observations
+      .filter(item => item.metric === 'player.practice_trajectory')
+      .map(item => [item.subject.id, item.value]))
+
+    expect(feeds[0].observations.find(item => item.metric === 'player.practice_report')?.value).toMatchObject({
+      report_date: '2026-09-09',
+      report_day: 'Wed',
+      participation: 'full',
+    })
+    expect(trajectories['00-LT']).toMatchObject({
+      reports: 3,
+      trajectory: 'worsening',
+      pattern: 'late_downgrade',
+      days_before_kickoff: 2,
+      game_status: 'Questionable',
+    })
+    expect(trajectories['00-WR']).toMatchObject({
+      trajectory: 'improving',
+      pattern: 'routine_maintenance',
+      late_downgrade: false,
+    })
+
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const event = resolveScenario({ game: scenarioGame(game), agentIds: ['injury'], snapshot, now }).events[0]
+    expect(event.finding).toMatchObject({
+      state: 'material',
+      direction: 'home',
+      headline: 'TB loses function at LT',
+    })
+    expect(event.finding.signals.map(signal => signal.value)).toEqual([
+      '1 attached',
+      'Tackle Starter (Questionable, downgraded Fri) → Tackle Reserve, 10% prior snaps, function lost',
+      '1 late-week downgrade (Tackle Starter Fri), 1 routine maintenance day',
+    ])
+    expect(event.finding.detail).toContain('late-week practice downgrade')
+  })
+
+  it('weights each designation by how often past players with it actually played', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games.find(candidate => candidate.game_id === '2026-wk01-TB-at-CIN')!
+    const history = Array.from({ length: 10 }, (_, index) => index + 1).flatMap(week => [0, 1].flatMap(slot => {
+      const receiver = `Receiver ${String.fromCharCode(65 + week * 2 + slot)}`
+      const linebacker = `Linebacker ${String.fromCharCode(65 + week * 2 + slot)}`
+      return [
+        { report: `2025,TB,${week},REG,WR,${receiver},Questionable,Limited Participation in Practice`, player: receiver, played: week > 1 ? 0.8 : null },
+        { report: `2025,TB,${week},REG,LB,${linebacker},Doubtful,Did Not Participate In Practice`, player: linebacker, played: week <= 2 ? 0.4 : null },
+      ]
+    }))
+    const files: Record<string, string> = {
+      injuries_2025: [
+        'season,team,week,game_type,position,full_name,report_status,practice_status',
+        ...history.map(item => item.report),
+      ].join('\n'),
+      injuries_2026: [
+        'season,team,week,gsis_id,position,full_name,report_status,practice_status',
+        '2026,TB,1,00-WR,WR,Slot Receiver,Questionable,Limited Participation in Practice',
+        '2026,CIN,1,00-LB,LB,Linebacker Starter,Doubtful,Did Not Participate In Practice',
+      ].join('\n'),
+      snap_counts_2025: [
+        'season,week,game_type,player,team,offense_snaps,offense_pct,defense_snaps,defense_pct,st_snaps,st_pct',
+        ...Array.from({ length: 10 }, (_, index) => `2025,${index + 1},REG,Depth Filler,TB,0,0,0,0,10,0.3`),
+        ...history.flatMap(item => [
+          ...(item.played === null ? [] : [`2025,${item.report.split(',')[2]},REG,${item.player},TB,40,${item.played},0,0,0,0`]),
+          `2025,18,REG,${item.player},TB,50,0.8,0,0,0,0`,
+        ]),
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-11T20:30:00.000Z')
+    const feed = await nflverseInjuryProvider.collect(providerContext(game, now, fetcher))
+    const reports = Object.fromEntries(feed.observations
+      .filter(item => item.metric === 'player.availability_report')
+      .map(item => [item.subject.id, item.value]))
+
+    expect(reports['00-WR']).toMatchObject({
+      availability_reference: {
+        play_probability: 0.9,
+        relative_snap_share: 1,
+        expected_loss: 0.1,
+        samples: 20,
+        basis: 'designation_position_practice',
+      },
+    })
+    expect(reports['00-LB']).toMatchObject({
+      availability_reference: { play_probability: 0.2, relative_snap_share: 0.5, expected_loss: 0.9 },
+    })
+
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const event = resolveScenario({ game: scenarioGame(game), agentIds: ['injury'], snapshot, now }).events[0]
+    expect(event.finding.state).toBe('material')
+    expect(event.finding.signals.map(signal => signal.value)).toEqual([
+      '1 attached',
+      'Linebacker Starter (Doubtful): 20% play, 90% expected loss; Slot Receiver (Questionable): 90% play, 10% expected loss',
+    ])
+    expect(event.finding.detail).toContain('including Linebacker Starter')
+  })
+
+  it('adds up partial expected losses across one roster\'s starting roles', () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const now = new Date('2026-09-11T20:30:00.000Z')
+    const observation = (playerId: string, label: string, metric: string, value: Record<string, unknown>) => createObservation({
+      gameId: game.game_id,
+      agentId: 'injury',
+      kind: 'report',
+      subject: { type: 'player', id: playerId, label, team: game.away_team },
+      metric,
+      value,
+      source: {
+        provider: 'nflverse',
+        feed: metric === 'player.replacement_profile' ? 'depth-charts' : 'injuries',
+        quality: 'research',
+        source_url: 'https://github.com/nflverse/nflverse-data/releases',
+      },
+      observedAt: now.toISOString(),
+      effectiveAt: game.kickoff,
+      importedAt: now.toISOString(),
+      rawImportId: 'raw_test',
+    })
+    const starters = [['00-LT', 'Tackle Starter', 'LT'], ['00-RG', 'Guard Starter', 'RG']]
+    const observations = starters.flatMap(([playerId, label, role]) => [
+      observation(playerId, label, 'player.availability_report', {
+        report_status: 'Questionable',
+        availability_reference: { play_probability: 0.7, expected_loss: 0.3 },
+      }),
+      observation(playerId, label, 'player.replacement_profile', { role, report_status: 'Questionable', replacement: null }),
+    ])
+    const snapshot = snapshotFromFeed({
+      game,
+      feed: {
+        provider: 'nflverse',
+        feed: 'injuries',
+        state: 'available',
+        checked_at: now.toISOString(),
+        raw_imports: [],
+        observations,
+        game_states: {},
+      },
+      capturedAt: now.toISOString(),
+    })
+    const finding = resolveScenario({ game: scenarioGame(game), agentIds: ['injury'], snapshot, now }).events[0].finding
+
+    expect(finding).toMatchObject({
+      state: 'material',
+      direction: 'home',
+      headline: `${game.away_team} loses function at LT, RG`,
+    })
+    expect(finding.signals[1].value).toBe('Tackle Starter (Questionable, 30% expected loss) → no listed backup')
+  })
+
+  it('names the unit behind a durable opponent-adjusted momentum change', async () => {
+    const game = loadSchedule({ season: 2026, week: 12 }).games.find(candidate => (
+      candidate.away_team === 'NE' || candidate.home_team === 'NE'
+    ))!
+    const opponent = game.away_team === 'NE' ? game.home_team : game.away_team
+    const league = ['NE', opponent, ...['KC', 'BUF', 'DEN'].filter(team => team !== opponent).slice(0, 2)]
+    const pairings = [[[0, 1], [2, 3]], [[0, 2], [1, 3]], [[0, 3], [1, 2]]]
+    const rows = Array.from({ length: 10 }, (_, index) => index + 1).flatMap(week => (
+      pairings[week % 3].flatMap(([left, right]) => [[left, right], [right, left]].map(([team, other]) => {
+        const noise = (((week * 7 + team) % 5) - 2) * 0.01
+        const epaPerPlay = team === 0 ? (week > 6 ? 0.25 : -0.1) + noise : noise
+        return `2026,${week},${league[team]},${league[other]},REG,30,30,0,${(epaPerPlay * 60).toFixed(2)},0`
+      }))
+    ))
+    const csv = [
+      'season,week,team,opponent_team,season_type,attempts,carries,sacks_suffered,passing_epa,rushing_epa',
+      ...rows,
+    ].join('\n')
+    const fetcher = vi.fn(async () => new Response(csv, { status: 200 })) as unknown as typeof fetch
+    const now = new Date('2026-11-24T12:00:00.000Z')
+    const feed = await nflverseMomentumProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['momentum'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(finding.state).toBe('material')
+    expect(finding.direction).toBe(game.away_team === 'NE' ? 'away' : 'home')
+    expect(finding.headline).toBe("NE's offense shows a durable improvement")
+    expect(finding.signals.find(signal => signal.label === 'Games in sample')).toMatchObject({
+      away_value: '4 recent / 6 baseline',
+    })
+  })
+
   it('turns a real schedule gap into a directional Rest finding', async () => {
     const game = loadSchedule({ season: 2026, week: 2 }).games.find(candidate => (
       candidate.away_team === 'PIT' && candidate.home_team === 'NE'
     ))!
     const now = new Date('2026-09-16T12:00:00.000Z')
-    const feed = await scheduleRestProvider.collect(providerContext(game, now))
+    const fetcher = vi.fn(async () => new Response('', { status: 404 })) as unknown as typeof fetch
+    const feed = await scheduleRestProvider.collect(providerContext(game, now, fetcher))
     const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
     const scenario = resolveScenario({
       game: scenarioGame(game),
@@ -109,9 +1391,127 @@ describe('data-backed Game Agent findings', () => {
     expect(finding.direction).toBe('home')
     expect(finding.headline).toContain('NE')
     expect(finding.signals.find(signal => signal.label === 'Turnaround')).toMatchObject({
-      away_value: '7 days',
-      home_value: '10.7 days',
+      away_value: '7 days, standard',
+      home_value: '10.7 days, extended rest',
     })
     expect(scenario.suggested_anchor_ids).toEqual(['home_win'])
   })
+
+  it('separates a cross-country early kickoff from an even rest window', async () => {
+    const game = loadSchedule({ season: 2026, week: 3 }).games.find(candidate => (
+      candidate.away_team === 'SEA' && candidate.home_team === 'WAS'
+    ))!
+    const now = new Date('2026-09-23T12:00:00.000Z')
+    const fetcher = vi.fn(async () => new Response('', { status: 404 })) as unknown as typeof fetch
+    const feed = await scheduleRestProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['rest'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(finding).toMatchObject({
+      state: 'contextual',
+      direction: 'none',
+      headline: 'SEA plays on a shifted body clock',
+    })
+    expect(finding.signals.find(signal => signal.label === 'Travel from home')).toMatchObject({
+      away_value: '2330 mi',
+      home_value: '0 mi',
+    })
+    expect(finding.signals.find(signal => signal.label === 'Body clock')).toMatchObject({
+      away_value: '10:00 AM kickoff, 3 zones east',
+      home_value: '1:00 PM kickoff, same zone',
+    })
+    expect(scenario.suggested_anchor_ids).toEqual([])
+  })
+
+  it('weighs a short week after overtime above an ordinary short week', async () => {
+    const game = loadSchedule({ season: 2026, week: 2 }).games.find(candidate => (
+      candidate.away_team === 'JAX' && candidate.home_team === 'DEN'
+    ))!
+    const files: Record<string, string> = {
+      'games.csv': [
+        'season,game_type,week,away_team,home_team,overtime',
+        '2026,REG,1,CLE,JAX,0',
+        '2026,REG,1,DEN,KC,1',
+      ].join('\n'),
+      snap_counts: [
+        'season,game_type,week,player,team,offense_snaps,defense_snaps',
+        '2026,REG,1,Jaguars Tackle,JAX,64,0',
+        '2026,REG,1,Jaguars Safety,JAX,0,58',
+        '2026,REG,1,Broncos Guard,DEN,71,0',
+        '2026,REG,1,Broncos Corner,DEN,0,83',
+      ].join('\n'),
+    }
+    const fetcher = vi.fn(async (input: string | URL | Request) => {
+      const name = Object.keys(files).find(key => String(input).includes(key))
+      return new Response(name ? files[name] : '', { status: name ? 200 : 404 })
+    }) as unknown as typeof fetch
+    const now = new Date('2026-09-16T12:00:00.000Z')
+    const feed = await scheduleRestProvider.collect(providerContext(game, now, fetcher))
+    const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+    const scenario = resolveScenario({
+      game: scenarioGame(game),
+      agentIds: ['rest'],
+      snapshot,
+      now,
+    })
+    const finding = scenario.events[0].finding
+
+    expect(feed.observations.find(item => item.subject.id === 'DEN')!.value).toMatchObject({
+      schedule_spot: 'short_week',
+      previous_overtime: true,
+      previous_defensive_snaps: 83,
+      previous_offensive_plays: 71,
+      data_scope: 'schedule_and_workload',
+    })
+    expect(finding).toMatchObject({
+      state: 'material',
+      direction: 'away',
+      headline: 'DEN faces a short week after a heavy workload',
+      caveats: [],
+    })
+    expect(finding.signals.find(signal => signal.label === 'Prior-game load')).toMatchObject({
+      away_value: '58 def snaps / 64 off plays',
+      home_value: '83 def snaps / 71 off plays / OT',
+    })
+    expect(scenario.suggested_anchor_ids).toEqual(['away_win'])
+  })
+
+  it('stores market quotes in the snapshot without attaching them to any agent event', async () => {
+    const game = loadSchedule({ season: 2026, week: 1 }).games[0]
+    const now = new Date('2026-09-09T12:00:00.000Z')
+    const directory = mkdtempSync(path.join(tmpdir(), 'odds-'))
+    writeFileSync(path.join(directory, 'book-a.json'), JSON.stringify({
+      schema_version: 1,
+      quotes: [{
+        game_id: game.game_id,
+        book: 'Book A',
+        market: 'total',
+        side: 'under',
+        line: 41.5,
+        price: -110,
+        quoted_at: '2026-09-09T08:00:00.000Z',
+        source_url: 'https://sportsbook.example.com/nfl',
+      }],
+    }))
+    const previous = process.env.SWANTAIL_ODDS_DIR
+    process.env.SWANTAIL_ODDS_DIR = directory
+    try {
+      const feed = await localOddsProvider.collect(providerContext(game, now))
+      const snapshot = snapshotFromFeed({ game, feed, capturedAt: now.toISOString() })
+      const scenario = resolveScenario({ game: scenarioGame(game), agentIds: [...GAME_AGENT_IDS], snapshot, now })
+
+      expect(snapshot.observations.map(observation => observation.metric)).toEqual(['market.total'])
+      expect(snapshot.availability.market).toMatchObject({ state: 'available', observation_count: 1 })
+      expect(scenario.events.flatMap(event => event.observations)).toEqual([])
+    } finally {
+      if (previous === undefined) delete process.env.SWANTAIL_ODDS_DIR
+      else process.env.SWANTAIL_ODDS_DIR = previous
+    }
+  })
 })
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { BackfillRequestSchema } from '@/lib/data/contracts'
+import { BackfillRangeError, runHistoricalBackfill } from '@/lib/data/ingest'
+import { isDatabaseConfigured } from '@/lib/data/repository'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// Operator-triggered rather than scheduled; it shares the cron secret. A season of weeks can
+// outlast one request, so large ranges should be sent a few weeks at a time.
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({
+      status: 'skipped',
+      reason: 'CRON_SECRET is not configured',
+    })
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+  const parsed = BackfillRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Send a season with from_week and to_week, and optionally lead_minutes' },
+      { status: 400 },
+    )
+  }
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({
+      status: 'skipped',
+      reason: 'POSTGRES_URL or DATABASE_URL is not configured',
+    })
+  }
+
+  try {
+    const summaries = await runHistoricalBackfill({
+      season: parsed.data.season,
+      fromWeek: parsed.data.from_week,
+      toWeek: parsed.data.to_week,
+      leadMinutes: parsed.data.lead_minutes,
+    })
+    return NextResponse.json({ status: 'completed', summaries })
+  } catch (error) {
+    if (error instanceof BackfillRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Backfill failed',
+    }, { status: 500 })
+  }
+}
@@ -24,7 +24,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const summary = await runActiveWeekIngestion()
+    const summary = await runActiveWeekIngestion({ mode: 'planned' })
     return NextResponse.json({ status: 'completed', summary })
   } catch (error) {
     return NextResponse.json({
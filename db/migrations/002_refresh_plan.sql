@@ -0,0 +1,11 @@
+create table if not exists ingestion_plan_slots (
+  game_id text not null,
+  feed text not null,
+  slot_id text not null,
+  due_at timestamptz not null,
+  run_id text not null references ingestion_runs(run_id) on delete cascade,
+  primary key (game_id, feed, slot_id)
+);
+
+create index if not exists ingestion_plan_slots_run_idx
+  on ingestion_plan_slots (run_id);
@@ -0,0 +1,7 @@
+create table if not exists provider_circuit_breakers (
+  breaker_id text primary key,
+  consecutive_failures integer not null,
+  opened_at timestamptz,
+  last_error text,
+  updated_at timestamptz not null
+);
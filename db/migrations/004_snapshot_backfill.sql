@@ -0,0 +1,6 @@
+alter table game_snapshots
+  add column if not exists backfill boolean not null default false;
+
+create index if not exists game_snapshots_backfill_idx
+  on game_snapshots (game_id, captured_at)
+  where backfill;
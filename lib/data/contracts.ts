@@ -10,10 +10,15 @@ export const OBSERVATION_AGENT_IDS = [
   'trenches',
   'turnovers',
   'rest',
+  'pace',
+  'pressure',
+  'qb',
+  'momentum',
+  'market',
 ] as const
 
 export const ObservationAgentIdSchema = z.enum(OBSERVATION_AGENT_IDS)
-export const ObservationKindSchema = z.enum(['forecast', 'report', 'measurement', 'venue'])
+export const ObservationKindSchema = z.enum(['forecast', 'report', 'measurement', 'venue', 'market'])
 export const SourceQualitySchema = z.enum(['official', 'licensed', 'research', 'internal'])
 export const SnapshotFeedStateSchema = z.enum([
   'available',
@@ -86,8 +91,15 @@ export const GameSnapshotSchema = z.object({
     trenches: SnapshotAvailabilitySchema.optional(),
     turnovers: SnapshotAvailabilitySchema.optional(),
     rest: SnapshotAvailabilitySchema.optional(),
+    pace: SnapshotAvailabilitySchema.optional(),
+    pressure: SnapshotAvailabilitySchema.optional(),
+    qb: SnapshotAvailabilitySchema.optional(),
+    momentum: SnapshotAvailabilitySchema.optional(),
+    market: SnapshotAvailabilitySchema.optional(),
   }),
   content_hash: z.string().regex(/^[a-f0-9]{64}$/),
+  // Set on snapshots a historical backfill rebuilt as of a past pre-kickoff time.
+  backfill: z.boolean().optional(),
 }).superRefine((snapshot, context) => {
   if (snapshot.game_id !== snapshot.game.game_id) {
     context.addIssue({
@@ -128,6 +140,16 @@ export const IngestionFeedResultSchema = z.object({
   game_states: z.record(SnapshotAvailabilitySchema),
 })
 
+export const BackfillRequestSchema = z.object({
+  season: z.number().int().min(2000),
+  from_week: z.number().int().positive(),
+  to_week: z.number().int().positive(),
+  lead_minutes: z.number().int().positive().optional(),
+}).refine(request => request.from_week <= request.to_week, {
+  message: 'from_week must not come after to_week',
+  path: ['to_week'],
+})
+
 export type ObservationAgentId = z.infer<typeof ObservationAgentIdSchema>
 export type Observation = z.infer<typeof ObservationSchema>
 export type SnapshotFeedState = z.infer<typeof SnapshotFeedStateSchema>
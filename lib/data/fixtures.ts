@@ -0,0 +1,144 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { contentHash } from '@/lib/data/hash'
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+// The recorded body is already decoded by fetch, so its transfer headers no longer describe it.
+const TRANSFER_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding']
+
+const FetchFixtureSchema = z.object({
+  schema_version: z.literal(1),
+  request: z.object({
+    method: z.string().min(1),
+    url: z.string().url(),
+    headers: z.record(z.string()),
+  }),
+  response: z.object({
+    status: z.number().int(),
+    status_text: z.string(),
+    headers: z.record(z.string()),
+    body_base64: z.string(),
+  }),
+  recorded_at: z.string().datetime({ offset: true }),
+})
+
+export type FetchFixture = z.infer<typeof FetchFixtureSchema>
+
+export type ReplayFetch = typeof fetch & {
+  unrecorded: string[]
+  recordedAt: Date | null
+}
+
+export class UnrecordedRequestError extends Error {}
+
+function requestTarget(input: string | URL | Request, init?: RequestInit): {
+  method: string
+  url: string
+  headers: Record<string, string>
+} {
+  const request = input instanceof Request ? input : null
+  return {
+    method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+    url: request?.url ?? String(input),
+    headers: Object.fromEntries(new Headers(init?.headers ?? request?.headers).entries()),
+  }
+}
+
+// One file per method and URL; a repeated request during a run overwrites the earlier response.
+export function fixtureFileName(method: string, url: string): string {
+  return `${contentHash({ method, url }).slice(0, 24)}.json`
+}
+
+function fixtureResponse(fixture: FetchFixture): Response {
+  const body = new Uint8Array(Buffer.from(fixture.response.body_base64, 'base64'))
+  return new Response(NULL_BODY_STATUSES.includes(fixture.response.status) ? null : body, {
+    status: fixture.response.status,
+    statusText: fixture.response.status_text,
+    headers: fixture.response.headers,
+  })
+}
+
+export function createRecordingFetch(params: {
+  directory: string
+  fetch?: typeof fetch
+  now?: () => Date
+}): typeof fetch {
+  const upstream = params.fetch ?? fetch
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const target = requestTarget(input, init)
+    const response = await upstream(input, init)
+    const body = Buffer.from(await response.arrayBuffer())
+    const fixture = FetchFixtureSchema.parse({
+      schema_version: 1,
+      request: target,
+      response: {
+        status: response.status,
+        status_text: response.statusText,
+        headers: Object.fromEntries([...response.headers.entries()]
+          .filter(([name]) => !TRANSFER_HEADERS.includes(name.toLowerCase()))),
+        body_base64: body.toString('base64'),
+      },
+      recorded_at: (params.now?.() ?? new Date()).toISOString(),
+    })
+    mkdirSync(params.directory, { recursive: true })
+    writeFileSync(
+      path.join(params.directory, fixtureFileName(target.method, target.url)),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+    )
+    return fixtureResponse(fixture)
+  }) as typeof fetch
+}
+
+function loadFixture(filePath: string): FetchFixture {
+  return FetchFixtureSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')))
+}
+
+// Providers treat a failed request as a missing feed, so every miss is also kept on
+// `unrecorded` for the caller to fail the run after collection. `recordedAt` is the clock of
+// the recorded run, so a replay can select the same week and time windows; the fixtures are
+// only read for it the first time it is asked for.
+export function createReplayFetch(params: { directory: string }): ReplayFetch {
+  const unrecorded: string[] = []
+  let recordedAt: Date | null | undefined
+  const replay = (async (input: string | URL | Request, init?: RequestInit) => {
+    const target = requestTarget(input, init)
+    const filePath = path.join(params.directory, fixtureFileName(target.method, target.url))
+    if (!existsSync(filePath)) {
+      unrecorded.push(`${target.method} ${target.url}`)
+      throw new UnrecordedRequestError(`No recorded response for ${target.method} ${target.url}`)
+    }
+    return fixtureResponse(loadFixture(filePath))
+  }) as ReplayFetch
+  replay.unrecorded = unrecorded
+  Object.defineProperty(replay, 'recordedAt', {
+    enumerable: true,
+    get() {
+      if (recordedAt === undefined) {
+        const recordedTimes = existsSync(params.directory)
+          ? readdirSync(params.directory)
+            .filter(name => name.endsWith('.json'))
+            .map(name => Date.parse(loadFixture(path.join(params.directory, name)).recorded_at))
+          : []
+        recordedAt = recordedTimes.length ? new Date(Math.min(...recordedTimes)) : null
+      }
+      return recordedAt
+    },
+  })
+  return replay
+}
+
+export function isReplayFetch(value: typeof fetch): value is ReplayFetch {
+  return Array.isArray((value as Partial<ReplayFetch>).unrecorded)
+}
+
+// SWANTAIL_FETCH_REPLAY_DIR serves a recorded week offline; SWANTAIL_FETCH_RECORD_DIR saves
+// every live provider response into that directory, stamped with the run clock.
+export function ingestionFetch(now: Date): typeof fetch {
+  const replayDirectory = process.env.SWANTAIL_FETCH_REPLAY_DIR
+  if (replayDirectory) return createReplayFetch({ directory: replayDirectory })
+  const recordDirectory = process.env.SWANTAIL_FETCH_RECORD_DIR
+  if (recordDirectory) return createRecordingFetch({ directory: recordDirectory, now: () => now })
+  return fetch
+}
@@ -1,4 +1,5 @@
 import { createHash } from 'crypto'
+import type { GameSnapshot } from '@/lib/data/contracts'
 
 function canonicalize(value: unknown): unknown {
   if (Array.isArray(value)) return value.map(canonicalize)
@@ -21,3 +22,14 @@ export function contentHash(value: unknown): string {
 export function stableId(prefix: string, value: unknown, length = 16): string {
   return `${prefix}_${contentHash(value).slice(0, length)}`
 }
+
+// Availability check times and observation import times move on every run without the evidence
+// moving, so a snapshot's content hash leaves them out.
+export function snapshotContentHash(content: Pick<GameSnapshot, 'game' | 'observations' | 'availability'>): string {
+  return contentHash({
+    game: content.game,
+    observations: content.observations.map(observation => ({ ...observation, imported_at: undefined })),
+    availability: Object.fromEntries(Object.entries(content.availability)
+      .map(([agentId, availability]) => [agentId, availability && { ...availability, checked_at: undefined }])),
+  })
+}
@@ -3,38 +3,111 @@ import {
   OBSERVATION_CONTRACT_VERSION,
   type GameSnapshot,
   type IngestionFeedResult,
+  type Observation,
   type ObservationAgentId,
   type SnapshotAvailability,
 } from '@/lib/data/contracts'
-import { contentHash, stableId } from '@/lib/data/hash'
+import { ingestionFetch, isReplayFetch, UnrecordedRequestError } from '@/lib/data/fixtures'
+import { snapshotContentHash, stableId } from '@/lib/data/hash'
+import {
+  planRefresh,
+  priorWeekEndsAt,
+  type PlanSlot,
+  type RefreshFeed,
+} from '@/lib/data/refresh'
+import {
+  breakerId,
+  collectWithResilience,
+  createDownloadCache,
+  type CircuitBreaker,
+  type DownloadTelemetry,
+  type FeedTelemetry,
+  type ProviderRoute,
+} from '@/lib/data/resilience'
 import {
   isDatabaseConfigured,
+  loadCircuitBreakers,
   loadLatestGameSnapshot,
+  loadServedPlanSlots,
+  loadSnapshotObservationHistory,
+  persistCircuitBreakers,
   persistIngestionBundle,
   recordFailedIngestionRun,
+  type GameCapture,
 } from '@/lib/data/repository'
-import { nflverseInjuryProvider, nflverseTeamStatsProvider } from '@/lib/data/providers/nflverse'
-import { nwsWeatherProvider } from '@/lib/data/providers/nws'
+import {
+  attachPracticeTrajectories,
+  nflverseInjuryProvider,
+  nflverseMomentumProvider,
+  nflversePaceProvider,
+  nflversePressureProvider,
+  nflverseQuarterbackProvider,
+  nflverseTeamStatsProvider,
+} from '@/lib/data/providers/nflverse'
+import {
+  attachForecastErrors,
+  attachForecastTrajectories,
+  nwsWeatherProvider,
+} from '@/lib/data/providers/nws'
+import { internalMetricsProvider } from '@/lib/data/providers/internal-metrics'
+import { localOddsProvider } from '@/lib/data/providers/odds'
 import { scheduleRestProvider } from '@/lib/data/providers/rest'
+import type { ObservationProvider } from '@/lib/data/providers/types'
 import { GameSchema } from '@/lib/nfl/game'
-import { loadOperationalSchedule } from '@/lib/nfl/schedule'
+import { loadOperationalSchedule, loadSchedule, type LoadedSchedule } from '@/lib/nfl/schedule'
 
 const PROVIDERS = [
   nwsWeatherProvider,
   nflverseInjuryProvider,
   nflverseTeamStatsProvider,
   scheduleRestProvider,
+  nflversePaceProvider,
+  nflversePressureProvider,
+  nflverseQuarterbackProvider,
+  nflverseMomentumProvider,
+  localOddsProvider,
+  internalMetricsProvider,
 ]
 
+// NWS serves only the current forecast, so a backfilled week leaves Weather unobserved.
+const BACKFILL_SKIPPED = new Set<ObservationProvider>([nwsWeatherProvider])
+
+type ProviderPlan = ProviderRoute & { refresh: RefreshFeed[] }
+
+// Names match each provider's feed result; NWS answers quickly or not at all, and nflverse
+// release files come through the run's shared downloads, which carry their own timeout. A
+// provider runs when any of its refresh feeds is due: the quarterback projection reads the
+// injury report and depth chart, so it follows both.
+const PROVIDER_PLANS = new Map<ObservationProvider, ProviderPlan>([
+  [nwsWeatherProvider, {
+    provider: 'nws',
+    feed: 'hourly-forecast',
+    refresh: ['weather'],
+    requestTimeoutMs: 8_000,
+    deadlineMs: 25_000,
+  }],
+  [nflverseInjuryProvider, { provider: 'nflverse', feed: 'injuries', refresh: ['injury'] }],
+  [nflverseTeamStatsProvider, { provider: 'nflverse', feed: 'team-stats', refresh: ['team_stats'] }],
+  [scheduleRestProvider, { provider: 'swantail', feed: 'schedule-derived-rest', refresh: ['team_stats'] }],
+  [nflversePaceProvider, { provider: 'nflverse', feed: 'play-by-play', refresh: ['team_stats'] }],
+  [nflversePressureProvider, { provider: 'nflverse', feed: 'advanced-stats', refresh: ['team_stats'] }],
+  [nflverseQuarterbackProvider, { provider: 'nflverse', feed: 'quarterbacks', refresh: ['team_stats', 'injury'] }],
+  [nflverseMomentumProvider, { provider: 'nflverse', feed: 'team-momentum', refresh: ['team_stats'] }],
+  [localOddsProvider, { provider: 'swantail', feed: 'odds-file', refresh: ['market'] }],
+  [internalMetricsProvider, { provider: 'swantail', feed: 'internal-metrics', refresh: ['internal_metrics'] }],
+])
+
+type SnapshotSection = {
+  observations: GameSnapshot['observations']
+  availability: SnapshotAvailability
+}
+
 function carryForward(params: {
   agentId: ObservationAgentId
   current: IngestionFeedResult
   previous: GameSnapshot | null
   gameId: string
-}): {
-  observations: GameSnapshot['observations']
-  availability: SnapshotAvailability
-} {
+}): SnapshotSection {
   const observations = params.current.observations.filter(item => item.game_id === params.gameId)
   const currentAvailability = params.current.game_states[params.gameId]
   const availability = {
@@ -57,6 +130,54 @@ function carryForward(params: {
   }
 }
 
+// A feed the plan did not refresh for this game keeps the previous snapshot's observations as-is.
+function unrefreshed(params: {
+  agentId: ObservationAgentId
+  previous: GameSnapshot | null
+  checkedAt: string
+  message?: string
+}): SnapshotSection {
+  return {
+    observations: params.previous?.observations.filter(item => item.agent_id === params.agentId) ?? [],
+    availability: params.previous?.availability[params.agentId] ?? {
+      state: 'missing',
+      checked_at: params.checkedAt,
+      observation_count: 0,
+      message: params.message ?? 'Not yet refreshed by the ingestion plan',
+    },
+  }
+}
+
+function isInternalMetric(observation: Observation): boolean {
+  return observation.source.feed.startsWith('internal-metrics:')
+}
+
+// Internal metrics name their own agent and are appended after carry-forward, so a fresh
+// analyst grade never hides the provider observations an agent would otherwise retain.
+// Retained grades are replaced by the current drop folder, which applies its own freshness window.
+// Grades alone under a missing or unconfigured provider feed leave the agent degraded, not missing.
+function withInternalMetrics(params: {
+  agentId: ObservationAgentId
+  section: SnapshotSection
+  internal: Observation[]
+}): SnapshotSection {
+  const provided = params.section.observations.filter(item => !isInternalMetric(item))
+  const internal = params.internal.filter(item => item.agent_id === params.agentId)
+  const observations = [...provided, ...internal]
+  const availability = { ...params.section.availability, observation_count: observations.length }
+  if (provided.length || !internal.length || !['missing', 'not_configured'].includes(availability.state)) {
+    return { observations, availability }
+  }
+  return {
+    observations,
+    availability: {
+      ...availability,
+      state: 'degraded',
+      message: `Internal metrics only; ${availability.message ?? 'provider feed unavailable'}`,
+    },
+  }
+}
+
 export type IngestionSummary = {
   run_id: string
   season: number
@@ -69,17 +190,272 @@ export type IngestionSummary = {
     state: string
     observations: number
     message?: string
-  }>
+  } & Partial<FeedTelemetry>>
+  slots: PlanSlot[]
+  games: GameCapture[]
+  // Shared release downloads, keyed by URL.
+  downloads?: Record<string, DownloadTelemetry>
+  backfill_as_of?: string
+  // The recorded run clock of a replay, which stores nothing.
+  replay_of?: string
+}
+
+type IngestionMode = 'full' | 'planned' | 'backfill'
+
+// Ingests one week as of `now`. `full` refreshes every game and feed; `planned` refreshes only
+// the game/feed pairs whose kickoff-relative plan slot is due, and both record the due slots as
+// served. `backfill` refreshes every game with only what was published by `now`: it skips the
+// plan, breakers, and earlier snapshots, and marks its snapshots as backfilled. A replayed fetch
+// reproduces a recorded run from its fixtures alone: it skips the breakers, stored plan slots,
+// and earlier snapshots, and persists nothing, so it never lands in the live tables.
+async function ingestWeek(params: {
+  runId: string
+  startedAt: string
+  schedule: Pick<LoadedSchedule, 'season' | 'week' | 'games'>
+  now: Date
+  fetch: typeof fetch
+  mode: IngestionMode
+}): Promise<IngestionSummary> {
+  const { runId, schedule, now, fetch: fetcher } = params
+  const { season, week } = schedule
+  const checkedAt = now.toISOString()
+  const backfill = params.mode === 'backfill'
+  const replay = isReplayFetch(fetcher)
+  const isolated = backfill || replay
+  const downloads = createDownloadCache({ fetch: fetcher })
+  const context = {
+    games: schedule.games,
+    season,
+    week,
+    now,
+    fetch: fetcher,
+    downloads,
+  }
+  const gameIds = schedule.games.map(game => game.game_id)
+  const due = backfill ? [] : planRefresh({
+    games: schedule.games,
+    now,
+    served: replay ? new Set() : await loadServedPlanSlots(gameIds),
+    priorWeekEnd: priorWeekEndsAt({ season, week }),
+  })
+  const planned = params.mode === 'planned'
+  if (planned && !due.length) {
+    return { run_id: runId, season, week, snapshots: 0, observations: 0, feeds: [], slots: [], games: [] }
+  }
+  const isDue = (gameId: string, feeds?: RefreshFeed[]) => !planned
+    || due.some(slot => slot.game_id === gameId && (!feeds || feeds.includes(slot.feed)))
+  const breakers = isolated
+    ? new Map<string, CircuitBreaker>()
+    : await loadCircuitBreakers([...PROVIDER_PLANS.values()].map(breakerId))
+  const runs = await Promise.all(PROVIDERS.map(provider => {
+    const plan = PROVIDER_PLANS.get(provider)!
+    const games = backfill && BACKFILL_SKIPPED.has(provider)
+      ? []
+      : schedule.games.filter(game => isDue(game.game_id, plan.refresh))
+    return games.length
+      ? collectWithResilience({
+        provider,
+        route: plan,
+        context: { ...context, games },
+        breaker: breakers.get(breakerId(plan)),
+      })
+      : null
+  }))
+  // Neither a backfill's nor a replay's failures say anything about the live feeds, so both
+  // run with fresh breakers and leave the stored ones alone.
+  if (!isolated) await persistCircuitBreakers(runs.flatMap(run => run?.breaker ? [run.breaker] : []))
+  const collected = runs.map(run => run?.feed ?? null)
+  const telemetry: Record<string, FeedTelemetry> = Object.fromEntries(PROVIDERS.flatMap((provider, index) => {
+    const run = runs[index]
+    return run ? [[breakerId(PROVIDER_PLANS.get(provider)!), run.telemetry]] : []
+  }))
+  // A slot is served only when every provider behind its feed ran without failing.
+  const unservedFeeds = new Set(PROVIDERS.flatMap((provider, index) => {
+    const run = runs[index]
+    const failed = run && (run.breaker === null || run.breaker.consecutive_failures > 0)
+    return failed ? PROVIDER_PLANS.get(provider)!.refresh : []
+  }))
+  const served = due.filter(slot => !unservedFeeds.has(slot.feed))
+  if (replay && fetcher.unrecorded.length) {
+    throw new UnrecordedRequestError(
+      `Replay has no recorded response for ${fetcher.unrecorded.length} request(s): ${fetcher.unrecorded.join(', ')}`,
+    )
+  }
+  const weatherIndex = PROVIDERS.indexOf(nwsWeatherProvider)
+  const weatherFeed = collected[weatherIndex]
+  if (weatherFeed) {
+    const forecastHistory = replay ? [] : await loadSnapshotObservationHistory({
+      gameIds,
+      metric: 'weather.kickoff_forecast',
+    })
+    collected[weatherIndex] = attachForecastErrors({
+      feed: attachForecastTrajectories({ feed: weatherFeed, history: forecastHistory, now }),
+      history: forecastHistory,
+      now,
+    })
+  }
+  const injuryIndex = PROVIDERS.indexOf(nflverseInjuryProvider)
+  const injuryFeed = collected[injuryIndex]
+  if (injuryFeed) {
+    collected[injuryIndex] = attachPracticeTrajectories({
+      feed: injuryFeed,
+      history: replay ? [] : await loadSnapshotObservationHistory({
+        gameIds,
+        metric: 'player.practice_report',
+        ...(backfill ? { capturedThrough: checkedAt } : {}),
+      }),
+      now,
+    })
+  }
+  const feedByAgent = new Map<ObservationAgentId, IngestionFeedResult>()
+  PROVIDERS.forEach((provider, index) => {
+    const feed = collected[index]
+    if (feed) provider.agentIds.forEach(agentId => feedByAgent.set(agentId, feed))
+  })
+  const internalMetrics = collected[PROVIDERS.indexOf(internalMetricsProvider)]
+  const feeds = collected.filter((feed): feed is IngestionFeedResult => feed !== null)
+  // Backfilled snapshots are dated at their as-of time, so later live snapshots stay the latest;
+  // replayed ones at the recorded clock, so a replay reproduces the recorded snapshot ids.
+  const capturedAt = isolated ? checkedAt : new Date().toISOString()
+  const snapshots: GameSnapshot[] = []
+  const games: GameCapture[] = []
+
+  for (const scheduledGame of schedule.games.filter(game => isDue(game.game_id))) {
+    const gameId = scheduledGame.game_id
+    const previous = isolated ? null : await loadLatestGameSnapshot(gameId)
+    const internal = internalMetrics?.game_states[gameId]
+      ? internalMetrics.observations.filter(item => item.game_id === gameId)
+      : previous?.observations.filter(isInternalMetric) ?? []
+    const retain = (agentId: ObservationAgentId) => {
+      const current = feedByAgent.get(agentId)
+      return withInternalMetrics({
+        agentId,
+        section: current?.game_states[gameId]
+          ? carryForward({ agentId, current, previous, gameId })
+          : unrefreshed({
+            agentId,
+            previous,
+            checkedAt,
+            message: backfill ? 'Not collected by the historical backfill' : undefined,
+          }),
+        internal,
+      })
+    }
+    const weather = retain('weather')
+    const injury = retain('injury')
+    const epa = retain('epa')
+    const trenches = retain('trenches')
+    const turnovers = retain('turnovers')
+    const rest = retain('rest')
+    const pace = retain('pace')
+    const pressure = retain('pressure')
+    const qb = retain('qb')
+    const momentum = retain('momentum')
+    const market = retain('market')
+    const observations = [
+      ...weather.observations,
+      ...injury.observations,
+      ...epa.observations,
+      ...trenches.observations,
+      ...turnovers.observations,
+      ...rest.observations,
+      ...pace.observations,
+      ...pressure.observations,
+      ...qb.observations,
+      ...momentum.observations,
+      ...market.observations,
+    ]
+      .sort((left, right) => left.observation_id.localeCompare(right.observation_id))
+    const game = GameSchema.parse(scheduledGame)
+    const snapshotContent = {
+      game,
+      observations,
+      availability: {
+        weather: weather.availability,
+        injury: injury.availability,
+        epa: epa.availability,
+        trenches: trenches.availability,
+        turnovers: turnovers.availability,
+        rest: rest.availability,
+        pace: pace.availability,
+        pressure: pressure.availability,
+        qb: qb.availability,
+        momentum: momentum.availability,
+        market: market.availability,
+      },
+    }
+    const hash = snapshotContentHash(snapshotContent)
+    // Unchanged evidence keeps the latest snapshot, so scenario revisions move only when it moves.
+    if (previous?.content_hash === hash) {
+      games.push({ game_id: gameId, snapshot_id: previous.snapshot_id, change: 'no_change' })
+      continue
+    }
+    const snapshot = GameSnapshotSchema.parse({
+      snapshot_id: stableId('snapshot', {
+        game_id: game.game_id,
+        captured_at: capturedAt,
+        content_hash: hash,
+      }),
+      game_id: game.game_id,
+      captured_at: capturedAt,
+      contract_version: OBSERVATION_CONTRACT_VERSION,
+      ...snapshotContent,
+      content_hash: hash,
+      ...(backfill ? { backfill: true } : {}),
+    })
+    snapshots.push(snapshot)
+    games.push({ game_id: gameId, snapshot_id: snapshot.snapshot_id, change: 'captured' })
+  }
+
+  const completedAt = new Date().toISOString()
+  if (!replay) await persistIngestionBundle({
+    runId,
+    season,
+    week,
+    startedAt: params.startedAt,
+    completedAt,
+    feeds,
+    snapshots,
+    slots: served,
+    telemetry,
+    downloads: downloads.telemetry(),
+    games,
+    ...(backfill ? { backfillAsOf: checkedAt } : {}),
+  })
+  return {
+    run_id: runId,
+    season,
+    week,
+    snapshots: snapshots.length,
+    observations: snapshots.reduce((total, snapshot) => total + snapshot.observations.length, 0),
+    feeds: feeds.map(feed => ({
+      provider: feed.provider,
+      feed: feed.feed,
+      state: feed.state,
+      observations: feed.observations.length,
+      ...(feed.message ? { message: feed.message } : {}),
+      ...telemetry[breakerId(feed)],
+    })),
+    slots: served,
+    games,
+    downloads: downloads.telemetry(),
+    ...(backfill ? { backfill_as_of: checkedAt } : {}),
+    ...(replay ? { replay_of: checkedAt } : {}),
+  }
 }
 
 export async function runActiveWeekIngestion(params: {
   now?: Date
   fetch?: typeof fetch
+  mode?: 'full' | 'planned'
 } = {}): Promise<IngestionSummary> {
-  if (!isDatabaseConfigured()) {
+  const clock = params.now ?? new Date()
+  const fetcher = params.fetch ?? ingestionFetch(clock)
+  const replay = isReplayFetch(fetcher)
+  if (!replay && !isDatabaseConfigured()) {
     throw new Error('Durable ingestion requires POSTGRES_URL or DATABASE_URL')
   }
-  const now = params.now ?? new Date()
+  const now = params.now ?? (replay ? fetcher.recordedAt : null) ?? clock
   const startedAt = now.toISOString()
   const runId = stableId('run', { started_at: startedAt })
   let season: number | undefined
@@ -89,103 +465,9 @@ export async function runActiveWeekIngestion(params: {
     const schedule = loadOperationalSchedule({ now })
     season = schedule.season
     week = schedule.week
-    const context = {
-      games: schedule.games,
-      season,
-      week,
-      now,
-      fetch: params.fetch ?? fetch,
-    }
-    const feeds = await Promise.all(PROVIDERS.map(provider => provider.collect(context)))
-    const feedByAgent = new Map<ObservationAgentId, IngestionFeedResult>()
-    PROVIDERS.forEach((provider, index) => {
-      provider.agentIds.forEach(agentId => feedByAgent.set(agentId, feeds[index]))
-    })
-    const capturedAt = new Date().toISOString()
-    const snapshots: GameSnapshot[] = []
-
-    for (const scheduledGame of schedule.games) {
-      const previous = await loadLatestGameSnapshot(scheduledGame.game_id)
-      const weather = carryForward({
-        agentId: 'weather', current: feedByAgent.get('weather')!, previous, gameId: scheduledGame.game_id,
-      })
-      const injury = carryForward({
-        agentId: 'injury', current: feedByAgent.get('injury')!, previous, gameId: scheduledGame.game_id,
-      })
-      const epa = carryForward({
-        agentId: 'epa', current: feedByAgent.get('epa')!, previous, gameId: scheduledGame.game_id,
-      })
-      const trenches = carryForward({
-        agentId: 'trenches', current: feedByAgent.get('trenches')!, previous, gameId: scheduledGame.game_id,
-      })
-      const turnovers = carryForward({
-        agentId: 'turnovers', current: feedByAgent.get('turnovers')!, previous, gameId: scheduledGame.game_id,
-      })
-      const rest = carryForward({
-        agentId: 'rest', current: feedByAgent.get('rest')!, previous, gameId: scheduledGame.game_id,
-      })
-      const observations = [
-        ...weather.observations,
-        ...injury.observations,
-        ...epa.observations,
-        ...trenches.observations,
-        ...turnovers.observations,
-        ...rest.observations,
-      ]
-        .sort((left, right) => left.observation_id.localeCompare(right.observation_id))
-      const game = GameSchema.parse(scheduledGame)
-      const snapshotContent = {
-        game,
-        observations,
-        availability: {
-          weather: weather.availability,
-          injury: injury.availability,
-          epa: epa.availability,
-          trenches: trenches.availability,
-          turnovers: turnovers.availability,
-          rest: rest.availability,
-        },
-      }
-      const hash = contentHash(snapshotContent)
-      snapshots.push(GameSnapshotSchema.parse({
-        snapshot_id: stableId('snapshot', {
-          game_id: game.game_id,
-          captured_at: capturedAt,
-          content_hash: hash,
-        }),
-        game_id: game.game_id,
-        captured_at: capturedAt,
-        contract_version: OBSERVATION_CONTRACT_VERSION,
-        ...snapshotContent,
-        content_hash: hash,
-      }))
-    }
-
-    const completedAt = new Date().toISOString()
-    await persistIngestionBundle({
-      runId,
-      season,
-      week,
-      startedAt,
-      completedAt,
-      feeds,
-      snapshots,
-    })
-    return {
-      run_id: runId,
-      season,
-      week,
-      snapshots: snapshots.length,
-      observations: snapshots.reduce((total, snapshot) => total + snapshot.observations.length, 0),
-      feeds: feeds.map(feed => ({
-        provider: feed.provider,
-        feed: feed.feed,
-        state: feed.state,
-        observations: feed.observations.length,
-        ...(feed.message ? { message: feed.message } : {}),
-      })),
-    }
+    return await ingestWeek({ runId, startedAt, schedule, now, fetch: fetcher, mode: params.mode ?? 'full' })
   } catch (error) {
+    if (replay) throw error
     const message = error instanceof Error ? error.message : 'Unknown ingestion failure'
     await recordFailedIngestionRun({
       runId,
@@ -198,3 +480,73 @@ export async function runActiveWeekIngestion(params: {
     throw error
   }
 }
+
+export class BackfillRangeError extends Error {}
+
+const DEFAULT_BACKFILL_LEAD_MINUTES = 90
+
+// One as-of time per week, before its first kickoff, so every game in the week sees the same
+// published data: statistics through the prior week and that week's injury reports so far.
+export function backfillAsOf(params: { season: number; week: number; leadMinutes?: number }): Date {
+  const kickoffs = loadSchedule({ season: params.season, week: params.week }).games
+    .map(game => Date.parse(game.kickoff))
+  const leadMinutes = params.leadMinutes ?? DEFAULT_BACKFILL_LEAD_MINUTES
+  return new Date(Math.min(...kickoffs) - leadMinutes * 60 * 1000)
+}
+
+// Replays past weeks through the providers, one run per week, oldest first. Every week must
+// already be past its as-of time; a failed week is recorded and stops the backfill.
+export async function runHistoricalBackfill(params: {
+  season: number
+  fromWeek: number
+  toWeek: number
+  leadMinutes?: number
+  now?: Date
+  fetch?: typeof fetch
+}): Promise<IngestionSummary[]> {
+  if (!isDatabaseConfigured()) {
+    throw new Error('Durable ingestion requires POSTGRES_URL or DATABASE_URL')
+  }
+  if (params.fromWeek > params.toWeek) {
+    throw new BackfillRangeError(`Week ${params.fromWeek} comes after week ${params.toWeek}`)
+  }
+  const clock = params.now ?? new Date()
+  const weeks = Array.from({ length: params.toWeek - params.fromWeek + 1 }, (_, index) => {
+    const week = params.fromWeek + index
+    let schedule: LoadedSchedule
+    try {
+      schedule = loadSchedule({ season: params.season, week })
+    } catch (error) {
+      throw new BackfillRangeError(error instanceof Error ? error.message : `No schedule for week ${week}`)
+    }
+    const asOf = backfillAsOf({ season: params.season, week, leadMinutes: params.leadMinutes })
+    if (asOf.getTime() > clock.getTime()) {
+      throw new BackfillRangeError(`${params.season} week ${week} has not reached its as-of time ${asOf.toISOString()}`)
+    }
+    return { schedule, asOf }
+  })
+  const fetcher = params.fetch ?? ingestionFetch(clock)
+  const summaries: IngestionSummary[] = []
+
+  for (const { schedule, asOf } of weeks) {
+    const startedAt = new Date().toISOString()
+    const runId = stableId('run', {
+      started_at: startedAt,
+      backfill: { season: schedule.season, week: schedule.week, as_of: asOf.toISOString() },
+    })
+    try {
+      summaries.push(await ingestWeek({ runId, startedAt, schedule, now: asOf, fetch: fetcher, mode: 'backfill' }))
+    } catch (error) {
+      await recordFailedIngestionRun({
+        runId,
+        season: schedule.season,
+        week: schedule.week,
+        startedAt,
+        failedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown backfill failure',
+      })
+      throw error
+    }
+  }
+  return summaries
+}
@@ -0,0 +1,307 @@
+import { parse } from 'csv-parse/sync'
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { z } from 'zod'
+import {
+  IngestionFeedResultSchema,
+  ObservationAgentIdSchema,
+  type IngestionFeedResult,
+  type Observation,
+  type RawImport,
+  type SnapshotAvailability,
+} from '@/lib/data/contracts'
+import { createObservation, createRawImport } from '@/lib/data/providers/shared'
+import type { ObservationProvider } from '@/lib/data/providers/types'
+import type { ScheduleGame } from '@/lib/nfl/schedule'
+import { normalizeTeamCode } from '@/lib/nfl/teams'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const InternalMetricFileSchema = z.object({
+  file: z.string().regex(/^[^/\\]+\.(csv|json)$/, 'Drop files must be CSV or JSON names inside the drop directory'),
+  agent_id: ObservationAgentIdSchema,
+  metric: z.string().regex(/^[a-z]+(?:[._][a-z0-9]+)+$/, 'Metrics are dotted snake_case names'),
+  subject_type: z.enum(['team', 'player', 'game']),
+  team_column: z.string().min(1),
+  subject_column: z.string().min(1).optional(),
+  label_column: z.string().min(1).optional(),
+  value_columns: z.array(z.string().min(1)).min(1),
+  // File times change on every copy, so each row carries its own grading time.
+  observed_at_column: z.string().min(1),
+  freshness_hours: z.number().positive(),
+  unit: z.string().min(1).optional(),
+  source_url: z.string().url().optional(),
+}).superRefine((entry, context) => {
+  if (entry.subject_type === 'player' && !entry.subject_column) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Player metrics need a subject_column holding the player id',
+      path: ['subject_column'],
+    })
+  }
+})
+
+const InternalMetricsManifestSchema = z.object({
+  schema_version: z.number().int().positive(),
+  files: z.array(InternalMetricFileSchema),
+})
+
+export type InternalMetricFile = z.infer<typeof InternalMetricFileSchema>
+
+export type RowRejection = {
+  row: number
+  message: string
+}
+
+export type FileValidationReport = {
+  file: string
+  rows: number
+  accepted: number
+  stale: number
+  pending: number
+  rejected: RowRejection[]
+  error?: string
+}
+
+type MetricRow = {
+  team: string
+  subjectId: string
+  label?: string
+  value: Observation['value']
+  observedAt: string
+}
+
+// Analysts maintain these grades in spreadsheets; data/internal-metrics/manifest.json declares
+// how each exported file becomes observations. SWANTAIL_INTERNAL_METRICS_DIR points at another directory.
+function internalMetricsRoot(): string {
+  return process.env.SWANTAIL_INTERNAL_METRICS_DIR ?? path.join(process.cwd(), 'data', 'internal-metrics')
+}
+
+function cellValue(value: unknown): string | number | boolean | null {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'number' || typeof value === 'boolean') return value
+  const text = String(value).trim()
+  if (!text) return null
+  const parsed = Number(text)
+  return Number.isFinite(parsed) ? parsed : text
+}
+
+function readRows(filePath: string): Record<string, unknown>[] {
+  const body = readFileSync(filePath, 'utf8')
+  if (filePath.endsWith('.csv')) {
+    return parse(body, { columns: true, skip_empty_lines: true, trim: true, bom: true }) as Record<string, unknown>[]
+  }
+  return z.array(z.record(z.unknown())).parse(JSON.parse(body))
+}
+
+function metricRow(row: Record<string, unknown>, entry: InternalMetricFile): MetricRow | string {
+  const team = normalizeTeamCode(String(row[entry.team_column] ?? ''))
+  if (!team) return `${entry.team_column} is not a known team`
+  const subjectId = entry.subject_column ? String(row[entry.subject_column] ?? '').trim() : team
+  if (!subjectId) return `${entry.subject_column} is empty`
+  const missing = entry.value_columns.filter(column => !(column in row))
+  if (missing.length) return `Missing value column ${missing.join(', ')}`
+  const values = entry.value_columns.map(column => cellValue(row[column]))
+  if (values.every(value => value === null)) return 'Every value column is empty'
+  const observedAt = new Date(String(row[entry.observed_at_column] ?? ''))
+  if (Number.isNaN(observedAt.getTime())) return `${entry.observed_at_column} is not a timestamp`
+  const label = entry.label_column ? String(row[entry.label_column] ?? '').trim() : ''
+  return {
+    team,
+    subjectId,
+    ...(label ? { label } : {}),
+    value: values.length === 1
+      ? values[0]
+      : Object.fromEntries(entry.value_columns.map((column, index) => [column, values[index]])),
+    observedAt: observedAt.toISOString(),
+  }
+}
+
+function metricSubject(entry: InternalMetricFile, row: MetricRow, game: ScheduleGame): Observation['subject'] {
+  if (entry.subject_type === 'game') return { type: 'game', id: game.game_id, label: game.display, team: row.team }
+  return {
+    type: entry.subject_type,
+    id: row.subjectId,
+    ...(row.label ? { label: row.label } : {}),
+    team: row.team,
+  }
+}
+
+function reportMessage(reports: FileValidationReport[]): string | undefined {
+  const problems = reports.flatMap(report => {
+    if (report.error) return [`${report.file}: ${report.error}`]
+    if (!report.rejected.length) return []
+    const first = report.rejected[0]
+    return [`${report.file}: rejected ${report.rejected.length} of ${report.rows} rows (row ${first.row}: ${first.message})`]
+  })
+  return problems.length ? problems.join('; ') : undefined
+}
+
+function state(params: {
+  state: SnapshotAvailability['state']
+  checkedAt: string
+  observationCount?: number
+  message?: string
+}): SnapshotAvailability {
+  return {
+    state: params.state,
+    checked_at: params.checkedAt,
+    observation_count: params.observationCount ?? 0,
+    ...(params.message ? { message: params.message } : {}),
+  }
+}
+
+export function collectInternalMetricFile(params: {
+  entry: InternalMetricFile
+  root: string
+  games: ScheduleGame[]
+  now: Date
+}): { report: FileValidationReport; rawImport: RawImport | null; observations: Observation[] } {
+  const { entry, games, now } = params
+  const filePath = path.join(params.root, entry.file)
+  const checkedAt = now.toISOString()
+  let rows: Record<string, unknown>[]
+  try {
+    rows = readRows(filePath)
+  } catch (error) {
+    return {
+      report: {
+        file: entry.file,
+        rows: 0,
+        accepted: 0,
+        stale: 0,
+        pending: 0,
+        rejected: [],
+        error: existsSync(filePath) ? `unreadable (${error instanceof Error ? error.message : 'parse failure'})` : 'file is missing',
+      },
+      rawImport: null,
+      observations: [],
+    }
+  }
+
+  const accepted: MetricRow[] = []
+  const rejected: RowRejection[] = []
+  let stale = 0
+  let pending = 0
+  rows.forEach((row, index) => {
+    const parsed = metricRow(row, entry)
+    if (typeof parsed === 'string') {
+      // Row numbers match the spreadsheet, where the header occupies row 1.
+      rejected.push({ row: index + 2, message: parsed })
+      return
+    }
+    const observedAt = Date.parse(parsed.observedAt)
+    if (observedAt > now.getTime()) pending += 1
+    else if (observedAt + entry.freshness_hours * HOUR_MS <= now.getTime()) stale += 1
+    else accepted.push(parsed)
+  })
+  const report: FileValidationReport = {
+    file: entry.file,
+    rows: rows.length,
+    accepted: accepted.length,
+    stale,
+    pending,
+    rejected,
+  }
+  const sourceUrl = entry.source_url ?? pathToFileURL(filePath).href
+  const rawImport = createRawImport({
+    provider: 'swantail',
+    feed: `internal-metrics:${entry.metric}`,
+    sourceUrl,
+    fetchedAt: checkedAt,
+    payload: { manifest: entry, rows, validation: report },
+  })
+  const observations = accepted.flatMap(row => games
+    .filter(game => game.away_team === row.team || game.home_team === row.team)
+    .map(game => createObservation({
+      gameId: game.game_id,
+      agentId: entry.agent_id,
+      kind: 'measurement',
+      subject: metricSubject(entry, row, game),
+      metric: entry.metric,
+      value: row.value,
+      unit: entry.unit,
+      source: {
+        provider: 'swantail',
+        feed: `internal-metrics:${entry.metric}`,
+        quality: 'internal',
+        source_url: sourceUrl,
+      },
+      observedAt: row.observedAt,
+      effectiveAt: row.observedAt,
+      expiresAt: new Date(Date.parse(row.observedAt) + entry.freshness_hours * HOUR_MS).toISOString(),
+      importedAt: checkedAt,
+      rawImportId: rawImport.raw_import_id,
+      providerRecordId: `${entry.metric}:${row.subjectId}:${row.observedAt}`,
+    })))
+  return { report, rawImport, observations }
+}
+
+// Manifest-driven observations supplement whichever agents they name, so this provider claims
+// no agent feed of its own; ingestion appends its observations after each agent's carry-forward.
+export const internalMetricsProvider: ObservationProvider = {
+  agentIds: [],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const root = internalMetricsRoot()
+    const manifestPath = path.join(root, 'manifest.json')
+    const emptyFeed = (feedState: SnapshotAvailability['state'], message: string) => IngestionFeedResultSchema.parse({
+      provider: 'swantail',
+      feed: 'internal-metrics',
+      state: feedState,
+      checked_at: checkedAt,
+      message,
+      raw_imports: [],
+      observations: [],
+      game_states: Object.fromEntries(context.games.map(game => [game.game_id, state({
+        state: feedState,
+        checkedAt,
+        message,
+      })])),
+    })
+    if (!existsSync(manifestPath)) return emptyFeed('not_configured', 'No internal metrics manifest is present')
+    let manifestBody: unknown = null
+    try {
+      manifestBody = JSON.parse(readFileSync(manifestPath, 'utf8'))
+    } catch {
+      manifestBody = null
+    }
+    const manifest = InternalMetricsManifestSchema.safeParse(manifestBody)
+    if (!manifest.success) return emptyFeed('degraded', 'The internal metrics manifest is invalid')
+
+    const results = manifest.data.files.map(entry => collectInternalMetricFile({
+      entry,
+      root,
+      games: context.games,
+      now: context.now,
+    }))
+    // A row repeated across files or within one file is a single observation.
+    const observations = [...new Map(results
+      .flatMap(result => result.observations)
+      .map(observation => [observation.observation_id, observation])).values()]
+    const rawImports = results.flatMap(result => result.rawImport ? [result.rawImport] : [])
+    const reports = results.map(result => result.report)
+    const message = reportMessage(reports)
+    const problems = message !== undefined
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'swantail',
+      feed: 'internal-metrics',
+      state: problems ? 'degraded' : observations.length ? 'available' : 'missing',
+      checked_at: checkedAt,
+      ...(message ? { message } : {}),
+      raw_imports: rawImports,
+      observations,
+      game_states: Object.fromEntries(context.games.map(game => {
+        const count = observations.filter(observation => observation.game_id === game.game_id).length
+        return [game.game_id, state({
+          state: count ? 'available' : problems ? 'degraded' : 'missing',
+          checkedAt,
+          observationCount: count,
+          message: message ?? (count ? undefined : 'No fresh internal metrics for this game'),
+        })]
+      })),
+    })
+  },
+}
@@ -1,4 +1,5 @@
 import { parse } from 'csv-parse/sync'
+import { gunzipSync } from 'zlib'
 import {
   IngestionFeedResultSchema,
   type IngestionFeedResult,
@@ -7,6 +8,7 @@ import {
 } from '@/lib/data/contracts'
 import { createObservation, createRawImport } from '@/lib/data/providers/shared'
 import type { ObservationProvider, WeekProviderContext } from '@/lib/data/providers/types'
+import type { ScheduleGame } from '@/lib/nfl/schedule'
 import { normalizeTeamCode, type TeamCode } from '@/lib/nfl/teams'
 
 const NFLVERSE_TERMS_URL = 'https://github.com/nflverse/nflreadr#terms-of-use'
@@ -14,9 +16,19 @@ const NFLVERSE_RELEASE_ROOT = 'https://github.com/nflverse/nflverse-data/release
 
 type CsvRow = Record<string, string>
 
-function parseCsv(body: string): CsvRow[] {
+// The play-by-play columns any provider reads. Each season's file carries close to 400 columns,
+// so play-by-play rows keep only these to stay small while the run's download cache holds them.
+const PLAY_BY_PLAY_COLUMNS = new Set([
+  'season', 'season_type', 'game_type', 'week', 'game_id', 'posteam', 'defteam', 'play_type',
+  'down', 'qtr', 'wp', 'half_seconds_remaining', 'game_seconds_remaining', 'drive', 'fixed_drive',
+  'yardline_100', 'yards_gained', 'epa', 'success', 'pass', 'no_huddle', 'qb_dropback', 'pass_attempt',
+  'qb_hit', 'sack', 'interception', 'qb_scramble', 'cpoe', 'pass_touchdown', 'rush_touchdown',
+  'passer_id', 'passer', 'passer_player_name',
+])
+
+function parseCsv(body: string, columns?: ReadonlySet<string>): CsvRow[] {
   return parse(body, {
-    columns: true,
+    columns: columns ? (header: string[]) => header.map(name => columns.has(name) && name) : true,
     skip_empty_lines: true,
     relax_column_count: true,
     bom: true,
@@ -28,11 +40,26 @@ function numeric(value: string | undefined): number {
   return Number.isFinite(parsed) ? parsed : 0
 }
 
-function fetchedObservationTime(response: Response, fallback: string): string {
+// Reports and baselines hold until their game is over, so a rerun on the same files yields the
+// same observations and the same snapshot hash.
+function gameExpiry(game: ScheduleGame): string {
+  return new Date(Date.parse(game.kickoff) + 6 * 60 * 60 * 1000).toISOString()
+}
+
+// A file modified after the run's as-of time (today's copy read by a backfill) is observed at
+// the as-of time instead, so no observation claims to come from after it.
+function fetchedObservationTime(response: Response, asOf: string): string {
   const lastModified = response.headers.get('last-modified')
-  if (!lastModified) return fallback
+  if (!lastModified) return asOf
   const timestamp = new Date(lastModified)
-  return Number.isNaN(timestamp.getTime()) ? fallback : timestamp.toISOString()
+  if (Number.isNaN(timestamp.getTime())) return asOf
+  return timestamp.getTime() > Date.parse(asOf) ? asOf : timestamp.toISOString()
+}
+
+// Rows stamped after `now` had not been published yet; undated rows cannot be placed and are kept.
+function publishedBy(row: CsvRow, now: Date): boolean {
+  const modified = row.date_modified ? Date.parse(row.date_modified) : Number.NaN
+  return Number.isNaN(modified) || modified <= now.getTime()
 }
 
 function availability(params: {
@@ -49,15 +76,30 @@ function availability(params: {
   }
 }
 
-async function fetchCsv(context: WeekProviderContext, url: string): Promise<{
+type CsvDownload = {
   response: Response
   rows: CsvRow[]
-}> {
-  const response = await context.fetch(url, {
+}
+
+async function downloadCsv(fetcher: typeof fetch, url: string, columns?: ReadonlySet<string>): Promise<CsvDownload> {
+  const response = await fetcher(url, {
     headers: { 'User-Agent': 'Swantail/0.1' },
   })
   if (!response.ok) throw new Error(`nflverse returned ${response.status}`)
-  return { response, rows: parseCsv(await response.text()) }
+  const body = Buffer.from(await response.arrayBuffer())
+  const gzipped = body[0] === 0x1f && body[1] === 0x8b
+  return { response, rows: parseCsv((gzipped ? gunzipSync(body) : body).toString('utf8'), columns) }
+}
+
+// Several providers read the same release file, and one provider can name a file twice; the
+// run's download cache fetches each one once.
+function fetchCsv(context: WeekProviderContext, url: string): Promise<CsvDownload> {
+  return context.downloads.load(url, fetcher => downloadCsv(fetcher, url))
+}
+
+// Every play-by-play read goes through here, so the cached rows always hold the same columns.
+function fetchPlayByPlay(context: WeekProviderContext, url: string): Promise<CsvDownload> {
+  return context.downloads.load(url, fetcher => downloadCsv(fetcher, url, PLAY_BY_PLAY_COLUMNS))
 }
 
 function failedFeed(params: {
@@ -82,6 +124,496 @@ function failedFeed(params: {
   })
 }
 
+type DepthChartEntry = {
+  team: TeamCode
+  playerId: string
+  name: string
+  position: string
+  rank: number
+}
+
+// Reads both the classic weekly chart (week, depth_team) and the timestamped chart (dt, pos_rank).
+function latestDepthCharts(params: {
+  rows: CsvRow[]
+  teams: Set<TeamCode>
+  season: number
+  week: number
+  now: Date
+}): DepthChartEntry[] {
+  const entries = params.rows.flatMap(row => {
+    const team = normalizeTeamCode(row.club_code || row.team)
+    const position = row.depth_position || row.pos_abb || row.position
+    if (!team || !params.teams.has(team) || !position || !row.gsis_id) return []
+    if (!row.depth_team && !row.pos_rank) return []
+    if (row.season && Number(row.season) !== params.season) return []
+    if (row.game_type && row.game_type !== 'REG') return []
+    const week = row.week ? Number(row.week) : null
+    const listedAt = row.dt ? Date.parse(row.dt) : null
+    if (week !== null && week > params.week) return []
+    if (listedAt !== null && listedAt > params.now.getTime()) return []
+    if (!publishedBy(row, params.now)) return []
+    return [{
+      team,
+      playerId: row.gsis_id,
+      name: row.full_name || row.player_name || `${row.first_name} ${row.last_name}`.trim(),
+      position,
+      rank: numeric(row.depth_team || row.pos_rank) || 99,
+      version: week ?? listedAt ?? 0,
+    }]
+  })
+  return [...params.teams].flatMap(team => {
+    const teamEntries = entries.filter(entry => entry.team === team)
+    const latest = Math.max(...teamEntries.map(entry => entry.version))
+    return teamEntries
+      .filter(entry => entry.version === latest)
+      .sort((left, right) => left.rank - right.rank)
+      .map(entry => ({
+        team: entry.team,
+        playerId: entry.playerId,
+        name: entry.name,
+        position: entry.position,
+        rank: entry.rank,
+      }))
+  })
+}
+
+function reportStatuses(rows: CsvRow[], season: number, week: number): Map<string, string> {
+  const statuses = new Map<string, string>()
+  for (const row of rows) {
+    if (Number(row.season) !== season || Number(row.week) !== week) continue
+    if (row.gsis_id && row.report_status) statuses.set(row.gsis_id, row.report_status)
+  }
+  return statuses
+}
+
+const SKILL_POSITIONS = new Set(['QB', 'RB', 'FB', 'WR', 'TE'])
+const OFFENSIVE_LINE_POSITIONS = new Set(['LT', 'LG', 'C', 'RG', 'RT', 'T', 'G', 'OT', 'OG', 'OL'])
+const SPECIAL_TEAMS_POSITIONS = new Set(['K', 'PK', 'P', 'LS', 'H', 'KR', 'PR'])
+
+type RoleSide = 'offense' | 'defense' | 'special_teams'
+type ProductionMetric = 'scrimmage_epa' | 'defensive_disruptions' | null
+
+// Classic weekly charts list offensive players by alignment rather than position.
+const OFFENSIVE_ALIGNMENTS: Record<string, string> = {
+  LWR: 'WR',
+  RWR: 'WR',
+  SWR: 'WR',
+  SE: 'WR',
+  FL: 'WR',
+  SLOT: 'WR',
+  HB: 'RB',
+  TB: 'RB',
+}
+
+function basePosition(position: string): string {
+  const code = position.toUpperCase()
+  return OFFENSIVE_ALIGNMENTS[code] ?? code
+}
+
+function roleSide(position: string): RoleSide {
+  const base = basePosition(position)
+  if (SKILL_POSITIONS.has(base) || OFFENSIVE_LINE_POSITIONS.has(base)) return 'offense'
+  if (SPECIAL_TEAMS_POSITIONS.has(base)) return 'special_teams'
+  return 'defense'
+}
+
+function productionMetric(position: string): ProductionMetric {
+  if (SKILL_POSITIONS.has(basePosition(position))) return 'scrimmage_epa'
+  return roleSide(position) === 'defense' ? 'defensive_disruptions' : null
+}
+
+function playerNameKey(team: TeamCode, name: string): string {
+  const normalized = name.toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+(jr|sr|ii|iii|iv|v)$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return `${team}:${normalized}`
+}
+
+type PlayerUsage = {
+  games: number
+  snapShare: number | null
+  productionPerGame: number | null
+}
+
+type UsageIndex = {
+  snaps: Map<string, Record<RoleSide, number[]>>
+  production: Map<string, { games: number; scrimmageEpa: number; disruptions: number }>
+}
+
+// Snap counts carry PFR ids and names only, so they join the depth chart on team and name.
+function indexUsage(params: {
+  snapRows: CsvRow[]
+  statRows: CsvRow[]
+  season: number
+  beforeWeek?: number
+}): UsageIndex {
+  const snaps: UsageIndex['snaps'] = new Map()
+  for (const row of params.snapRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    const team = normalizeTeamCode(row.team)
+    if (!team || !row.player) continue
+    const key = playerNameKey(team, row.player)
+    const current = snaps.get(key) ?? { offense: [], defense: [], special_teams: [] }
+    if (numeric(row.offense_snaps) > 0) current.offense.push(numeric(row.offense_pct))
+    if (numeric(row.defense_snaps) > 0) current.defense.push(numeric(row.defense_pct))
+    if (numeric(row.st_snaps) > 0) current.special_teams.push(numeric(row.st_pct))
+    snaps.set(key, current)
+  }
+  const production: UsageIndex['production'] = new Map()
+  for (const row of params.statRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek) || !row.player_id) continue
+    const current = production.get(row.player_id) ?? { games: 0, scrimmageEpa: 0, disruptions: 0 }
+    current.games += 1
+    current.scrimmageEpa += numeric(row.passing_epa) + numeric(row.rushing_epa) + numeric(row.receiving_epa)
+    current.disruptions += numeric(row.def_sacks)
+      + numeric(row.def_qb_hits)
+      + numeric(row.def_tackles_for_loss)
+      + numeric(row.def_pass_defended)
+      + numeric(row.def_interceptions)
+      + numeric(row.def_fumbles_forced)
+    production.set(row.player_id, current)
+  }
+  return { snaps, production }
+}
+
+function playerUsage(index: UsageIndex, entry: DepthChartEntry): PlayerUsage {
+  const shares = index.snaps.get(playerNameKey(entry.team, entry.name))?.[roleSide(entry.position)] ?? []
+  const production = index.production.get(entry.playerId)
+  const metric = productionMetric(entry.position)
+  return {
+    games: Math.max(shares.length, production?.games ?? 0),
+    snapShare: shares.length ? mean(shares) : null,
+    productionPerGame: metric && production?.games
+      ? (metric === 'scrimmage_epa' ? production.scrimmageEpa : production.disruptions) / production.games
+      : null,
+  }
+}
+
+type ReplacementProfile = {
+  starter: DepthChartEntry
+  reportStatus: string
+  starterUsage: PlayerUsage
+  replacement: (DepthChartEntry & { reportStatus: string | null; usage: PlayerUsage }) | null
+}
+
+const REPLACEMENT_STATUSES = ['out', 'doubtful', 'questionable']
+
+// Only listed starters are profiled; a reserve's absence does not move a role.
+function replacementProfiles(params: {
+  charts: DepthChartEntry[]
+  statuses: Map<string, string>
+  usage: UsageIndex
+}): ReplacementProfile[] {
+  return params.charts.flatMap(starter => {
+    const reportStatus = params.statuses.get(starter.playerId)
+    if (!reportStatus || !REPLACEMENT_STATUSES.includes(reportStatus.toLowerCase())) return []
+    const role = params.charts.filter(entry => (
+      entry.team === starter.team && entry.position === starter.position
+    ))
+    if (role[0]?.rank !== starter.rank) return []
+    const replacement = role.find(entry => (
+      entry.rank > starter.rank
+      && !['out', 'doubtful'].includes((params.statuses.get(entry.playerId) ?? '').toLowerCase())
+    ))
+    return [{
+      starter,
+      reportStatus,
+      starterUsage: playerUsage(params.usage, starter),
+      replacement: replacement
+        ? {
+          ...replacement,
+          reportStatus: params.statuses.get(replacement.playerId) ?? null,
+          usage: playerUsage(params.usage, replacement),
+        }
+        : null,
+    }]
+  })
+}
+
+function roundedOrNull(value: number | null, digits: number): number | null {
+  return value === null ? null : Number(value.toFixed(digits))
+}
+
+type PracticeParticipation = 'dnp' | 'limited' | 'full'
+type PracticeTrajectory = 'improving' | 'worsening' | 'static'
+type PracticePattern = PracticeTrajectory | 'late_downgrade' | 'routine_maintenance'
+
+const PARTICIPATION_LEVELS: Record<PracticeParticipation, number> = { dnp: 0, limited: 1, full: 2 }
+// Reports filed within two days of kickoff are the final practice day before the game designation.
+const LATE_WEEK_DAYS = 2
+
+function practiceParticipation(status: string | undefined): PracticeParticipation | null {
+  if (!status) return null
+  if (/did not|dnp/i.test(status)) return 'dnp'
+  if (/limited/i.test(status)) return 'limited'
+  if (/full/i.test(status)) return 'full'
+  return null
+}
+
+function easternReportDay(at: string): { date: string; day: string } {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(at)).map(part => [part.type, part.value]))
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, day: parts.weekday }
+}
+
+function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / (24 * 60 * 60 * 1000))
+}
+
+type PracticeDay = {
+  observation_id: string
+  report_date: string
+  report_day: string
+  participation: PracticeParticipation | null
+  report_status: string | null
+  primary_injury: string | null
+}
+
+// Orders one player's daily reports and separates a late-week participation drop from a routine
+// rest day that is followed by full participation without a game designation.
+export function practiceTrajectory(reports: Observation[], kickoff: string): {
+  trajectory: PracticeTrajectory
+  pattern: PracticePattern
+  late_downgrade: boolean
+  routine_maintenance: boolean
+  latest_participation: PracticeParticipation | null
+  game_status: string | null
+  days_before_kickoff: number
+  missing_days: number
+  days: PracticeDay[]
+} {
+  const byDate = new Map<string, PracticeDay>()
+  for (const report of [...reports].sort((left, right) => left.observed_at.localeCompare(right.observed_at))) {
+    const value = report.value as Record<string, unknown>
+    const text = (key: string) => typeof value[key] === 'string' ? value[key] as string : null
+    const reportDate = text('report_date') ?? easternReportDay(report.observed_at).date
+    byDate.set(reportDate, {
+      observation_id: report.observation_id,
+      report_date: reportDate,
+      report_day: text('report_day') ?? easternReportDay(report.observed_at).day,
+      participation: practiceParticipation(text('practice_status') ?? undefined),
+      report_status: text('report_status'),
+      primary_injury: text('primary_injury'),
+    })
+  }
+  const days = [...byDate.values()].sort((left, right) => left.report_date.localeCompare(right.report_date))
+  const levels = days.flatMap(day => day.participation ? [PARTICIPATION_LEVELS[day.participation]] : [])
+  const first = levels[0]
+  const last = levels[levels.length - 1]
+  const trajectory: PracticeTrajectory = levels.length < 2 || first === last
+    ? 'static'
+    : last > first ? 'improving' : 'worsening'
+  const finalDay = days[days.length - 1]
+  const daysBeforeKickoff = daysBetween(finalDay.report_date, easternReportDay(kickoff).date)
+  const gameStatus = [...days].reverse().find(day => day.report_status)?.report_status ?? null
+  // A day with no captured report is a gap, not a repeat of the day before, so a downgrade only counts
+  // when the two reports it compares are on consecutive days.
+  const missingDays = days.slice(1).reduce((total, day, index) => (
+    total + Math.max(0, daysBetween(days[index].report_date, day.report_date) - 1)
+  ), 0)
+  const practiced = days.filter(day => day.participation)
+  const lateDowngrade = levels.length >= 2
+    && finalDay.participation !== null
+    && daysBeforeKickoff <= LATE_WEEK_DAYS
+    && last < levels[levels.length - 2]
+    && daysBetween(practiced[practiced.length - 2].report_date, finalDay.report_date) === 1
+  const routineMaintenance = !lateDowngrade
+    && last === PARTICIPATION_LEVELS.full
+    && levels.some(level => level < PARTICIPATION_LEVELS.full)
+    && !['out', 'doubtful', 'questionable'].includes((gameStatus ?? '').toLowerCase())
+  return {
+    trajectory,
+    pattern: lateDowngrade ? 'late_downgrade' : routineMaintenance ? 'routine_maintenance' : trajectory,
+    late_downgrade: lateDowngrade,
+    routine_maintenance: routineMaintenance,
+    latest_participation: finalDay.participation,
+    game_status: gameStatus,
+    days_before_kickoff: daysBeforeKickoff,
+    missing_days: missingDays,
+    days,
+  }
+}
+
+type DesignationSample = {
+  designation: string
+  group: string
+  practice: PracticeParticipation | 'none'
+  played: boolean
+  relativeShare: number | null
+}
+
+type AvailabilityReference = {
+  play_probability: number
+  relative_snap_share: number | null
+  expected_availability: number
+  expected_loss: number
+  samples: number
+  basis: 'designation_position_practice' | 'designation_position' | 'designation'
+}
+
+// Smaller cells fall back to a broader designation grouping rather than report a noisy rate.
+const MIN_REFERENCE_SAMPLES = 20
+
+function positionGroup(position: string | undefined): string {
+  const code = (position ?? '').toUpperCase()
+  if (code === 'QB') return 'QB'
+  if (['RB', 'FB', 'HB'].includes(code)) return 'RB'
+  if (code === 'WR' || code === 'TE') return code
+  if (OFFENSIVE_LINE_POSITIONS.has(code)) return 'OL'
+  if (['DE', 'DT', 'NT', 'DL', 'EDGE'].includes(code)) return 'DL'
+  if (['LB', 'ILB', 'OLB', 'MLB'].includes(code)) return 'LB'
+  if (['CB', 'S', 'SS', 'FS', 'DB'].includes(code)) return 'DB'
+  if (SPECIAL_TEAMS_POSITIONS.has(code)) return 'ST'
+  return 'OTHER'
+}
+
+// Joins each past report to that week's snap counts. A player who played is compared with the same
+// player's share in undesignated weeks, so a part-time role is not mistaken for a limited one.
+function designationSamples(params: {
+  injuryRows: CsvRow[]
+  snapRows: CsvRow[]
+  season: number
+  beforeWeek?: number
+}): DesignationSample[] {
+  const shares = new Map<string, number>()
+  const teamWeeks = new Set<string>()
+  for (const row of params.snapRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    const team = normalizeTeamCode(row.team)
+    if (!team || !row.player) continue
+    teamWeeks.add(`${row.week}:${team}`)
+    const share = Math.max(numeric(row.offense_pct), numeric(row.defense_pct), numeric(row.st_pct))
+    if (share > 0) shares.set(`${row.week}:${playerNameKey(team, row.player)}`, share)
+  }
+  const reports = params.injuryRows.flatMap(row => {
+    const team = normalizeTeamCode(row.team)
+    if (!team || !row.full_name || !inRegularSeasonWindow(row, params.season, params.beforeWeek)) return []
+    if (!teamWeeks.has(`${row.week}:${team}`)) return []
+    return [{ row, week: row.week, player: playerNameKey(team, row.full_name) }]
+  })
+  const designated = new Set(reports
+    .filter(report => report.row.report_status)
+    .map(report => `${report.week}:${report.player}`))
+  const baselines = new Map<string, number[]>()
+  for (const [key, share] of shares) {
+    if (designated.has(key)) continue
+    const player = key.slice(key.indexOf(':') + 1)
+    baselines.set(player, [...(baselines.get(player) ?? []), share])
+  }
+  return reports.map(({ row, week, player }) => {
+    const share = shares.get(`${week}:${player}`)
+    const baseline = mean(baselines.get(player) ?? [])
+    return {
+      designation: (row.report_status || 'none').toLowerCase(),
+      group: positionGroup(row.position),
+      practice: practiceParticipation(row.practice_status) ?? 'none',
+      played: share !== undefined,
+      relativeShare: share === undefined ? 0 : baseline ? Math.min(share / baseline, 1) : null,
+    }
+  })
+}
+
+function availabilityReference(
+  samples: DesignationSample[],
+  report: { designation: string; group: string; practice: PracticeParticipation | 'none' },
+): AvailabilityReference | null {
+  const levels: Array<[AvailabilityReference['basis'], (sample: DesignationSample) => boolean]> = [
+    ['designation_position_practice', sample => (
+      sample.designation === report.designation && sample.group === report.group && sample.practice === report.practice
+    )],
+    ['designation_position', sample => sample.designation === report.designation && sample.group === report.group],
+    ['designation', sample => sample.designation === report.designation],
+  ]
+  for (const [basis, matches] of levels) {
+    const cell = samples.filter(matches)
+    if (cell.length < MIN_REFERENCE_SAMPLES) continue
+    const playProbability = cell.filter(sample => sample.played).length / cell.length
+    const activeShares = cell.flatMap(sample => sample.played && sample.relativeShare !== null ? [sample.relativeShare] : [])
+    const relativeShare = activeShares.length ? mean(activeShares) : null
+    const expectedAvailability = playProbability * (relativeShare ?? 1)
+    return {
+      play_probability: Number(playProbability.toFixed(3)),
+      relative_snap_share: relativeShare === null ? null : Number(relativeShare.toFixed(3)),
+      expected_availability: Number(expectedAvailability.toFixed(3)),
+      expected_loss: Number((1 - expectedAvailability).toFixed(3)),
+      samples: cell.length,
+      basis,
+    }
+  }
+  return null
+}
+
+export function attachPracticeTrajectories(params: {
+  feed: IngestionFeedResult
+  history: Observation[]
+  now: Date
+}): IngestionFeedResult {
+  const checkedAt = params.now.toISOString()
+  const key = (observation: Observation) => `${observation.game_id}:${observation.subject.id}`
+  const latest = new Map<string, Observation>()
+  for (const observation of params.feed.observations) {
+    if (observation.metric === 'player.practice_report') latest.set(key(observation), observation)
+  }
+  const trajectories = [...latest.values()].flatMap(current => {
+    const reports = [
+      ...params.history,
+      ...params.feed.observations,
+    ].filter(item => item.metric === current.metric && key(item) === key(current))
+    const profile = practiceTrajectory(reports, current.effective_at)
+    if (profile.days.length < 2) return []
+    const rawImport = createRawImport({
+      provider: 'swantail',
+      feed: 'practice-trajectory',
+      sourceUrl: current.source.source_url,
+      fetchedAt: checkedAt,
+      payload: { game_id: current.game_id, player_id: current.subject.id, days: profile.days },
+    })
+    const observation = createObservation({
+      gameId: current.game_id,
+      agentId: 'injury',
+      kind: 'report',
+      subject: current.subject,
+      metric: 'player.practice_trajectory',
+      value: {
+        reports: profile.days.length,
+        first_report_date: profile.days[0].report_date,
+        ...profile,
+      },
+      source: {
+        provider: 'swantail',
+        feed: 'practice-trajectory',
+        quality: 'internal',
+        source_url: current.source.source_url,
+      },
+      observedAt: current.observed_at,
+      effectiveAt: current.effective_at,
+      expiresAt: current.expires_at,
+      importedAt: checkedAt,
+      rawImportId: rawImport.raw_import_id,
+    })
+    return [{ observation, rawImport }]
+  })
+  if (!trajectories.length) return params.feed
+  const gameStates = { ...params.feed.game_states }
+  for (const { observation } of trajectories) {
+    const current = gameStates[observation.game_id]
+    if (current) gameStates[observation.game_id] = { ...current, observation_count: current.observation_count + 1 }
+  }
+  return IngestionFeedResultSchema.parse({
+    ...params.feed,
+    raw_imports: [...params.feed.raw_imports, ...trajectories.map(item => item.rawImport)],
+    observations: [...params.feed.observations, ...trajectories.map(item => item.observation)],
+    game_states: gameStates,
+  })
+}
+
 export const nflverseInjuryProvider: ObservationProvider = {
   agentIds: ['injury'],
   async collect(context): Promise<IngestionFeedResult> {
@@ -109,6 +641,7 @@ export const nflverseInjuryProvider: ObservationProvider = {
         && team !== null
         && teams.has(team)
         && Boolean(row.report_status || row.practice_status)
+        && publishedBy(row, context.now)
     })
     const rawImport = createRawImport({
       provider: 'nflverse',
@@ -121,6 +654,61 @@ export const nflverseInjuryProvider: ObservationProvider = {
     const observations: Observation[] = []
     const gameCounts = new Map<string, number>()
 
+    // Replacement quality is enrichment: a missing depth chart, snap, or stat file leaves the reports intact.
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const depthUrl = `${NFLVERSE_RELEASE_ROOT}/depth_charts/depth_charts_${context.season}.csv`
+    const snapUrl = `${NFLVERSE_RELEASE_ROOT}/snap_counts/snap_counts_${dataSeason}.csv`
+    const statUrl = `${NFLVERSE_RELEASE_ROOT}/stats_player/stats_player_week_${dataSeason}.csv`
+    const [depth, snaps, stats] = await Promise.all([depthUrl, snapUrl, statUrl].map(source => (
+      fetchCsv(context, source).then(download => download.rows).catch(() => [] as CsvRow[])
+    )))
+    const profiles = replacementProfiles({
+      charts: latestDepthCharts({
+        rows: depth,
+        teams,
+        season: context.season,
+        week: context.week,
+        now: context.now,
+      }),
+      statuses: reportStatuses(relevantRows, context.season, context.week),
+      usage: indexUsage({
+        snapRows: snaps,
+        statRows: stats,
+        season: dataSeason,
+        beforeWeek: useCurrentSeason ? context.week : undefined,
+      }),
+    })
+    // Designation outcomes come from the prior season plus completed current-season weeks.
+    const historyInjuryUrl = `${NFLVERSE_RELEASE_ROOT}/injuries/injuries_${context.season - 1}.csv`
+    const historySnapUrl = `${NFLVERSE_RELEASE_ROOT}/snap_counts/snap_counts_${context.season - 1}.csv`
+    const [historyInjuries, historySnaps] = await Promise.all([historyInjuryUrl, historySnapUrl].map(source => (
+      fetchCsv(context, source).then(download => download.rows).catch(() => [] as CsvRow[])
+    )))
+    const designationHistory = [
+      ...designationSamples({
+        injuryRows: historyInjuries,
+        snapRows: historySnaps,
+        season: context.season - 1,
+      }),
+      ...(useCurrentSeason
+        ? designationSamples({ injuryRows: rows, snapRows: snaps, season: context.season, beforeWeek: context.week })
+        : []),
+    ]
+    const depthImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'depth-charts',
+      sourceUrl: depthUrl,
+      fetchedAt: checkedAt,
+      payload: { sources: [depthUrl, snapUrl, statUrl], profiles },
+    })
+    const usageValue = (usage: PlayerUsage) => ({
+      games: usage.games,
+      snap_share: roundedOrNull(usage.snapShare, 3),
+      production_per_game: roundedOrNull(usage.productionPerGame, 3),
+    })
+
+    const practiceDays = new Set<string>()
     for (const row of relevantRows) {
       const team = normalizeTeamCode(row.team)
       if (!team) continue
@@ -128,13 +716,14 @@ export const nflverseInjuryProvider: ObservationProvider = {
         candidate.away_team === team || candidate.home_team === team
       ))
       if (!game) continue
+      const playerId = row.gsis_id || `${team}:${row.full_name}`
       observations.push(createObservation({
         gameId: game.game_id,
         agentId: 'injury',
         kind: 'report',
         subject: {
           type: 'player',
-          id: row.gsis_id || `${team}:${row.full_name}`,
+          id: playerId,
           label: row.full_name,
           team,
         },
@@ -144,6 +733,13 @@ export const nflverseInjuryProvider: ObservationProvider = {
           report_status: row.report_status || null,
           primary_injury: row.report_primary_injury || row.practice_primary_injury || null,
           practice_status: row.practice_status || null,
+          availability_reference: row.report_status
+            ? availabilityReference(designationHistory, {
+                designation: row.report_status.toLowerCase(),
+                group: positionGroup(row.position),
+                practice: practiceParticipation(row.practice_status) ?? 'none',
+              })
+            : null,
         },
         source: {
           provider: 'nflverse',
@@ -154,12 +750,98 @@ export const nflverseInjuryProvider: ObservationProvider = {
         },
         observedAt,
         effectiveAt: game.kickoff,
-        expiresAt: new Date(Date.parse(game.kickoff) + 6 * 60 * 60 * 1000).toISOString(),
+        expiresAt: gameExpiry(game),
         importedAt: checkedAt,
         rawImportId: rawImport.raw_import_id,
         providerRecordId: `${context.season}:${context.week}:${row.gsis_id || row.full_name}`,
       }))
       gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+
+      // Each daily report is kept as its own observation so stored snapshots accumulate the week. Only the
+      // row's own modification time places it on a report day; the pull time would restamp an unchanged row.
+      if (!row.date_modified || Number.isNaN(Date.parse(row.date_modified))) continue
+      const reportDay = easternReportDay(row.date_modified)
+      const practiceKey = `${game.game_id}:${playerId}:${reportDay.date}`
+      if (practiceDays.has(practiceKey)) continue
+      practiceDays.add(practiceKey)
+      observations.push(createObservation({
+        gameId: game.game_id,
+        agentId: 'injury',
+        kind: 'report',
+        subject: { type: 'player', id: playerId, label: row.full_name, team },
+        metric: 'player.practice_report',
+        value: {
+          report_date: reportDay.date,
+          report_day: reportDay.day,
+          practice_status: row.practice_status || null,
+          participation: practiceParticipation(row.practice_status),
+          report_status: row.report_status || null,
+          primary_injury: row.practice_primary_injury || row.report_primary_injury || null,
+        },
+        source: {
+          provider: 'nflverse',
+          feed: 'injuries',
+          quality: 'research',
+          source_url: url,
+          terms_url: NFLVERSE_TERMS_URL,
+        },
+        observedAt,
+        effectiveAt: game.kickoff,
+        expiresAt: gameExpiry(game),
+        importedAt: checkedAt,
+        rawImportId: rawImport.raw_import_id,
+        providerRecordId: `${context.season}:${context.week}:${playerId}:${reportDay.date}`,
+      }))
+      gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+    }
+
+    for (const profile of profiles) {
+      const { starter, replacement } = profile
+      const game = context.games.find(candidate => (
+        candidate.away_team === starter.team || candidate.home_team === starter.team
+      ))
+      if (!game) continue
+      const starterShare = profile.starterUsage.snapShare
+      const replacementShare = replacement ? replacement.usage.snapShare ?? 0 : 0
+      observations.push(createObservation({
+        gameId: game.game_id,
+        agentId: 'injury',
+        kind: 'measurement',
+        subject: { type: 'player', id: starter.playerId, label: starter.name, team: starter.team },
+        metric: 'player.replacement_profile',
+        value: {
+          role: starter.position,
+          report_status: profile.reportStatus,
+          starter: usageValue(profile.starterUsage),
+          replacement: replacement
+            ? {
+              player_id: replacement.playerId,
+              name: replacement.name,
+              depth_chart_rank: replacement.rank,
+              report_status: replacement.reportStatus,
+              ...usageValue(replacement.usage),
+            }
+            : null,
+          production_metric: productionMetric(starter.position),
+          snap_share_gap: starterShare === null ? null : Number((starterShare - replacementShare).toFixed(3)),
+          data_season: dataSeason,
+          through_week: useCurrentSeason ? context.week - 1 : 'final',
+        },
+        source: {
+          provider: 'nflverse',
+          feed: 'depth-charts',
+          quality: 'research',
+          source_url: depthUrl,
+          terms_url: NFLVERSE_TERMS_URL,
+        },
+        observedAt,
+        effectiveAt: game.kickoff,
+        expiresAt: gameExpiry(game),
+        importedAt: checkedAt,
+        rawImportId: depthImport.raw_import_id,
+        providerRecordId: `${context.season}:${context.week}:${starter.playerId}:replacement`,
+      }))
+      gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
     }
 
     const gameStates = Object.fromEntries(context.games.map(game => {
@@ -177,7 +859,7 @@ export const nflverseInjuryProvider: ObservationProvider = {
       feed: 'injuries',
       state: observations.length ? 'available' : 'missing',
       checked_at: checkedAt,
-      raw_imports: [rawImport],
+      raw_imports: profiles.length ? [rawImport, depthImport] : [rawImport],
       observations,
       game_states: gameStates,
     })
@@ -194,6 +876,7 @@ type TeamPerformance = {
   dropbacks: number
   carries: number
   passingInterceptions: number
+  fumbles: number
   fumblesLost: number
   giveawaysPerGame: number
   interceptionRate: number
@@ -201,6 +884,7 @@ type TeamPerformance = {
   opponentFumbleRecoveries: number
   takeawaysPerGame: number
   defensiveForcedFumbles: number
+  passesDefended: number
   sacksSuffered: number
   sackRateAllowed: number
   rushingEpa: number
@@ -240,10 +924,12 @@ function aggregateTeamPerformance(rows: CsvRow[], season: number, beforeWeek?: n
       dropbacks: 0,
       carries: 0,
       passingInterceptions: 0,
+      fumbles: 0,
       fumblesLost: 0,
       defensiveInterceptions: 0,
       opponentFumbleRecoveries: 0,
       defensiveForcedFumbles: 0,
+      passesDefended: 0,
       sacksSuffered: 0,
       rushingEpa: 0,
       defensiveSacks: 0,
@@ -260,10 +946,12 @@ function aggregateTeamPerformance(rows: CsvRow[], season: number, beforeWeek?: n
     current.dropbacks += attempts + sacksSuffered
     current.carries += carries
     current.passingInterceptions += numeric(row.passing_interceptions)
+    current.fumbles += numeric(row.sack_fumbles) + numeric(row.rushing_fumbles) + numeric(row.receiving_fumbles)
     current.fumblesLost += numeric(row.fumbles_lost_total)
     current.defensiveInterceptions += numeric(row.def_interceptions)
     current.opponentFumbleRecoveries += numeric(row.fumble_recovery_opp)
     current.defensiveForcedFumbles += numeric(row.def_fumbles_forced)
+    current.passesDefended += numeric(row.def_pass_defended)
     current.sacksSuffered += sacksSuffered
     current.rushingEpa += numeric(row.rushing_epa)
     current.defensiveSacks += numeric(row.def_sacks)
@@ -295,10 +983,264 @@ function aggregateTeamPerformance(rows: CsvRow[], season: number, beforeWeek?: n
   }))
 }
 
-function rankBy(
-  performance: TeamPerformance[],
+type OpponentSample = {
+  team: TeamCode
+  opponent: TeamCode
+  total: number
+  weight: number
+}
+
+type OpponentAdjustedRate = {
+  for: number
+  against: number
+}
+
+const ADJUSTMENT_TOLERANCE = 1e-6
+const ADJUSTMENT_MAX_ITERATIONS = 100
+
+// Alternates between crediting each team for its opponents' allowance and each defense for the teams it
+// faced until no rating moves by more than the tolerance. Allowances are centered on the league rate.
+function opponentAdjust(samples: OpponentSample[]): Map<TeamCode, OpponentAdjustedRate> {
+  const totalWeight = samples.reduce((total, sample) => total + sample.weight, 0)
+  if (!totalWeight) return new Map()
+  const league = samples.reduce((total, sample) => total + sample.total, 0) / totalWeight
+  const teams = [...new Set(samples.flatMap(sample => [sample.team, sample.opponent]))]
+  const played = new Map(teams.map(team => [team, samples.filter(sample => sample.team === team)]))
+  const faced = new Map(teams.map(team => [team, samples.filter(sample => sample.opponent === team)]))
+  const residual = (selected: OpponentSample[], rating: (sample: OpponentSample) => number) => {
+    const weight = selected.reduce((total, sample) => total + sample.weight, 0)
+    return weight
+      ? selected.reduce((total, sample) => total + sample.total - sample.weight * (league + rating(sample)), 0) / weight
+      : 0
+  }
+  let strength = new Map(teams.map(team => [team, 0]))
+  let allowance = new Map(teams.map(team => [team, 0]))
+  for (let iteration = 0; iteration < ADJUSTMENT_MAX_ITERATIONS; iteration += 1) {
+    const nextStrength = new Map(teams.map(team => [
+      team,
+      residual(played.get(team)!, sample => allowance.get(sample.opponent)!),
+    ]))
+    const rawAllowance = teams.map(team => residual(faced.get(team)!, sample => nextStrength.get(sample.team)!))
+    const center = mean(rawAllowance)
+    const nextAllowance = new Map(teams.map((team, index) => [team, rawAllowance[index] - center]))
+    const change = Math.max(...teams.map(team => Math.max(
+      Math.abs(nextStrength.get(team)! - strength.get(team)!),
+      Math.abs(nextAllowance.get(team)! - allowance.get(team)!),
+    )))
+    strength = nextStrength
+    allowance = nextAllowance
+    if (change < ADJUSTMENT_TOLERANCE) break
+  }
+  return new Map(teams.map(team => [team, {
+    for: league + strength.get(team)!,
+    against: league + allowance.get(team)!,
+  }]))
+}
+
+type AdjustedPerformance = Pick<TeamPerformance,
+  | 'team'
+  | 'offensiveEpaPerPlay'
+  | 'giveawaysPerGame'
+  | 'takeawaysPerGame'
+  | 'sackRateAllowed'
+  | 'rushingEpaPerCarry'
+  | 'disruptionPerGame'
+  | 'tacklesForLossPerGame'
+>
+
+// Requires the weekly opponent column; older extracts without it produce no adjusted baseline.
+function opponentAdjustedPerformance(rows: CsvRow[], season: number, beforeWeek?: number): AdjustedPerformance[] {
+  const weeks = rows.flatMap(row => {
+    if (!inRegularSeasonWindow(row, season, beforeWeek)) return []
+    const team = normalizeTeamCode(row.team)
+    const opponent = normalizeTeamCode(row.opponent_team)
+    return team && opponent ? [{ team, opponent, row }] : []
+  })
+  if (!weeks.length) return []
+  const adjust = (sample: (row: CsvRow) => { total: number; weight: number }) => opponentAdjust(
+    weeks.map(week => ({ team: week.team, opponent: week.opponent, ...sample(week.row) })),
+  )
+  const perGame = (total: (row: CsvRow) => number) => adjust(row => ({ total: total(row), weight: 1 }))
+  const offensiveEpa = adjust(row => ({
+    total: numeric(row.passing_epa) + numeric(row.rushing_epa),
+    weight: numeric(row.attempts) + numeric(row.carries) + numeric(row.sacks_suffered),
+  }))
+  const giveaways = perGame(row => numeric(row.passing_interceptions) + numeric(row.fumbles_lost_total))
+  const takeaways = perGame(row => numeric(row.def_interceptions) + numeric(row.fumble_recovery_opp))
+  const sackRate = adjust(row => ({
+    total: numeric(row.sacks_suffered),
+    weight: numeric(row.attempts) + numeric(row.sacks_suffered),
+  }))
+  const rushingEpa = adjust(row => ({ total: numeric(row.rushing_epa), weight: numeric(row.carries) }))
+  const disruption = perGame(row => numeric(row.def_sacks) + numeric(row.def_qb_hits))
+  const tacklesForLoss = perGame(row => numeric(row.def_tackles_for_loss))
+  return [...new Set(weeks.map(week => week.team))].map(team => ({
+    team,
+    offensiveEpaPerPlay: offensiveEpa.get(team)?.for ?? 0,
+    giveawaysPerGame: giveaways.get(team)?.for ?? 0,
+    takeawaysPerGame: takeaways.get(team)?.for ?? 0,
+    sackRateAllowed: sackRate.get(team)?.for ?? 0,
+    rushingEpaPerCarry: rushingEpa.get(team)?.for ?? 0,
+    disruptionPerGame: disruption.get(team)?.for ?? 0,
+    tacklesForLossPerGame: tacklesForLoss.get(team)?.for ?? 0,
+  }))
+}
+
+// A loose ball is close to a coin flip, so half of all fumbles is the expected recovery split.
+const EXPECTED_FUMBLE_RECOVERY_RATE = 0.5
+
+type TurnoverLuck = {
+  team: TeamCode
+  fumbles: number
+  fumblesLost: number
+  expectedFumblesLost: number
+  badThrows: number | null
+  interceptions: number
+  expectedInterceptions: number
+  expectedGiveawaysPerGame: number
+  giveawaysPerGame: number
+  forcedFumbles: number
+  fumbleRecoveries: number
+  expectedRecoveries: number
+  passesDefended: number | null
+  defensiveInterceptions: number
+  expectedDefensiveInterceptions: number
+  expectedTakeawaysPerGame: number
+  takeawaysPerGame: number
+  netLuckPerGame: number
+}
+
+function turnoverLuckValue(luck: TurnoverLuck[], team: TeamCode): Record<string, unknown> | null {
+  const teamLuck = luck.find(candidate => candidate.team === team)
+  if (!teamLuck) return null
+  const round = (value: number) => Number(value.toFixed(3))
+  return {
+    fumbles: teamLuck.fumbles,
+    fumbles_lost: teamLuck.fumblesLost,
+    expected_fumbles_lost: round(teamLuck.expectedFumblesLost),
+    bad_throws: teamLuck.badThrows,
+    interceptions: teamLuck.interceptions,
+    expected_interceptions: round(teamLuck.expectedInterceptions),
+    interception_basis: teamLuck.badThrows === null ? 'actual' : 'bad_throws',
+    expected_giveaways_per_game: round(teamLuck.expectedGiveawaysPerGame),
+    expected_giveaway_rank: rankBy(luck, team, candidate => candidate.expectedGiveawaysPerGame, 'ascending'),
+    // The recorded rates, before any prior-season blend or opponent adjustment.
+    actual_giveaways_per_game: round(teamLuck.giveawaysPerGame),
+    forced_fumbles: teamLuck.forcedFumbles,
+    fumble_recoveries: teamLuck.fumbleRecoveries,
+    expected_recoveries: round(teamLuck.expectedRecoveries),
+    passes_defended: teamLuck.passesDefended,
+    defensive_interceptions: teamLuck.defensiveInterceptions,
+    expected_defensive_interceptions: round(teamLuck.expectedDefensiveInterceptions),
+    takeaway_interception_basis: teamLuck.passesDefended === null ? 'actual' : 'passes_defended',
+    expected_takeaways_per_game: round(teamLuck.expectedTakeawaysPerGame),
+    expected_takeaway_rank: rankBy(luck, team, candidate => candidate.expectedTakeawaysPerGame, 'descending'),
+    actual_takeaways_per_game: round(teamLuck.takeawaysPerGame),
+    net_luck_per_game: round(teamLuck.netLuckPerGame),
+  }
+}
+
+function badThrowsByTeam(rows: CsvRow[], season: number, beforeWeek?: number): Map<TeamCode, number> {
+  const totals = new Map<TeamCode, number>()
+  for (const row of rows) {
+    if (!inRegularSeasonWindow(row, season, beforeWeek) || row.passing_bad_throws === undefined) continue
+    const team = normalizeTeamCode(row.team)
+    if (!team) continue
+    totals.set(team, (totals.get(team) ?? 0) + numeric(row.passing_bad_throws))
+  }
+  return totals
+}
+
+// Separates each team's turnover results into an opportunity-based expectation and the residual luck.
+// Interceptions are expected from charted bad throws and passes defended at the league conversion rate;
+// without those inputs the actual interceptions stand in for the expectation.
+function turnoverLuck(performance: TeamPerformance[], badThrows: Map<TeamCode, number>): TurnoverLuck[] {
+  const sum = (value: (team: TeamPerformance) => number) => performance.reduce((total, team) => total + value(team), 0)
+  const leagueBadThrows = [...badThrows.values()].reduce((total, value) => total + value, 0)
+  const interceptionsPerBadThrow = leagueBadThrows ? sum(team => team.passingInterceptions) / leagueBadThrows : null
+  const leaguePassesDefended = sum(team => team.passesDefended)
+  const interceptionsPerPassDefended = leaguePassesDefended
+    ? sum(team => team.defensiveInterceptions) / leaguePassesDefended
+    : null
+  return performance.map(team => {
+    const teamBadThrows = interceptionsPerBadThrow === null ? null : badThrows.get(team.team) ?? null
+    const expectedFumblesLost = team.fumbles * EXPECTED_FUMBLE_RECOVERY_RATE
+    const expectedInterceptions = teamBadThrows === null
+      ? team.passingInterceptions
+      : teamBadThrows * interceptionsPerBadThrow!
+    const expectedRecoveries = team.defensiveForcedFumbles * EXPECTED_FUMBLE_RECOVERY_RATE
+    const expectedDefensiveInterceptions = interceptionsPerPassDefended === null
+      ? team.defensiveInterceptions
+      : team.passesDefended * interceptionsPerPassDefended
+    const perGame = (value: number) => team.games ? value / team.games : 0
+    const giveawayLuck = (expectedFumblesLost - team.fumblesLost) + (expectedInterceptions - team.passingInterceptions)
+    const takeawayLuck = (team.opponentFumbleRecoveries - expectedRecoveries)
+      + (team.defensiveInterceptions - expectedDefensiveInterceptions)
+    return {
+      team: team.team,
+      fumbles: team.fumbles,
+      fumblesLost: team.fumblesLost,
+      expectedFumblesLost,
+      badThrows: teamBadThrows,
+      interceptions: team.passingInterceptions,
+      expectedInterceptions,
+      expectedGiveawaysPerGame: perGame(expectedFumblesLost + expectedInterceptions),
+      giveawaysPerGame: team.giveawaysPerGame,
+      forcedFumbles: team.defensiveForcedFumbles,
+      fumbleRecoveries: team.opponentFumbleRecoveries,
+      expectedRecoveries,
+      passesDefended: interceptionsPerPassDefended === null ? null : team.passesDefended,
+      defensiveInterceptions: team.defensiveInterceptions,
+      expectedDefensiveInterceptions,
+      expectedTakeawaysPerGame: perGame(expectedRecoveries + expectedDefensiveInterceptions),
+      takeawaysPerGame: team.takeawaysPerGame,
+      netLuckPerGame: perGame(giveawayLuck + takeawayLuck),
+    }
+  })
+}
+
+const PRIOR_GAMES_EQUIVALENT = 4
+
+const BLENDED_RATES = [
+  'offensiveEpaPerPlay',
+  'giveawaysPerGame',
+  'takeawaysPerGame',
+  'sackRateAllowed',
+  'rushingEpaPerCarry',
+  'disruptionPerGame',
+  'tacklesForLossPerGame',
+] as const
+
+type RegressionTarget = 'prior_season' | 'league_mean'
+
+// Share of a blended rate carried by the team's own sample; the rest comes from the regression target.
+function reliabilityWeight(games: number): number {
+  return games / (games + PRIOR_GAMES_EQUIVALENT)
+}
+
+// Regresses each current-season rate toward the team's prior-season rate, or the current league mean
+// when the team has no prior sample, weighted by how many games the current sample holds.
+function regressToPrior<T extends Pick<TeamPerformance, 'team' | typeof BLENDED_RATES[number]>>(params: {
+  current: T[]
+  prior: T[]
+  games: (team: TeamCode) => number
+}): Array<T & { regressionTarget: RegressionTarget }> {
+  return params.current.map(team => {
+    const prior = params.prior.find(candidate => candidate.team === team.team)
+    const weight = reliabilityWeight(params.games(team.team))
+    const blended = { ...team, regressionTarget: prior ? 'prior_season' as const : 'league_mean' as const }
+    for (const key of BLENDED_RATES) {
+      const target = prior ? prior[key] : mean(params.current.map(candidate => candidate[key]))
+      blended[key] = weight * team[key] + (1 - weight) * target
+    }
+    return blended
+  })
+}
+
+function rankBy<T extends { team: TeamCode }>(
+  performance: T[],
   team: TeamCode,
-  value: (candidate: TeamPerformance) => number,
+  value: (candidate: T) => number,
   direction: 'ascending' | 'descending',
 ): number {
   const ranked = [...performance].sort((left, right) => (
@@ -307,49 +1249,309 @@ function rankBy(
   return ranked.findIndex(candidate => candidate.team === team) + 1
 }
 
-export const nflverseTeamStatsProvider: ObservationProvider = {
-  agentIds: ['epa', 'turnovers', 'trenches'],
-  async collect(context): Promise<IngestionFeedResult> {
-    const checkedAt = context.now.toISOString()
-    const useCurrentSeason = context.week > 1
-    const dataSeason = useCurrentSeason ? context.season : context.season - 1
-    const file = `stats_team_week_${dataSeason}.csv`
-    const url = `${NFLVERSE_RELEASE_ROOT}/stats_team/${file}`
-    let response: Response
-    let rows: CsvRow[]
-    try {
-      ({ response, rows } = await fetchCsv(context, url))
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'nflverse team stats feed failed'
-      return failedFeed({
-        context,
-        feed: 'team-stats',
-        state: message.includes('404') ? 'missing' : 'degraded',
-        message,
-      })
-    }
+type PhaseEfficiency = {
+  plays: number
+  epaPerPlay: number
+  successRate: number
+  explosiveRate: number
+}
 
-    const performance = aggregateTeamPerformance(rows, dataSeason, useCurrentSeason ? context.week : undefined)
-    const rawImport = createRawImport({
-      provider: 'nflverse',
-      feed: 'team-stats',
-      sourceUrl: url,
-      fetchedAt: checkedAt,
-      payload: performance,
-    })
-    const observedAt = fetchedObservationTime(response, checkedAt)
-    const observations: Observation[] = []
-    const gameCounts = new Map<string, number>()
+type UnitEfficiency = PhaseEfficiency & {
+  pass: PhaseEfficiency
+  run: PhaseEfficiency
+  redZoneTrips: number
+  redZoneTouchdownRate: number
+}
 
-    for (const game of context.games) {
-      for (const team of [game.away_team, game.home_team]) {
-        const teamPerformance = performance.find(candidate => candidate.team === team)
+type AdjustedUnitEpa = {
+  epaPerPlay: number
+  pass: number
+  run: number
+}
+
+type TeamEfficiency = {
+  team: TeamCode
+  games: number
+  offense: UnitEfficiency
+  defense: UnitEfficiency
+  adjusted: { offense: AdjustedUnitEpa; defense: AdjustedUnitEpa } | null
+}
+
+type PhaseTotal = { plays: number; epa: number; successes: number; explosives: number }
+type UnitTotal = { pass: PhaseTotal; run: PhaseTotal; redZoneDrives: Set<string>; touchdownDrives: Set<string> }
+
+const EXPLOSIVE_PASS_YARDS = 20
+const EXPLOSIVE_RUN_YARDS = 10
+
+function phaseEfficiency(total: PhaseTotal): PhaseEfficiency {
+  return {
+    plays: total.plays,
+    epaPerPlay: total.plays ? total.epa / total.plays : 0,
+    successRate: total.plays ? total.successes / total.plays : 0,
+    explosiveRate: total.plays ? total.explosives / total.plays : 0,
+  }
+}
+
+function unitEfficiency(total: UnitTotal): UnitEfficiency {
+  const combined = {
+    plays: total.pass.plays + total.run.plays,
+    epa: total.pass.epa + total.run.epa,
+    successes: total.pass.successes + total.run.successes,
+    explosives: total.pass.explosives + total.run.explosives,
+  }
+  const touchdowns = [...total.redZoneDrives].filter(drive => total.touchdownDrives.has(drive)).length
+  return {
+    ...phaseEfficiency(combined),
+    pass: phaseEfficiency(total.pass),
+    run: phaseEfficiency(total.run),
+    redZoneTrips: total.redZoneDrives.size,
+    redZoneTouchdownRate: total.redZoneDrives.size ? touchdowns / total.redZoneDrives.size : 0,
+  }
+}
+
+// Each snap counts once for the offense that ran it and once against the defense that faced it.
+function aggregateTeamEfficiency(rows: CsvRow[], season: number, beforeWeek?: number): TeamEfficiency[] {
+  const emptyUnit = (): UnitTotal => ({
+    pass: { plays: 0, epa: 0, successes: 0, explosives: 0 },
+    run: { plays: 0, epa: 0, successes: 0, explosives: 0 },
+    redZoneDrives: new Set<string>(),
+    touchdownDrives: new Set<string>(),
+  })
+  const totals = new Map<TeamCode, { games: Set<string>; offense: UnitTotal; defense: UnitTotal }>()
+  const gameSamples = new Map<string, OpponentSample & { phase: 'pass' | 'run' }>()
+  for (const row of rows) {
+    if (!inRegularSeasonWindow(row, season, beforeWeek)) continue
+    if (row.play_type !== 'pass' && row.play_type !== 'run') continue
+    const offense = normalizeTeamCode(row.posteam)
+    const defense = normalizeTeamCode(row.defteam)
+    const epa = Number(row.epa)
+    if (!offense || !defense || !row.epa || !Number.isFinite(epa)) continue
+    const phase = row.play_type
+    const yards = numeric(row.yards_gained)
+    const explosive = yards >= (phase === 'pass' ? EXPLOSIVE_PASS_YARDS : EXPLOSIVE_RUN_YARDS)
+    const success = row.success ? numeric(row.success) === 1 : epa > 0
+    const driveKey = `${row.game_id}:${offense}:${row.fixed_drive || row.drive}`
+    const yardline = Number(row.yardline_100)
+    const touchdown = numeric(row.pass_touchdown) === 1 || numeric(row.rush_touchdown) === 1
+    const sampleKey = `${row.game_id}:${offense}:${phase}`
+    const sample = gameSamples.get(sampleKey) ?? { team: offense, opponent: defense, phase, total: 0, weight: 0 }
+    sample.total += epa
+    sample.weight += 1
+    gameSamples.set(sampleKey, sample)
+    for (const [team, side] of [[offense, 'offense'], [defense, 'defense']] as const) {
+      const current = totals.get(team) ?? { games: new Set<string>(), offense: emptyUnit(), defense: emptyUnit() }
+      const unit = current[side]
+      current.games.add(row.game_id)
+      unit[phase].plays += 1
+      unit[phase].epa += epa
+      if (success) unit[phase].successes += 1
+      if (explosive) unit[phase].explosives += 1
+      if (row.yardline_100 && Number.isFinite(yardline) && yardline <= 20) unit.redZoneDrives.add(driveKey)
+      if (touchdown) unit.touchdownDrives.add(driveKey)
+      totals.set(team, current)
+    }
+  }
+  const samples = [...gameSamples.values()]
+  const overall = opponentAdjust(samples)
+  const pass = opponentAdjust(samples.filter(sample => sample.phase === 'pass'))
+  const run = opponentAdjust(samples.filter(sample => sample.phase === 'run'))
+  const adjustedUnit = (team: TeamCode, side: keyof OpponentAdjustedRate): AdjustedUnitEpa => ({
+    epaPerPlay: overall.get(team)?.[side] ?? 0,
+    pass: pass.get(team)?.[side] ?? 0,
+    run: run.get(team)?.[side] ?? 0,
+  })
+  return [...totals.entries()].map(([team, total]) => ({
+    team,
+    games: total.games.size,
+    offense: unitEfficiency(total.offense),
+    defense: unitEfficiency(total.defense),
+    adjusted: overall.has(team)
+      ? { offense: adjustedUnit(team, 'for'), defense: adjustedUnit(team, 'against') }
+      : null,
+  }))
+}
+
+const PHASE_RATES = ['epaPerPlay', 'successRate', 'explosiveRate'] as const
+
+// Each target list holds the team's prior-season split, or every current team's split for the league mean.
+function blendPhase(current: PhaseEfficiency, targets: PhaseEfficiency[], weight: number): PhaseEfficiency {
+  const blended = { ...current }
+  for (const key of PHASE_RATES) {
+    blended[key] = weight * current[key] + (1 - weight) * mean(targets.map(target => target[key]))
+  }
+  return blended
+}
+
+function blendUnit(current: UnitEfficiency, targets: UnitEfficiency[], weight: number): UnitEfficiency {
+  return {
+    ...blendPhase(current, targets, weight),
+    pass: blendPhase(current.pass, targets.map(target => target.pass), weight),
+    run: blendPhase(current.run, targets.map(target => target.run), weight),
+    redZoneTrips: current.redZoneTrips,
+    redZoneTouchdownRate: weight * current.redZoneTouchdownRate
+      + (1 - weight) * mean(targets.map(target => target.redZoneTouchdownRate)),
+  }
+}
+
+function blendAdjustedUnit(current: AdjustedUnitEpa, targets: AdjustedUnitEpa[], weight: number): AdjustedUnitEpa {
+  const blend = (key: keyof AdjustedUnitEpa) => weight * current[key] + (1 - weight) * mean(targets.map(target => target[key]))
+  return { epaPerPlay: blend('epaPerPlay'), pass: blend('pass'), run: blend('run') }
+}
+
+// The play-by-play splits regress the same way as the team-stats rates, by the games in the split's own sample.
+function regressEfficiencyToPrior(params: {
+  current: TeamEfficiency[]
+  prior: TeamEfficiency[]
+}): Array<TeamEfficiency & { regressionTarget: RegressionTarget }> {
+  const adjustedLeague = params.current.flatMap(team => team.adjusted ? [team.adjusted] : [])
+  return params.current.map(team => {
+    const prior = params.prior.find(candidate => candidate.team === team.team)
+    const weight = reliabilityWeight(team.games)
+    const targets = prior ? [prior] : params.current
+    const adjustedTargets = prior?.adjusted ? [prior.adjusted] : adjustedLeague
+    return {
+      ...team,
+      offense: blendUnit(team.offense, targets.map(target => target.offense), weight),
+      defense: blendUnit(team.defense, targets.map(target => target.defense), weight),
+      adjusted: team.adjusted
+        ? {
+            offense: blendAdjustedUnit(team.adjusted.offense, adjustedTargets.map(target => target.offense), weight),
+            defense: blendAdjustedUnit(team.adjusted.defense, adjustedTargets.map(target => target.defense), weight),
+          }
+        : null,
+      regressionTarget: prior ? 'prior_season' as const : 'league_mean' as const,
+    }
+  })
+}
+
+function roundedPhase(phase: PhaseEfficiency) {
+  return {
+    plays: phase.plays,
+    epa_per_play: Number(phase.epaPerPlay.toFixed(4)),
+    success_rate: Number(phase.successRate.toFixed(4)),
+    explosive_rate: Number(phase.explosiveRate.toFixed(4)),
+  }
+}
+
+export const nflverseTeamStatsProvider: ObservationProvider = {
+  agentIds: ['epa', 'turnovers', 'trenches'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const file = `stats_team_week_${dataSeason}.csv`
+    const url = `${NFLVERSE_RELEASE_ROOT}/stats_team/${file}`
+    let response: Response
+    let rows: CsvRow[]
+    try {
+      ({ response, rows } = await fetchCsv(context, url))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'nflverse team stats feed failed'
+      return failedFeed({
+        context,
+        feed: 'team-stats',
+        state: message.includes('404') ? 'missing' : 'degraded',
+        message,
+      })
+    }
+
+    const currentPerformance = aggregateTeamPerformance(rows, dataSeason, useCurrentSeason ? context.week : undefined)
+    const currentAdjusted = opponentAdjustedPerformance(rows, dataSeason, useCurrentSeason ? context.week : undefined)
+    const priorUrl = `${NFLVERSE_RELEASE_ROOT}/stats_team/stats_team_week_${dataSeason - 1}.csv`
+    const priorRows = useCurrentSeason
+      ? await fetchCsv(context, priorUrl).then(download => download.rows).catch(() => [] as CsvRow[])
+      : []
+    const advancedPassUrl = `${NFLVERSE_RELEASE_ROOT}/pfr_advstats/advstats_week_pass_${dataSeason}.csv`
+    const luck = turnoverLuck(
+      currentPerformance,
+      await fetchCsv(context, advancedPassUrl)
+        .then(download => badThrowsByTeam(download.rows, dataSeason, useCurrentSeason ? context.week : undefined))
+        .catch(() => new Map<TeamCode, number>()),
+    )
+    const sampleGames = (team: TeamCode) => currentPerformance.find(candidate => candidate.team === team)?.games ?? 0
+    // Week 1 already uses a complete prior season; later weeks blend the partial current season toward it.
+    const performance = useCurrentSeason
+      ? regressToPrior({
+          current: currentPerformance,
+          prior: aggregateTeamPerformance(priorRows, dataSeason - 1),
+          games: sampleGames,
+        })
+      : currentPerformance
+    const adjustedPerformance = useCurrentSeason
+      ? regressToPrior({
+          current: currentAdjusted,
+          prior: opponentAdjustedPerformance(priorRows, dataSeason - 1),
+          games: sampleGames,
+        })
+      : currentAdjusted
+    const playUrl = `${NFLVERSE_RELEASE_ROOT}/pbp/play_by_play_${dataSeason}.csv.gz`
+    // The splits ride on a separate download; losing it degrades the baseline instead of failing it.
+    const splits = await fetchPlayByPlay(context, playUrl)
+      .then(download => ({
+        efficiency: aggregateTeamEfficiency(download.rows, dataSeason, useCurrentSeason ? context.week : undefined),
+        message: null,
+      }))
+      .catch((error: unknown) => ({
+        efficiency: [] as TeamEfficiency[],
+        message: `Efficiency splits unavailable: ${error instanceof Error ? error.message : 'play-by-play download failed'}`,
+      }))
+    const priorPlayUrl = `${NFLVERSE_RELEASE_ROOT}/pbp/play_by_play_${dataSeason - 1}.csv.gz`
+    const efficiency: Array<TeamEfficiency & { regressionTarget?: RegressionTarget }> = useCurrentSeason && splits.efficiency.length
+      ? regressEfficiencyToPrior({
+          current: splits.efficiency,
+          prior: await fetchPlayByPlay(context, priorPlayUrl)
+            .then(download => aggregateTeamEfficiency(download.rows, dataSeason - 1))
+            .catch(() => [] as TeamEfficiency[]),
+        })
+      : splits.efficiency
+    const rawImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'team-stats',
+      sourceUrl: url,
+      fetchedAt: checkedAt,
+      payload: {
+        performance,
+        opponent_adjusted: adjustedPerformance,
+        turnover_luck: luck,
+        ...(useCurrentSeason ? { unblended: currentPerformance, prior_source: priorUrl } : {}),
+      },
+    })
+    const efficiencyImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'play-by-play',
+      sourceUrl: playUrl,
+      fetchedAt: checkedAt,
+      payload: useCurrentSeason
+        ? { efficiency, unblended: splits.efficiency, prior_source: priorPlayUrl }
+        : efficiency,
+    })
+    const observedAt = fetchedObservationTime(response, checkedAt)
+    const observations: Observation[] = []
+    const gameCounts = new Map<string, number>()
+    const splitCounts = new Map<string, number>()
+
+    for (const game of context.games) {
+      for (const team of [game.away_team, game.home_team]) {
+        const teamPerformance = performance.find(candidate => candidate.team === team)
         if (!teamPerformance) continue
         const shared = {
           sample_games: teamPerformance.games,
+          reliability_weight: Number(reliabilityWeight(teamPerformance.games).toFixed(3)),
+          regression: 'regressionTarget' in teamPerformance
+            ? {
+                target: teamPerformance.regressionTarget,
+                prior_season: dataSeason - 1,
+                prior_games_equivalent: PRIOR_GAMES_EQUIVALENT,
+              }
+            : null,
           data_season: dataSeason,
           through_week: useCurrentSeason ? context.week - 1 : 'final',
         }
+        const teamAdjusted = adjustedPerformance.find(candidate => candidate.team === team)
+        // Adjusted values reuse the raw keys so a finding can swap one baseline for the other.
+        const withAdjustment = (adjusted: (candidate: AdjustedPerformance) => Record<string, number>) => (
+          teamAdjusted ? { adjusted: true, opponent_adjusted: adjusted(teamAdjusted) } : { adjusted: false }
+        )
         observations.push(createObservation({
           gameId: game.game_id,
           agentId: 'epa',
@@ -360,6 +1562,10 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
             value: Number(teamPerformance.offensiveEpaPerPlay.toFixed(4)),
             rank: rankBy(performance, team, candidate => candidate.offensiveEpaPerPlay, 'descending'),
             league_size: performance.length,
+            ...withAdjustment(adjusted => ({
+              value: Number(adjusted.offensiveEpaPerPlay.toFixed(4)),
+              rank: rankBy(adjustedPerformance, team, candidate => candidate.offensiveEpaPerPlay, 'descending'),
+            })),
             ...shared,
           },
           unit: 'epa_per_play',
@@ -372,7 +1578,7 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
           },
           observedAt,
           effectiveAt: observedAt,
-          expiresAt: new Date(context.now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          expiresAt: gameExpiry(game),
           importedAt: checkedAt,
           rawImportId: rawImport.raw_import_id,
           providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:epa`,
@@ -392,6 +1598,13 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
             takeaway_rank: rankBy(performance, team, candidate => candidate.takeawaysPerGame, 'descending'),
             forced_fumbles_per_game: Number((teamPerformance.defensiveForcedFumbles / teamPerformance.games).toFixed(3)),
             league_size: performance.length,
+            luck: turnoverLuckValue(luck, team),
+            ...withAdjustment(adjusted => ({
+              giveaways_per_game: Number(adjusted.giveawaysPerGame.toFixed(3)),
+              giveaway_rank: rankBy(adjustedPerformance, team, candidate => candidate.giveawaysPerGame, 'ascending'),
+              takeaways_per_game: Number(adjusted.takeawaysPerGame.toFixed(3)),
+              takeaway_rank: rankBy(adjustedPerformance, team, candidate => candidate.takeawaysPerGame, 'descending'),
+            })),
             ...shared,
           },
           source: {
@@ -403,7 +1616,7 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
           },
           observedAt,
           effectiveAt: observedAt,
-          expiresAt: new Date(context.now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          expiresAt: gameExpiry(game),
           importedAt: checkedAt,
           rawImportId: rawImport.raw_import_id,
           providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:turnovers`,
@@ -425,6 +1638,16 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
             run_disruption_rank: rankBy(performance, team, candidate => candidate.tacklesForLossPerGame, 'descending'),
             proxy: true,
             league_size: performance.length,
+            ...withAdjustment(adjusted => ({
+              sack_rate_allowed: Number(adjusted.sackRateAllowed.toFixed(4)),
+              pass_protection_rank: rankBy(adjustedPerformance, team, candidate => candidate.sackRateAllowed, 'ascending'),
+              rushing_epa_per_carry: Number(adjusted.rushingEpaPerCarry.toFixed(4)),
+              rushing_efficiency_rank: rankBy(adjustedPerformance, team, candidate => candidate.rushingEpaPerCarry, 'descending'),
+              defensive_disruptions_per_game: Number(adjusted.disruptionPerGame.toFixed(3)),
+              front_disruption_rank: rankBy(adjustedPerformance, team, candidate => candidate.disruptionPerGame, 'descending'),
+              tackles_for_loss_per_game: Number(adjusted.tacklesForLossPerGame.toFixed(3)),
+              run_disruption_rank: rankBy(adjustedPerformance, team, candidate => candidate.tacklesForLossPerGame, 'descending'),
+            })),
             ...shared,
           },
           source: {
@@ -436,28 +1659,299 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
           },
           observedAt,
           effectiveAt: observedAt,
-          expiresAt: new Date(context.now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          expiresAt: gameExpiry(game),
           importedAt: checkedAt,
           rawImportId: rawImport.raw_import_id,
           providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:trenches`,
         }))
         gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 3)
+        const teamEfficiency = efficiency.find(candidate => candidate.team === team)
+        if (!teamEfficiency) continue
+        const unitValue = (side: 'offense' | 'defense') => {
+          const unit = teamEfficiency[side]
+          // Offenses rank best by the most value created, defenses by the least allowed.
+          const order = side === 'offense' ? 'descending' : 'ascending'
+          return {
+            ...roundedPhase(unit),
+            red_zone_trips: unit.redZoneTrips,
+            red_zone_td_rate: Number(unit.redZoneTouchdownRate.toFixed(4)),
+            epa_rank: rankBy(efficiency, team, candidate => candidate[side].epaPerPlay, order),
+            pass: {
+              ...roundedPhase(unit.pass),
+              epa_rank: rankBy(efficiency, team, candidate => candidate[side].pass.epaPerPlay, order),
+            },
+            run: {
+              ...roundedPhase(unit.run),
+              epa_rank: rankBy(efficiency, team, candidate => candidate[side].run.epaPerPlay, order),
+            },
+          }
+        }
+        const adjustedUnitValue = (side: 'offense' | 'defense') => {
+          const order = side === 'offense' ? 'descending' : 'ascending'
+          const adjusted = (candidate: TeamEfficiency) => candidate.adjusted?.[side]
+          const ranked = efficiency.filter(candidate => candidate.adjusted)
+          const unit = adjusted(teamEfficiency)!
+          return {
+            epa_per_play: Number(unit.epaPerPlay.toFixed(4)),
+            epa_rank: rankBy(ranked, team, candidate => adjusted(candidate)!.epaPerPlay, order),
+            pass: {
+              epa_per_play: Number(unit.pass.toFixed(4)),
+              epa_rank: rankBy(ranked, team, candidate => adjusted(candidate)!.pass, order),
+            },
+            run: {
+              epa_per_play: Number(unit.run.toFixed(4)),
+              epa_rank: rankBy(ranked, team, candidate => adjusted(candidate)!.run, order),
+            },
+          }
+        }
+        observations.push(createObservation({
+          gameId: game.game_id,
+          agentId: 'epa',
+          kind: 'measurement',
+          subject: { type: 'team', id: team, label: team, team },
+          metric: 'team.efficiency_splits',
+          value: {
+            offense: unitValue('offense'),
+            defense: unitValue('defense'),
+            ...(teamEfficiency.adjusted
+              ? {
+                  adjusted: true,
+                  opponent_adjusted: { offense: adjustedUnitValue('offense'), defense: adjustedUnitValue('defense') },
+                }
+              : { adjusted: false }),
+            explosive_thresholds: { pass_yards: EXPLOSIVE_PASS_YARDS, run_yards: EXPLOSIVE_RUN_YARDS },
+            league_size: efficiency.length,
+            sample_games: teamEfficiency.games,
+            reliability_weight: Number(reliabilityWeight(teamEfficiency.games).toFixed(3)),
+            regression: teamEfficiency.regressionTarget
+              ? {
+                  target: teamEfficiency.regressionTarget,
+                  prior_season: dataSeason - 1,
+                  prior_games_equivalent: PRIOR_GAMES_EQUIVALENT,
+                }
+              : null,
+            data_season: dataSeason,
+            through_week: useCurrentSeason ? context.week - 1 : 'final',
+          },
+          source: {
+            provider: 'nflverse',
+            feed: 'play-by-play',
+            quality: 'research',
+            source_url: playUrl,
+            terms_url: NFLVERSE_TERMS_URL,
+          },
+          observedAt,
+          effectiveAt: observedAt,
+          expiresAt: gameExpiry(game),
+          importedAt: checkedAt,
+          rawImportId: efficiencyImport.raw_import_id,
+          providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:efficiency-splits`,
+        }))
+        splitCounts.set(game.game_id, (splitCounts.get(game.game_id) ?? 0) + 1)
       }
     }
 
     const gameStates = Object.fromEntries(context.games.map(game => {
       const count = gameCounts.get(game.game_id) ?? 0
       return [game.game_id, availability({
-        state: count === 6 ? 'available' : count ? 'degraded' : 'missing',
+        state: count === 6 && !splits.message ? 'available' : count ? 'degraded' : 'missing',
         checkedAt,
-        count,
-        ...(count !== 6 ? { message: 'A two-team performance baseline is incomplete' } : {}),
+        count: count + (splitCounts.get(game.game_id) ?? 0),
+        ...(count !== 6
+          ? { message: 'A two-team performance baseline is incomplete' }
+          : splits.message ? { message: splits.message } : {}),
       })]
     }))
 
     return IngestionFeedResultSchema.parse({
       provider: 'nflverse',
       feed: 'team-stats',
+      state: !observations.length ? 'missing' : splits.message ? 'degraded' : 'available',
+      checked_at: checkedAt,
+      ...(splits.message ? { message: splits.message } : {}),
+      raw_imports: efficiency.length ? [rawImport, efficiencyImport] : [rawImport],
+      observations,
+      game_states: gameStates,
+    })
+  },
+}
+
+type TeamPace = {
+  team: TeamCode
+  games: number
+  neutralSnaps: number
+  neutralSecondsPerSnap: number
+  noHuddleRate: number
+  neutralEarlyDownPassRate: number
+  drives: number
+  playsPerDrive: number
+}
+
+function isNeutralSituation(row: CsvRow): boolean {
+  const winProbability = Number(row.wp)
+  return Number.isFinite(winProbability)
+    && winProbability >= 0.2
+    && winProbability <= 0.8
+    && numeric(row.qtr) <= 4
+    && numeric(row.half_seconds_remaining) > 120
+}
+
+function aggregateTeamPace(rows: CsvRow[], season: number, beforeWeek?: number): TeamPace[] {
+  const totals = new Map<TeamCode, {
+    games: Set<string>
+    neutralSnaps: number
+    neutralGapSeconds: number
+    neutralGaps: number
+    noHuddleSnaps: number
+    earlyDownPasses: number
+    earlyDownPlays: number
+    drives: Set<string>
+    plays: number
+  }>()
+  const previousSnap = new Map<string, number>()
+  for (const row of rows) {
+    if (Number(row.season) !== season) continue
+    if (beforeWeek !== undefined && Number(row.week) >= beforeWeek) continue
+    if (row.season_type && row.season_type !== 'REG') continue
+    if (row.play_type !== 'pass' && row.play_type !== 'run') continue
+    const team = normalizeTeamCode(row.posteam)
+    if (!team) continue
+    const current = totals.get(team) ?? {
+      games: new Set<string>(),
+      neutralSnaps: 0,
+      neutralGapSeconds: 0,
+      neutralGaps: 0,
+      noHuddleSnaps: 0,
+      earlyDownPasses: 0,
+      earlyDownPlays: 0,
+      drives: new Set<string>(),
+      plays: 0,
+    }
+    const driveKey = `${row.game_id}:${team}:${row.fixed_drive || row.drive}`
+    const clock = Number(row.game_seconds_remaining)
+    const previousClock = previousSnap.get(driveKey)
+    current.games.add(row.game_id)
+    current.drives.add(driveKey)
+    current.plays += 1
+    if (isNeutralSituation(row)) {
+      current.neutralSnaps += 1
+      if (numeric(row.no_huddle) === 1) current.noHuddleSnaps += 1
+      if (previousClock !== undefined && Number.isFinite(clock)) {
+        const gap = previousClock - clock
+        if (gap > 0 && gap <= 60) {
+          current.neutralGapSeconds += gap
+          current.neutralGaps += 1
+        }
+      }
+      if (numeric(row.down) === 1 || numeric(row.down) === 2) {
+        current.earlyDownPlays += 1
+        if (numeric(row.pass) === 1) current.earlyDownPasses += 1
+      }
+    }
+    if (Number.isFinite(clock)) previousSnap.set(driveKey, clock)
+    totals.set(team, current)
+  }
+  return [...totals.entries()].map(([team, total]) => ({
+    team,
+    games: total.games.size,
+    neutralSnaps: total.neutralSnaps,
+    neutralSecondsPerSnap: total.neutralGaps ? total.neutralGapSeconds / total.neutralGaps : 0,
+    noHuddleRate: total.neutralSnaps ? total.noHuddleSnaps / total.neutralSnaps : 0,
+    neutralEarlyDownPassRate: total.earlyDownPlays ? total.earlyDownPasses / total.earlyDownPlays : 0,
+    drives: total.drives.size,
+    playsPerDrive: total.drives.size ? total.plays / total.drives.size : 0,
+  }))
+}
+
+export const nflversePaceProvider: ObservationProvider = {
+  agentIds: ['pace'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const url = `${NFLVERSE_RELEASE_ROOT}/pbp/play_by_play_${dataSeason}.csv.gz`
+    let response: Response
+    let rows: CsvRow[]
+    try {
+      ({ response, rows } = await fetchPlayByPlay(context, url))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'nflverse play-by-play feed failed'
+      return failedFeed({
+        context,
+        feed: 'play-by-play',
+        state: message.includes('404') ? 'missing' : 'degraded',
+        message,
+      })
+    }
+
+    const pace = aggregateTeamPace(rows, dataSeason, useCurrentSeason ? context.week : undefined)
+      .filter(candidate => candidate.neutralSecondsPerSnap > 0)
+    const rawImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'play-by-play',
+      sourceUrl: url,
+      fetchedAt: checkedAt,
+      payload: pace,
+    })
+    const observedAt = fetchedObservationTime(response, checkedAt)
+    const observations: Observation[] = []
+    const gameCounts = new Map<string, number>()
+
+    for (const game of context.games) {
+      for (const team of [game.away_team, game.home_team]) {
+        const teamPace = pace.find(candidate => candidate.team === team)
+        if (!teamPace) continue
+        observations.push(createObservation({
+          gameId: game.game_id,
+          agentId: 'pace',
+          kind: 'measurement',
+          subject: { type: 'team', id: team, label: team, team },
+          metric: 'team.pace_profile',
+          value: {
+            neutral_seconds_per_snap: Number(teamPace.neutralSecondsPerSnap.toFixed(2)),
+            tempo_rank: rankBy(pace, team, candidate => candidate.neutralSecondsPerSnap, 'ascending'),
+            no_huddle_rate: Number(teamPace.noHuddleRate.toFixed(4)),
+            neutral_early_down_pass_rate: Number(teamPace.neutralEarlyDownPassRate.toFixed(4)),
+            pass_rate_rank: rankBy(pace, team, candidate => candidate.neutralEarlyDownPassRate, 'descending'),
+            plays_per_drive: Number(teamPace.playsPerDrive.toFixed(2)),
+            neutral_snaps: teamPace.neutralSnaps,
+            league_size: pace.length,
+            sample_games: teamPace.games,
+            reliability_weight: Number(reliabilityWeight(teamPace.games).toFixed(3)),
+            data_season: dataSeason,
+            through_week: useCurrentSeason ? context.week - 1 : 'final',
+          },
+          source: {
+            provider: 'nflverse',
+            feed: 'play-by-play',
+            quality: 'research',
+            source_url: url,
+            terms_url: NFLVERSE_TERMS_URL,
+          },
+          observedAt,
+          effectiveAt: observedAt,
+          expiresAt: gameExpiry(game),
+          importedAt: checkedAt,
+          rawImportId: rawImport.raw_import_id,
+          providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:pace`,
+        }))
+        gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+      }
+    }
+
+    const gameStates = Object.fromEntries(context.games.map(game => {
+      const count = gameCounts.get(game.game_id) ?? 0
+      return [game.game_id, availability({
+        state: count === 2 ? 'available' : count ? 'degraded' : 'missing',
+        checkedAt,
+        count,
+        ...(count !== 2 ? { message: 'A two-team neutral pace baseline is incomplete' } : {}),
+      })]
+    }))
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'nflverse',
+      feed: 'play-by-play',
       state: observations.length ? 'available' : 'missing',
       checked_at: checkedAt,
       raw_imports: [rawImport],
@@ -466,3 +1960,816 @@ export const nflverseTeamStatsProvider: ObservationProvider = {
     })
   },
 }
+
+type TeamPressure = {
+  team: TeamCode
+  games: number
+  dropbacks: number
+  pressuresAllowed: number
+  pressureRateAllowed: number
+  opponentDropbacks: number
+  pressuresGenerated: number
+  pressureRateGenerated: number
+  averageTimeToThrow: number | null
+  pressuredDropbacks: number
+  qbEpaUnderPressure: number | null
+}
+
+function inRegularSeasonWindow(row: CsvRow, season: number, beforeWeek?: number): boolean {
+  if (Number(row.season) !== season) return false
+  if (beforeWeek !== undefined && Number(row.week) >= beforeWeek) return false
+  const seasonType = row.season_type || row.game_type
+  return !seasonType || seasonType === 'REG'
+}
+
+function aggregateTeamPressure(params: {
+  passRows: CsvRow[]
+  defenseRows: CsvRow[]
+  nextGenRows: CsvRow[]
+  playRows: CsvRow[]
+  season: number
+  beforeWeek?: number
+}): TeamPressure[] {
+  const totals = new Map<TeamCode, {
+    games: Set<string>
+    dropbacks: number
+    pressuresAllowed: number
+    opponentDropbacks: number
+    pressuresGenerated: number
+    timeToThrowWeighted: number
+    timeToThrowAttempts: number
+    pressuredDropbacks: number
+    pressuredEpa: number
+  }>()
+  const totalFor = (team: TeamCode) => {
+    const current = totals.get(team) ?? {
+      games: new Set<string>(),
+      dropbacks: 0,
+      pressuresAllowed: 0,
+      opponentDropbacks: 0,
+      pressuresGenerated: 0,
+      timeToThrowWeighted: 0,
+      timeToThrowAttempts: 0,
+      pressuredDropbacks: 0,
+      pressuredEpa: 0,
+    }
+    totals.set(team, current)
+    return current
+  }
+
+  for (const row of params.playRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    if (numeric(row.qb_dropback) !== 1) continue
+    const offense = normalizeTeamCode(row.posteam)
+    const defense = normalizeTeamCode(row.defteam)
+    if (offense) {
+      const current = totalFor(offense)
+      current.games.add(row.game_id)
+      current.dropbacks += 1
+      if (numeric(row.qb_hit) === 1 || numeric(row.sack) === 1) {
+        current.pressuredDropbacks += 1
+        current.pressuredEpa += numeric(row.epa)
+      }
+    }
+    if (defense) totalFor(defense).opponentDropbacks += 1
+  }
+  for (const row of params.passRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    const team = normalizeTeamCode(row.team)
+    if (team && totals.has(team)) totalFor(team).pressuresAllowed += numeric(row.times_pressured)
+  }
+  for (const row of params.defenseRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    const team = normalizeTeamCode(row.team)
+    if (team && totals.has(team)) totalFor(team).pressuresGenerated += numeric(row.def_pressures)
+  }
+  for (const row of params.nextGenRows) {
+    if (!inRegularSeasonWindow(row, params.season, params.beforeWeek)) continue
+    if (numeric(row.week) === 0) continue
+    const team = normalizeTeamCode(row.team_abbr)
+    const attempts = numeric(row.attempts)
+    if (!team || !totals.has(team) || !attempts) continue
+    const current = totalFor(team)
+    current.timeToThrowWeighted += numeric(row.avg_time_to_throw) * attempts
+    current.timeToThrowAttempts += attempts
+  }
+
+  return [...totals.entries()]
+    .filter(([, total]) => total.dropbacks > 0 && total.opponentDropbacks > 0)
+    .map(([team, total]) => ({
+      team,
+      games: total.games.size,
+      dropbacks: total.dropbacks,
+      pressuresAllowed: total.pressuresAllowed,
+      pressureRateAllowed: total.pressuresAllowed / total.dropbacks,
+      opponentDropbacks: total.opponentDropbacks,
+      pressuresGenerated: total.pressuresGenerated,
+      pressureRateGenerated: total.pressuresGenerated / total.opponentDropbacks,
+      averageTimeToThrow: total.timeToThrowAttempts
+        ? total.timeToThrowWeighted / total.timeToThrowAttempts
+        : null,
+      pressuredDropbacks: total.pressuredDropbacks,
+      qbEpaUnderPressure: total.pressuredDropbacks
+        ? total.pressuredEpa / total.pressuredDropbacks
+        : null,
+    }))
+}
+
+export const nflversePressureProvider: ObservationProvider = {
+  agentIds: ['pressure'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const passUrl = `${NFLVERSE_RELEASE_ROOT}/pfr_advstats/advstats_week_pass_${dataSeason}.csv`
+    const defenseUrl = `${NFLVERSE_RELEASE_ROOT}/pfr_advstats/advstats_week_def_${dataSeason}.csv`
+    const nextGenUrl = `${NFLVERSE_RELEASE_ROOT}/nextgen_stats/ngs_${dataSeason}_passing.csv.gz`
+    const playUrl = `${NFLVERSE_RELEASE_ROOT}/pbp/play_by_play_${dataSeason}.csv.gz`
+    let response: Response
+    let pressure: TeamPressure[]
+    try {
+      const [pass, defense, nextGen, plays] = await Promise.all([
+        fetchCsv(context, passUrl),
+        fetchCsv(context, defenseUrl),
+        fetchCsv(context, nextGenUrl),
+        fetchPlayByPlay(context, playUrl),
+      ])
+      response = pass.response
+      pressure = aggregateTeamPressure({
+        passRows: pass.rows,
+        defenseRows: defense.rows,
+        nextGenRows: nextGen.rows,
+        playRows: plays.rows,
+        season: dataSeason,
+        beforeWeek: useCurrentSeason ? context.week : undefined,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'nflverse advanced stats feed failed'
+      return failedFeed({
+        context,
+        feed: 'advanced-stats',
+        state: message.includes('404') ? 'missing' : 'degraded',
+        message,
+      })
+    }
+
+    const rawImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'advanced-stats',
+      sourceUrl: passUrl,
+      fetchedAt: checkedAt,
+      payload: {
+        sources: [passUrl, defenseUrl, nextGenUrl, playUrl],
+        pressure,
+      },
+    })
+    const observedAt = fetchedObservationTime(response, checkedAt)
+    const observations: Observation[] = []
+    const gameCounts = new Map<string, number>()
+    const responseRanked = pressure.filter(candidate => candidate.qbEpaUnderPressure !== null)
+
+    for (const game of context.games) {
+      for (const team of [game.away_team, game.home_team]) {
+        const teamPressure = pressure.find(candidate => candidate.team === team)
+        if (!teamPressure) continue
+        observations.push(createObservation({
+          gameId: game.game_id,
+          agentId: 'pressure',
+          kind: 'measurement',
+          subject: { type: 'team', id: team, label: team, team },
+          metric: 'team.pressure_profile',
+          value: {
+            pressure_rate_generated: Number(teamPressure.pressureRateGenerated.toFixed(4)),
+            pass_rush_rank: rankBy(pressure, team, candidate => candidate.pressureRateGenerated, 'descending'),
+            pressure_rate_allowed: Number(teamPressure.pressureRateAllowed.toFixed(4)),
+            protection_rank: rankBy(pressure, team, candidate => candidate.pressureRateAllowed, 'ascending'),
+            average_time_to_throw: teamPressure.averageTimeToThrow === null
+              ? null
+              : Number(teamPressure.averageTimeToThrow.toFixed(2)),
+            qb_epa_under_pressure: teamPressure.qbEpaUnderPressure === null
+              ? null
+              : Number(teamPressure.qbEpaUnderPressure.toFixed(4)),
+            pressure_response_rank: teamPressure.qbEpaUnderPressure === null
+              ? null
+              : rankBy(responseRanked, team, candidate => candidate.qbEpaUnderPressure ?? 0, 'descending'),
+            pressured_dropbacks: teamPressure.pressuredDropbacks,
+            dropbacks: teamPressure.dropbacks,
+            league_size: pressure.length,
+            sample_games: teamPressure.games,
+            reliability_weight: Number(reliabilityWeight(teamPressure.games).toFixed(3)),
+            data_season: dataSeason,
+            through_week: useCurrentSeason ? context.week - 1 : 'final',
+          },
+          source: {
+            provider: 'nflverse',
+            feed: 'advanced-stats',
+            quality: 'research',
+            source_url: passUrl,
+            terms_url: NFLVERSE_TERMS_URL,
+          },
+          observedAt,
+          effectiveAt: observedAt,
+          expiresAt: gameExpiry(game),
+          importedAt: checkedAt,
+          rawImportId: rawImport.raw_import_id,
+          providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:pressure`,
+        }))
+        gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+      }
+    }
+
+    const gameStates = Object.fromEntries(context.games.map(game => {
+      const count = gameCounts.get(game.game_id) ?? 0
+      return [game.game_id, availability({
+        state: count === 2 ? 'available' : count ? 'degraded' : 'missing',
+        checkedAt,
+        count,
+        ...(count !== 2 ? { message: 'A two-team pressure baseline is incomplete' } : {}),
+      })]
+    }))
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'nflverse',
+      feed: 'advanced-stats',
+      state: observations.length ? 'available' : 'missing',
+      checked_at: checkedAt,
+      raw_imports: [rawImport],
+      observations,
+      game_states: gameStates,
+    })
+  },
+}
+
+type QuarterbackProfile = {
+  playerId: string
+  name: string
+  team: TeamCode | null
+  games: number
+  dropbacks: number
+  epaPerDropback: number
+  cpoe: number | null
+  sackRate: number
+  interceptionRate: number
+  scrambleRate: number
+}
+
+type PassDefense = {
+  team: TeamCode
+  dropbacksFaced: number
+  epaPerDropbackAllowed: number
+}
+
+type ProjectedStarter = {
+  team: TeamCode
+  playerId: string
+  name: string
+  depthChartRank: number
+  reportStatus: string | null
+  injuryAdjusted: boolean
+}
+
+const QUARTERBACK_MIN_DROPBACKS = 50
+
+function aggregateQuarterbacks(rows: CsvRow[], season: number, beforeWeek?: number): {
+  quarterbacks: QuarterbackProfile[]
+  passDefense: PassDefense[]
+} {
+  const players = new Map<string, {
+    name: string
+    teamDropbacks: Map<TeamCode, number>
+    games: Set<string>
+    dropbacks: number
+    epa: number
+    attempts: number
+    cpoeTotal: number
+    cpoeAttempts: number
+    sacks: number
+    interceptions: number
+    scrambles: number
+  }>()
+  const defenses = new Map<TeamCode, { dropbacks: number; epa: number }>()
+  for (const row of rows) {
+    if (!inRegularSeasonWindow(row, season, beforeWeek)) continue
+    if (numeric(row.qb_dropback) !== 1) continue
+    const defense = normalizeTeamCode(row.defteam)
+    if (defense) {
+      const current = defenses.get(defense) ?? { dropbacks: 0, epa: 0 }
+      current.dropbacks += 1
+      current.epa += numeric(row.epa)
+      defenses.set(defense, current)
+    }
+    if (!row.passer_id) continue
+    const team = normalizeTeamCode(row.posteam)
+    const current = players.get(row.passer_id) ?? {
+      name: row.passer || row.passer_player_name || row.passer_id,
+      teamDropbacks: new Map<TeamCode, number>(),
+      games: new Set<string>(),
+      dropbacks: 0,
+      epa: 0,
+      attempts: 0,
+      cpoeTotal: 0,
+      cpoeAttempts: 0,
+      sacks: 0,
+      interceptions: 0,
+      scrambles: 0,
+    }
+    if (team) current.teamDropbacks.set(team, (current.teamDropbacks.get(team) ?? 0) + 1)
+    current.games.add(row.game_id)
+    current.dropbacks += 1
+    current.epa += numeric(row.epa)
+    if (numeric(row.pass_attempt) === 1 && numeric(row.sack) !== 1) current.attempts += 1
+    if (row.cpoe !== undefined && row.cpoe !== '' && row.cpoe !== 'NA') {
+      current.cpoeTotal += numeric(row.cpoe)
+      current.cpoeAttempts += 1
+    }
+    if (numeric(row.sack) === 1) current.sacks += 1
+    if (numeric(row.interception) === 1) current.interceptions += 1
+    if (numeric(row.qb_scramble) === 1) current.scrambles += 1
+    players.set(row.passer_id, current)
+  }
+  return {
+    quarterbacks: [...players.entries()].map(([playerId, total]) => ({
+      playerId,
+      name: total.name,
+      team: [...total.teamDropbacks.entries()].sort((left, right) => right[1] - left[1])[0]?.[0] ?? null,
+      games: total.games.size,
+      dropbacks: total.dropbacks,
+      epaPerDropback: total.epa / total.dropbacks,
+      cpoe: total.cpoeAttempts ? total.cpoeTotal / total.cpoeAttempts : null,
+      sackRate: total.sacks / total.dropbacks,
+      interceptionRate: total.attempts ? total.interceptions / total.attempts : 0,
+      scrambleRate: total.scrambles / total.dropbacks,
+    })),
+    passDefense: [...defenses.entries()].map(([team, total]) => ({
+      team,
+      dropbacksFaced: total.dropbacks,
+      epaPerDropbackAllowed: total.dropbacks ? total.epa / total.dropbacks : 0,
+    })),
+  }
+}
+
+function projectStarters(params: {
+  depthRows: CsvRow[]
+  injuryRows: CsvRow[]
+  teams: Set<TeamCode>
+  season: number
+  week: number
+  now: Date
+}): ProjectedStarter[] {
+  const statuses = reportStatuses(
+    params.injuryRows.filter(row => publishedBy(row, params.now)),
+    params.season,
+    params.week,
+  )
+  const charts = latestDepthCharts({
+    rows: params.depthRows,
+    teams: params.teams,
+    season: params.season,
+    week: params.week,
+    now: params.now,
+  })
+  return [...params.teams].flatMap(team => {
+    const chart = charts.filter(entry => entry.team === team && entry.position === 'QB')
+    const listed = chart[0]
+    if (!listed) return []
+    const available = chart.find(entry => (
+      !['out', 'doubtful'].includes((statuses.get(entry.playerId) ?? '').toLowerCase())
+    )) ?? listed
+    return [{
+      team,
+      playerId: available.playerId,
+      name: available.name,
+      depthChartRank: available.rank,
+      reportStatus: statuses.get(available.playerId) ?? null,
+      injuryAdjusted: available.playerId !== listed.playerId,
+    }]
+  })
+}
+
+export const nflverseQuarterbackProvider: ObservationProvider = {
+  agentIds: ['qb'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const depthUrl = `${NFLVERSE_RELEASE_ROOT}/depth_charts/depth_charts_${context.season}.csv`
+    const injuryUrl = `${NFLVERSE_RELEASE_ROOT}/injuries/injuries_${context.season}.csv`
+    const playUrl = `${NFLVERSE_RELEASE_ROOT}/pbp/play_by_play_${dataSeason}.csv.gz`
+    let response: Response
+    let starters: ProjectedStarter[]
+    let quarterbacks: QuarterbackProfile[]
+    let passDefense: PassDefense[]
+    try {
+      const [depth, plays] = await Promise.all([
+        fetchCsv(context, depthUrl),
+        fetchPlayByPlay(context, playUrl),
+      ])
+      const injuries = await fetchCsv(context, injuryUrl).catch(() => ({ rows: [] as CsvRow[] }))
+      response = depth.response
+      starters = projectStarters({
+        depthRows: depth.rows,
+        injuryRows: injuries.rows,
+        teams: new Set(context.games.flatMap(game => [game.away_team, game.home_team])),
+        season: context.season,
+        week: context.week,
+        now: context.now,
+      })
+      ;({ quarterbacks, passDefense } = aggregateQuarterbacks(
+        plays.rows,
+        dataSeason,
+        useCurrentSeason ? context.week : undefined,
+      ))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'nflverse quarterback feeds failed'
+      return failedFeed({
+        context,
+        feed: 'quarterbacks',
+        state: message.includes('404') ? 'missing' : 'degraded',
+        message,
+      })
+    }
+
+    const qualified = quarterbacks.filter(candidate => candidate.dropbacks >= QUARTERBACK_MIN_DROPBACKS)
+    const rawImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'quarterbacks',
+      sourceUrl: depthUrl,
+      fetchedAt: checkedAt,
+      payload: {
+        sources: [depthUrl, injuryUrl, playUrl],
+        starters,
+        quarterbacks: quarterbacks.filter(candidate => (
+          starters.some(starter => starter.playerId === candidate.playerId)
+        )),
+        pass_defense: passDefense,
+      },
+    })
+    const observedAt = fetchedObservationTime(response, checkedAt)
+    const shared = {
+      data_season: dataSeason,
+      through_week: useCurrentSeason ? context.week - 1 : 'final',
+    }
+    const source = {
+      provider: 'nflverse',
+      feed: 'quarterbacks',
+      quality: 'research' as const,
+      source_url: depthUrl,
+      terms_url: NFLVERSE_TERMS_URL,
+    }
+    const observations: Observation[] = []
+    const gameCounts = new Map<string, number>()
+
+    for (const game of context.games) {
+      for (const team of [game.away_team, game.home_team]) {
+        const starter = starters.find(candidate => candidate.team === team)
+        const defense = passDefense.find(candidate => candidate.team === team)
+        if (starter) {
+          const profile = quarterbacks.find(candidate => candidate.playerId === starter.playerId)
+          const incumbent = quarterbacks
+            .filter(candidate => candidate.team === team)
+            .sort((left, right) => right.dropbacks - left.dropbacks)[0]
+          observations.push(createObservation({
+            gameId: game.game_id,
+            agentId: 'qb',
+            kind: 'measurement',
+            subject: { type: 'player', id: starter.playerId, label: starter.name, team },
+            metric: 'player.qb_profile',
+            value: {
+              depth_chart_rank: starter.depthChartRank,
+              report_status: starter.reportStatus,
+              injury_adjusted: starter.injuryAdjusted,
+              starter_change: Boolean(incumbent && incumbent.playerId !== starter.playerId),
+              incumbent: incumbent ? { player_id: incumbent.playerId, name: incumbent.name } : null,
+              dropbacks: profile?.dropbacks ?? 0,
+              epa_per_dropback: profile ? Number(profile.epaPerDropback.toFixed(4)) : null,
+              epa_rank: profile && profile.dropbacks >= QUARTERBACK_MIN_DROPBACKS
+                ? 1 + qualified.filter(candidate => candidate.epaPerDropback > profile.epaPerDropback).length
+                : null,
+              cpoe: profile && profile.cpoe !== null ? Number(profile.cpoe.toFixed(2)) : null,
+              sack_rate: profile ? Number(profile.sackRate.toFixed(4)) : null,
+              interception_rate: profile ? Number(profile.interceptionRate.toFixed(4)) : null,
+              scramble_rate: profile ? Number(profile.scrambleRate.toFixed(4)) : null,
+              qualified_quarterbacks: qualified.length,
+              sample_games: profile?.games ?? 0,
+              reliability_weight: Number(reliabilityWeight(profile?.games ?? 0).toFixed(3)),
+              ...shared,
+            },
+            source,
+            observedAt,
+            effectiveAt: observedAt,
+            expiresAt: gameExpiry(game),
+            importedAt: checkedAt,
+            rawImportId: rawImport.raw_import_id,
+            providerRecordId: `${context.season}:${context.week}:${team}:${starter.playerId}:qb`,
+          }))
+          gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+        }
+        if (defense) {
+          observations.push(createObservation({
+            gameId: game.game_id,
+            agentId: 'qb',
+            kind: 'measurement',
+            subject: { type: 'team', id: team, label: team, team },
+            metric: 'team.pass_defense',
+            value: {
+              epa_per_dropback_allowed: Number(defense.epaPerDropbackAllowed.toFixed(4)),
+              pass_defense_rank: rankBy(passDefense, team, candidate => candidate.epaPerDropbackAllowed, 'ascending'),
+              dropbacks_faced: defense.dropbacksFaced,
+              league_size: passDefense.length,
+              ...shared,
+            },
+            source,
+            observedAt,
+            effectiveAt: observedAt,
+            expiresAt: gameExpiry(game),
+            importedAt: checkedAt,
+            rawImportId: rawImport.raw_import_id,
+            providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:pass-defense`,
+          }))
+          gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+        }
+      }
+    }
+
+    const gameStates = Object.fromEntries(context.games.map(game => {
+      const count = gameCounts.get(game.game_id) ?? 0
+      return [game.game_id, availability({
+        state: count === 4 ? 'available' : count ? 'degraded' : 'missing',
+        checkedAt,
+        count,
+        ...(count !== 4 ? { message: 'Projected starters or opposing pass defenses are incomplete' } : {}),
+      })]
+    }))
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'nflverse',
+      feed: 'quarterbacks',
+      state: observations.length ? 'available' : 'missing',
+      checked_at: checkedAt,
+      raw_imports: [rawImport],
+      observations,
+      game_states: gameStates,
+    })
+  },
+}
+
+type UnitMomentum = {
+  recent: number | null
+  baseline: number | null
+  change: number | null
+  z_score: number | null
+  significance: 'durable' | 'emerging' | 'noise' | 'insufficient_sample'
+}
+
+type TeamMomentum = {
+  team: TeamCode
+  recentGames: number
+  baselineGames: number
+  offense: UnitMomentum
+  defense: UnitMomentum
+}
+
+const MOMENTUM_WINDOW = 4
+const MOMENTUM_MIN_BASELINE = 3
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length
+}
+
+function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return values.reduce((total, value) => total + (value - average) ** 2, 0) / (values.length - 1)
+}
+
+function unitMomentum(recent: number[], baseline: number[], improvement: 1 | -1): UnitMomentum {
+  if (recent.length < MOMENTUM_WINDOW || baseline.length < MOMENTUM_MIN_BASELINE) {
+    return {
+      recent: recent.length ? Number(mean(recent).toFixed(4)) : null,
+      baseline: baseline.length ? Number(mean(baseline).toFixed(4)) : null,
+      change: null,
+      z_score: null,
+      significance: 'insufficient_sample',
+    }
+  }
+  const change = (mean(recent) - mean(baseline)) * improvement
+  const standardError = Math.sqrt(
+    sampleVariance(recent) / recent.length + sampleVariance(baseline) / baseline.length,
+  )
+  const zScore = standardError ? change / standardError : 0
+  return {
+    recent: Number(mean(recent).toFixed(4)),
+    baseline: Number(mean(baseline).toFixed(4)),
+    change: Number(change.toFixed(4)),
+    z_score: Number(zScore.toFixed(2)),
+    significance: Math.abs(zScore) >= 2 ? 'durable' : Math.abs(zScore) >= 1 ? 'emerging' : 'noise',
+  }
+}
+
+function aggregateTeamMomentum(rows: CsvRow[], season: number, beforeWeek?: number): TeamMomentum[] {
+  const games = rows.flatMap(row => {
+    if (!inRegularSeasonWindow(row, season, beforeWeek)) return []
+    const team = normalizeTeamCode(row.team)
+    const opponent = normalizeTeamCode(row.opponent_team)
+    const plays = numeric(row.attempts) + numeric(row.carries) + numeric(row.sacks_suffered)
+    if (!team || !opponent || !plays) return []
+    return [{
+      team,
+      opponent,
+      week: Number(row.week),
+      plays,
+      epa: numeric(row.passing_epa) + numeric(row.rushing_epa),
+    }]
+  })
+  const seasonRate = (selected: typeof games) => {
+    const plays = selected.reduce((total, game) => total + game.plays, 0)
+    return plays ? selected.reduce((total, game) => total + game.epa, 0) / plays : 0
+  }
+  const league = seasonRate(games)
+  const offenseRate = new Map<TeamCode, number>()
+  const defenseRate = new Map<TeamCode, number>()
+  for (const team of new Set(games.map(game => game.team))) {
+    offenseRate.set(team, seasonRate(games.filter(game => game.team === team)))
+    defenseRate.set(team, seasonRate(games.filter(game => game.opponent === team)))
+  }
+
+  return [...offenseRate.keys()].map(team => {
+    const schedule = games
+      .filter(game => game.team === team)
+      .sort((left, right) => left.week - right.week)
+      .map(game => {
+        const allowed = games.find(candidate => candidate.team === game.opponent && candidate.week === game.week)
+        return {
+          offense: game.epa / game.plays - ((defenseRate.get(game.opponent) ?? league) - league),
+          defense: allowed
+            ? allowed.epa / allowed.plays - ((offenseRate.get(game.opponent) ?? league) - league)
+            : null,
+        }
+      })
+    const recent = schedule.slice(-MOMENTUM_WINDOW)
+    const baseline = schedule.slice(0, -MOMENTUM_WINDOW)
+    const defensive = (selected: typeof schedule) => selected.flatMap(game => game.defense === null ? [] : [game.defense])
+    return {
+      team,
+      recentGames: recent.length,
+      baselineGames: baseline.length,
+      offense: unitMomentum(recent.map(game => game.offense), baseline.map(game => game.offense), 1),
+      defense: unitMomentum(defensive(recent), defensive(baseline), -1),
+    }
+  })
+}
+
+export const nflverseMomentumProvider: ObservationProvider = {
+  agentIds: ['momentum'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const useCurrentSeason = context.week > 1
+    const dataSeason = useCurrentSeason ? context.season : context.season - 1
+    const url = `${NFLVERSE_RELEASE_ROOT}/stats_team/stats_team_week_${dataSeason}.csv`
+    let response: Response
+    let rows: CsvRow[]
+    try {
+      ({ response, rows } = await fetchCsv(context, url))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'nflverse team stats feed failed'
+      return failedFeed({
+        context,
+        feed: 'team-momentum',
+        state: message.includes('404') ? 'missing' : 'degraded',
+        message,
+      })
+    }
+
+    const momentum = aggregateTeamMomentum(rows, dataSeason, useCurrentSeason ? context.week : undefined)
+    const rawImport = createRawImport({
+      provider: 'nflverse',
+      feed: 'team-momentum',
+      sourceUrl: url,
+      fetchedAt: checkedAt,
+      payload: momentum,
+    })
+    const observedAt = fetchedObservationTime(response, checkedAt)
+    const observations: Observation[] = []
+    const gameCounts = new Map<string, number>()
+
+    for (const game of context.games) {
+      for (const team of [game.away_team, game.home_team]) {
+        const teamMomentum = momentum.find(candidate => candidate.team === team)
+        if (!teamMomentum) continue
+        observations.push(createObservation({
+          gameId: game.game_id,
+          agentId: 'momentum',
+          kind: 'measurement',
+          subject: { type: 'team', id: team, label: team, team },
+          metric: 'team.momentum_profile',
+          value: {
+            offense: teamMomentum.offense,
+            defense: teamMomentum.defense,
+            window_games: MOMENTUM_WINDOW,
+            recent_games: teamMomentum.recentGames,
+            baseline_games: teamMomentum.baselineGames,
+            opponent_adjusted: true,
+            sample_games: teamMomentum.recentGames + teamMomentum.baselineGames,
+            reliability_weight: Number(reliabilityWeight(teamMomentum.recentGames + teamMomentum.baselineGames).toFixed(3)),
+            data_season: dataSeason,
+            through_week: useCurrentSeason ? context.week - 1 : 'final',
+          },
+          unit: 'epa_per_play',
+          source: {
+            provider: 'nflverse',
+            feed: 'team-momentum',
+            quality: 'research',
+            source_url: url,
+            terms_url: NFLVERSE_TERMS_URL,
+          },
+          observedAt,
+          effectiveAt: observedAt,
+          expiresAt: gameExpiry(game),
+          importedAt: checkedAt,
+          rawImportId: rawImport.raw_import_id,
+          providerRecordId: `${dataSeason}:${team}:${useCurrentSeason ? context.week - 1 : 'final'}:momentum`,
+        }))
+        gameCounts.set(game.game_id, (gameCounts.get(game.game_id) ?? 0) + 1)
+      }
+    }
+
+    const gameStates = Object.fromEntries(context.games.map(game => {
+      const count = gameCounts.get(game.game_id) ?? 0
+      return [game.game_id, availability({
+        state: count === 2 ? 'available' : count ? 'degraded' : 'missing',
+        checkedAt,
+        count,
+        ...(count !== 2 ? { message: 'A two-team momentum window is incomplete' } : {}),
+      })]
+    }))
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'nflverse',
+      feed: 'team-momentum',
+      state: observations.length ? 'available' : 'missing',
+      checked_at: checkedAt,
+      raw_imports: [rawImport],
+      observations,
+      game_states: gameStates,
+    })
+  },
+}
+
+export type GameWorkload = {
+  team: TeamCode
+  season: number
+  week: number
+  overtime: boolean | null
+  offensive_plays: number | null
+  defensive_snaps: number | null
+}
+
+const NFLDATA_GAMES_URL = 'https://github.com/nflverse/nfldata/raw/master/data/games.csv'
+
+// Each team's completed regular-season games before this week. A missing file leaves that part of
+// the workload unknown instead of failing the schedule-derived rest context.
+export async function loadGameWorkloads(context: WeekProviderContext): Promise<{
+  workloads: GameWorkload[]
+  sources: string[]
+}> {
+  if (context.week <= 1) return { workloads: [], sources: [] }
+  const snapUrl = `${NFLVERSE_RELEASE_ROOT}/snap_counts/snap_counts_${context.season}.csv`
+  const [games, snaps] = await Promise.all([NFLDATA_GAMES_URL, snapUrl].map(source => (
+    fetchCsv(context, source).then(download => download.rows).catch(() => [] as CsvRow[])
+  )))
+  const workloads = new Map<string, GameWorkload>()
+  const workload = (team: TeamCode, week: number): GameWorkload => {
+    const key = `${team}:${week}`
+    const current = workloads.get(key) ?? {
+      team,
+      season: context.season,
+      week,
+      overtime: null,
+      offensive_plays: null,
+      defensive_snaps: null,
+    }
+    workloads.set(key, current)
+    return current
+  }
+  for (const row of games) {
+    if (!inRegularSeasonWindow(row, context.season, context.week)) continue
+    if (!row.overtime || row.overtime === 'NA') continue
+    for (const code of [row.away_team, row.home_team]) {
+      const team = normalizeTeamCode(code)
+      if (team) workload(team, Number(row.week)).overtime = numeric(row.overtime) === 1
+    }
+  }
+  // No player logs more snaps than the unit, so the busiest player's count is the team's snap total.
+  for (const row of snaps) {
+    if (!inRegularSeasonWindow(row, context.season, context.week)) continue
+    const team = normalizeTeamCode(row.team)
+    if (!team) continue
+    const current = workload(team, Number(row.week))
+    current.offensive_plays = Math.max(current.offensive_plays ?? 0, numeric(row.offense_snaps))
+    current.defensive_snaps = Math.max(current.defensive_snaps ?? 0, numeric(row.defense_snaps))
+  }
+  return {
+    workloads: [...workloads.values()],
+    sources: [NFLDATA_GAMES_URL, snapUrl],
+  }
+}
@@ -6,6 +6,7 @@ import {
   type RawImport,
   type SnapshotAvailability,
 } from '@/lib/data/contracts'
+import { loadRoofStatus } from '@/lib/data/providers/roof'
 import { createObservation, createRawImport } from '@/lib/data/providers/shared'
 import type { ObservationProvider, WeekProviderContext } from '@/lib/data/providers/types'
 import { getVenueWeatherProfile } from '@/lib/nfl/venues'
@@ -13,10 +14,54 @@ import { getVenueWeatherProfile } from '@/lib/nfl/venues'
 const NWS_TERMS_URL = 'https://www.weather.gov/documentation/services-web-api'
 const FORECAST_HORIZON_MS = 7 * 24 * 60 * 60 * 1000
 const FRESHNESS_MS = 6 * 60 * 60 * 1000
+// The game window runs from kickoff through a regulation-length game; alerts and station readings use it.
+const KICKOFF_WINDOW_MS = 4 * 60 * 60 * 1000
 
 const NwsPointSchema = z.object({
   properties: z.object({
     forecastHourly: z.string().url(),
+    forecastGridData: z.string().url().optional(),
+    observationStations: z.string().url().optional(),
+  }),
+})
+
+const NwsStationsSchema = z.object({
+  features: z.array(z.object({
+    properties: z.object({
+      stationIdentifier: z.string(),
+      name: z.string().optional(),
+    }),
+  })),
+})
+
+const NwsQuantitySchema = z.object({
+  unitCode: z.string().optional(),
+  value: z.number().nullable(),
+}).optional()
+
+const NwsStationObservationsSchema = z.object({
+  features: z.array(z.object({
+    properties: z.object({
+      timestamp: z.string().datetime({ offset: true }),
+      textDescription: z.string().optional(),
+      temperature: NwsQuantitySchema,
+      windSpeed: NwsQuantitySchema,
+      windGust: NwsQuantitySchema,
+      windDirection: NwsQuantitySchema,
+      precipitationLastHour: NwsQuantitySchema,
+    }),
+  })),
+})
+
+const NwsGridSchema = z.object({
+  properties: z.object({
+    windGust: z.object({
+      uom: z.string().optional(),
+      values: z.array(z.object({
+        validTime: z.string(),
+        value: z.number().nullable(),
+      })),
+    }).optional(),
   }),
 })
 
@@ -40,6 +85,40 @@ const NwsForecastSchema = z.object({
   }),
 })
 
+const NwsAlertsSchema = z.object({
+  features: z.array(z.object({
+    properties: z.object({
+      id: z.string(),
+      event: z.string(),
+      headline: z.string().nullable().optional(),
+      severity: z.string().optional(),
+      certainty: z.string().optional(),
+      urgency: z.string().optional(),
+      senderName: z.string().optional(),
+      sent: z.string().datetime({ offset: true }).optional(),
+      effective: z.string().datetime({ offset: true }),
+      onset: z.string().datetime({ offset: true }).nullable().optional(),
+      expires: z.string().datetime({ offset: true }),
+      ends: z.string().datetime({ offset: true }).nullable().optional(),
+    }),
+  })),
+})
+
+type AlertCategory = 'winter_storm' | 'high_wind' | 'heat' | 'lightning'
+
+// Wind chill is a cold hazard, so the winter pattern is checked before the wind one. Extreme cold and
+// cold weather products replaced the wind chill ones; freeze and frost products are agricultural and stay out.
+const ALERT_CATEGORIES: Array<[AlertCategory, RegExp]> = [
+  ['winter_storm', /winter storm|winter weather|ice storm|blizzard|wind chill|extreme cold|cold weather advisory/i],
+  ['high_wind', /wind/i],
+  ['heat', /heat/i],
+  ['lightning', /thunderstorm|lightning|tornado/i],
+]
+
+export function alertCategory(event: string): AlertCategory | null {
+  return ALERT_CATEGORIES.find(([, pattern]) => pattern.test(event))?.[0] ?? null
+}
+
 function state(params: {
   state: SnapshotAvailability['state']
   checkedAt: string
@@ -59,6 +138,216 @@ export function parseWindMph(value: string): number | null {
   return speeds.length ? Math.max(...speeds) : null
 }
 
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+]
+
+// NWS reports the direction the wind blows from on a 16-point compass.
+export function compassBearing(direction: string): number | null {
+  const index = COMPASS_POINTS.indexOf(direction.trim().toUpperCase())
+  return index === -1 ? null : index * 22.5
+}
+
+// Splits sustained wind into the component across the field and the component along its axis.
+export function fieldWindComponents(params: {
+  windMph: number
+  windBearing: number
+  fieldBearing: number
+}): { crosswind_mph: number; along_axis_mph: number } {
+  const angle = (params.windBearing - params.fieldBearing) * Math.PI / 180
+  return {
+    crosswind_mph: Number(Math.abs(params.windMph * Math.sin(angle)).toFixed(1)),
+    along_axis_mph: Number(Math.abs(params.windMph * Math.cos(angle)).toFixed(1)),
+  }
+}
+
+function durationMs(value: string): number {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(value)
+  if (!match) return 0
+  const [, days, hours, minutes] = match.map(part => Number(part ?? 0))
+  return ((days * 24 + hours) * 60 + minutes) * 60 * 1000
+}
+
+function gustMphAt(grid: z.infer<typeof NwsGridSchema>, kickoffMs: number): number | null {
+  const gusts = grid.properties.windGust
+  if (!gusts) return null
+  const toMph = gusts.uom?.endsWith('m_s-1') ? 2.23694 : gusts.uom?.endsWith('km_h-1') ? 0.621371 : 1
+  const period = gusts.values.find(candidate => {
+    const [start, duration] = candidate.validTime.split('/')
+    const startMs = Date.parse(start)
+    return startMs <= kickoffMs && startMs + durationMs(duration ?? '') > kickoffMs
+  })
+  return period?.value === null || period?.value === undefined ? null : Math.round(period.value * toMph)
+}
+
+type NwsQuantity = z.infer<typeof NwsQuantitySchema>
+
+function speedMph(quantity: NwsQuantity): number | null {
+  if (quantity?.value === null || quantity?.value === undefined) return null
+  const unit = quantity.unitCode ?? ''
+  return quantity.value * (unit.endsWith('m_s-1') ? 2.23694 : unit.endsWith('km_h-1') ? 0.621371 : 1)
+}
+
+function temperatureF(quantity: NwsQuantity): number | null {
+  if (quantity?.value === null || quantity?.value === undefined) return null
+  return quantity.unitCode?.endsWith('degF') ? quantity.value : quantity.value * 9 / 5 + 32
+}
+
+function precipitationInches(quantity: NwsQuantity): number | null {
+  if (quantity?.value === null || quantity?.value === undefined) return null
+  const unit = quantity.unitCode ?? ''
+  return unit.endsWith(':m') ? quantity.value * 39.3701 : unit.endsWith('mm') ? quantity.value / 25.4 : quantity.value
+}
+
+// Summarizes station readings across the game window. Direction is a speed-weighted vector mean, and
+// hourly precipitation is taken once per clock hour because special reports repeat the running total.
+export function summarizeStationReadings(
+  readings: z.infer<typeof NwsStationObservationsSchema>['features'],
+  fieldBearing: number | null,
+): Record<string, number | string | boolean | null> {
+  const properties = readings.map(reading => reading.properties)
+  const known = (values: Array<number | null>) => values.filter((value): value is number => value !== null)
+  const winds = known(properties.map(reading => speedMph(reading.windSpeed)))
+  const gusts = known(properties.map(reading => speedMph(reading.windGust)))
+  const temperatures = known(properties.map(reading => temperatureF(reading.temperature)))
+  const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  const windMph = average(winds)
+  const vector = properties.reduce((sum, reading) => {
+    const speed = speedMph(reading.windSpeed)
+    const bearing = reading.windDirection?.value
+    if (speed === null || bearing === null || bearing === undefined) return sum
+    return { x: sum.x + speed * Math.sin(bearing * Math.PI / 180), y: sum.y + speed * Math.cos(bearing * Math.PI / 180) }
+  }, { x: 0, y: 0 })
+  const windBearing = vector.x || vector.y ? (Math.atan2(vector.x, vector.y) * 180 / Math.PI + 360) % 360 : null
+  const hourly = new Map<string, number>()
+  for (const reading of properties) {
+    const inches = precipitationInches(reading.precipitationLastHour)
+    if (inches === null) continue
+    const hour = reading.timestamp.slice(0, 13)
+    hourly.set(hour, Math.max(hourly.get(hour) ?? 0, inches))
+  }
+  const precipitation = hourly.size ? [...hourly.values()].reduce((sum, value) => sum + value, 0) : null
+  const descriptions = properties.map(reading => reading.textDescription).filter((text): text is string => Boolean(text))
+  const summary = descriptions.length
+    ? descriptions.sort((left, right) => (
+      descriptions.filter(text => text === right).length - descriptions.filter(text => text === left).length
+    ))[0]
+    : null
+  const gust = gusts.length ? Math.round(Math.max(...gusts)) : null
+  const wind = windMph === null ? null : Math.round(windMph)
+  const components = wind !== null && windBearing !== null && fieldBearing !== null
+    ? fieldWindComponents({ windMph: wind, windBearing, fieldBearing })
+    : { crosswind_mph: null, along_axis_mph: null }
+  return {
+    readings: properties.length,
+    wind_mph: wind,
+    wind_bearing_degrees: windBearing === null ? null : Math.round(windBearing),
+    wind_gust_mph: gust,
+    gust_spread_mph: gust !== null && wind !== null ? Math.max(0, gust - wind) : null,
+    field_bearing_degrees: fieldBearing,
+    ...components,
+    temperature_f: temperatures.length ? Math.round(average(temperatures)!) : null,
+    precipitation_in: precipitation === null ? null : Number(precipitation.toFixed(2)),
+    precipitation_observed: (precipitation ?? 0) > 0
+      || descriptions.some(text => /rain|snow|drizzle|shower|thunder|sleet|hail/i.test(text)),
+    summary,
+  }
+}
+
+// After the game window closes, records what the nearest NWS station measured during it.
+async function collectActualWeather(params: {
+  context: WeekProviderContext
+  game: WeekProviderContext['games'][number]
+  venue: NonNullable<ReturnType<typeof getVenueWeatherProfile>>
+  headers: Record<string, string>
+}): Promise<{
+  observations: Observation[]
+  rawImports: RawImport[]
+  availability: SnapshotAvailability
+}> {
+  const { context, game, venue, headers } = params
+  const checkedAt = context.now.toISOString()
+  const windowStart = game.kickoff
+  const windowEnd = new Date(Date.parse(game.kickoff) + KICKOFF_WINDOW_MS).toISOString()
+  const pointUrl = `https://api.weather.gov/points/${venue.latitude},${venue.longitude}`
+  try {
+    const pointResponse = await context.fetch(pointUrl, { headers })
+    if (!pointResponse.ok) throw new Error(`NWS point lookup returned ${pointResponse.status}`)
+    const stationsUrl = NwsPointSchema.parse(await pointResponse.json()).properties.observationStations
+    if (!stationsUrl) throw new Error('NWS point lookup returned no observation stations')
+    const stationsResponse = await context.fetch(stationsUrl, { headers })
+    if (!stationsResponse.ok) throw new Error(`NWS station lookup returned ${stationsResponse.status}`)
+    const station = NwsStationsSchema.parse(await stationsResponse.json()).features[0]?.properties
+    if (!station) throw new Error('NWS returned no observation station near the venue')
+    const observationsUrl = `https://api.weather.gov/stations/${station.stationIdentifier}/observations?start=${encodeURIComponent(windowStart)}&end=${encodeURIComponent(windowEnd)}`
+    const observationsResponse = await context.fetch(observationsUrl, { headers })
+    if (!observationsResponse.ok) throw new Error(`NWS station observations returned ${observationsResponse.status}`)
+    const readings = NwsStationObservationsSchema.parse(await observationsResponse.json()).features
+      .filter(reading => reading.properties.timestamp >= windowStart && reading.properties.timestamp <= windowEnd)
+    if (!readings.length) {
+      return {
+        observations: [],
+        rawImports: [],
+        availability: state({
+          state: 'missing',
+          checkedAt,
+          message: `NWS station ${station.stationIdentifier} returned no readings for the game window`,
+        }),
+      }
+    }
+    const rawImport = createRawImport({
+      provider: 'nws',
+      feed: 'station-observations',
+      sourceUrl: observationsUrl,
+      fetchedAt: checkedAt,
+      payload: { point: { venue: game.venue, ...venue }, station, readings },
+    })
+    const observation = createObservation({
+      gameId: game.game_id,
+      agentId: 'weather',
+      kind: 'measurement',
+      subject: { type: 'venue', id: game.venue ?? game.game_id, label: game.venue },
+      metric: 'weather.actual_conditions',
+      value: {
+        station_id: station.stationIdentifier,
+        station_name: station.name ?? null,
+        window_start: windowStart,
+        window_end: windowEnd,
+        ...summarizeStationReadings(readings, venue.fieldBearing),
+        roof: venue.roof,
+      },
+      source: {
+        provider: 'nws',
+        feed: 'station-observations',
+        quality: 'official',
+        source_url: observationsUrl,
+        terms_url: NWS_TERMS_URL,
+      },
+      observedAt: readings[readings.length - 1].properties.timestamp,
+      effectiveAt: windowStart,
+      importedAt: checkedAt,
+      rawImportId: rawImport.raw_import_id,
+      providerRecordId: `${game.game_id}:actual:${station.stationIdentifier}`,
+    })
+    return {
+      observations: [observation],
+      rawImports: [rawImport],
+      availability: state({ state: 'available', checkedAt, observationCount: 1 }),
+    }
+  } catch (error) {
+    return {
+      observations: [],
+      rawImports: [],
+      availability: state({
+        state: 'degraded',
+        checkedAt,
+        message: error instanceof Error ? error.message : 'NWS station observations failed',
+      }),
+    }
+  }
+}
+
 async function collectGameWeather(
   context: WeekProviderContext,
   gameIndex: number,
@@ -95,6 +384,80 @@ async function collectGameWeather(
   }
 
   const kickoffMs = Date.parse(game.kickoff)
+  const headers = {
+    Accept: 'application/geo+json',
+    'User-Agent': process.env.SWANTAIL_NWS_USER_AGENT ?? 'Swantail/0.1 (https://github.com/KingJoefa/AFBParley)',
+  }
+  // Once the game window has passed, the roof status decides whether the station readings describe the field.
+  const windowClosed = context.now.getTime() >= kickoffMs + KICKOFF_WINDOW_MS
+  const roof = venue.roof === 'retractable'
+    ? loadRoofStatus({ season: game.season, gameId: game.game_id, now: context.now })
+    : null
+  const roofImport = roof
+    ? createRawImport({
+      provider: 'swantail',
+      feed: 'roof-status',
+      sourceUrl: roof.source_url,
+      fetchedAt: checkedAt,
+      payload: { venue: game.venue, ...roof },
+    })
+    : null
+  const roofObservations = roof && roofImport
+    ? [createObservation({
+      gameId: game.game_id,
+      agentId: 'weather',
+      kind: 'venue',
+      subject: { type: 'venue', id: game.venue ?? game.game_id, label: game.venue },
+      metric: 'venue.roof_status',
+      value: {
+        roof: venue.roof,
+        status: roof.status,
+        announced_at: roof.announced_at,
+        announced_by: roof.source,
+        ...(windowClosed ? { window_closed: true } : {}),
+      },
+      source: {
+        provider: 'swantail',
+        feed: 'roof-status',
+        quality: 'internal',
+        source_url: roof.source_url,
+      },
+      observedAt: roof.announced_at,
+      effectiveAt: game.kickoff,
+      // After the game the roof status is settled, like the station readings it qualifies.
+      ...(windowClosed ? {} : { expiresAt: new Date(kickoffMs + 6 * 60 * 60 * 1000).toISOString() }),
+      importedAt: checkedAt,
+      rawImportId: roofImport.raw_import_id,
+      providerRecordId: `${game.game_id}:roof:${roof.announced_at}`,
+    })]
+    : []
+  if (roof?.status === 'closed' && roofImport) {
+    return {
+      observations: roofObservations,
+      rawImports: [roofImport],
+      availability: state({
+        state: 'available',
+        checkedAt,
+        observationCount: roofObservations.length,
+        message: windowClosed
+          ? 'Retractable roof was closed for the game; station readings are not treated as a game condition'
+          : 'Retractable roof announced closed; exterior weather is not treated as a game condition',
+      }),
+    }
+  }
+  if (windowClosed) {
+    const actual = await collectActualWeather({ context, game, venue, headers })
+    if (!roofImport) return actual
+    return {
+      observations: [...roofObservations, ...actual.observations],
+      rawImports: [roofImport, ...actual.rawImports],
+      availability: {
+        ...actual.availability,
+        observation_count: roofObservations.length + actual.observations.length,
+      },
+    }
+  }
+
   if (kickoffMs - context.now.getTime() > FORECAST_HORIZON_MS) {
     return {
       observations: [],
@@ -109,10 +472,6 @@ async function collectGameWeather(
 
   const pointUrl = `https://api.weather.gov/points/${venue.latitude},${venue.longitude}`
   try {
-    const headers = {
-      Accept: 'application/geo+json',
-      'User-Agent': process.env.SWANTAIL_NWS_USER_AGENT ?? 'Swantail/0.1 (https://github.com/KingJoefa/AFBParley)',
-    }
     const pointResponse = await context.fetch(pointUrl, { headers })
     if (!pointResponse.ok) throw new Error(`NWS point lookup returned ${pointResponse.status}`)
     const point = NwsPointSchema.parse(await pointResponse.json())
@@ -123,6 +482,13 @@ async function collectGameWeather(
     const period = forecast.properties.periods.find(candidate => (
       Date.parse(candidate.startTime) <= kickoffMs && Date.parse(candidate.endTime) > kickoffMs
     ))
+    // Hourly periods omit gusts; the gridpoint series carries them, and losing it only loses the gust.
+    const gridUrl = point.properties.forecastGridData
+    const gust = gridUrl
+      ? await context.fetch(gridUrl, { headers })
+        .then(async response => response.ok ? gustMphAt(NwsGridSchema.parse(await response.json()), kickoffMs) : null)
+        .catch(() => null)
+      : null
     if (!period) {
       return {
         observations: [],
@@ -134,15 +500,75 @@ async function collectGameWeather(
         }),
       }
     }
+    // Alerts are enrichment as well; an unavailable alerts endpoint leaves the forecast intact.
+    const alertsUrl = `https://api.weather.gov/alerts/active?point=${venue.latitude},${venue.longitude}`
+    const alerts = await context.fetch(alertsUrl, { headers })
+      .then(async response => response.ok ? NwsAlertsSchema.parse(await response.json()).features : [])
+      .catch(() => [])
+    const relevantAlerts = alerts
+      .map(feature => feature.properties)
+      .filter(alert => alertCategory(alert.event) !== null)
+    const alertImport = relevantAlerts.length
+      ? createRawImport({
+        provider: 'nws',
+        feed: 'active-alerts',
+        sourceUrl: alertsUrl,
+        fetchedAt: checkedAt,
+        payload: relevantAlerts,
+      })
+      : null
+    const alertObservations = alertImport
+      ? relevantAlerts.map(alert => {
+        const startsAt = alert.onset ?? alert.effective
+        const endsAt = alert.ends ?? alert.expires
+        return createObservation({
+          gameId: game.game_id,
+          agentId: 'weather',
+          kind: 'report',
+          subject: { type: 'venue', id: game.venue ?? game.game_id, label: game.venue },
+          metric: 'weather.active_alert',
+          value: {
+            event: alert.event,
+            category: alertCategory(alert.event),
+            headline: alert.headline ?? alert.event,
+            severity: alert.severity ?? null,
+            certainty: alert.certainty ?? null,
+            urgency: alert.urgency ?? null,
+            sender: alert.senderName ?? null,
+            starts_at: startsAt,
+            ends_at: endsAt,
+            overlaps_kickoff: Date.parse(startsAt) < kickoffMs + KICKOFF_WINDOW_MS && Date.parse(endsAt) > kickoffMs,
+          },
+          source: {
+            provider: 'nws',
+            feed: 'active-alerts',
+            quality: 'official',
+            source_url: alertsUrl,
+            terms_url: NWS_TERMS_URL,
+          },
+          observedAt: alert.sent ?? checkedAt,
+          effectiveAt: startsAt,
+          expiresAt: endsAt,
+          importedAt: checkedAt,
+          rawImportId: alertImport.raw_import_id,
+          providerRecordId: alert.id,
+        })
+      })
+      : []
 
     const rawImport = createRawImport({
       provider: 'nws',
       feed: 'hourly-forecast',
       sourceUrl: point.properties.forecastHourly,
       fetchedAt: checkedAt,
-      payload: { point: { venue: game.venue, ...venue }, forecast: period },
+      payload: { point: { venue: game.venue, ...venue }, forecast: period, wind_gust_mph: gust },
     })
     const observedAt = forecast.properties.updated ?? forecast.properties.generatedAt ?? checkedAt
+    const windMph = parseWindMph(period.windSpeed)
+    const windBearing = compassBearing(period.windDirection)
+    const components = windMph !== null && windBearing !== null && venue.fieldBearing !== null
+      ? fieldWindComponents({ windMph, windBearing, fieldBearing: venue.fieldBearing })
+      : { crosswind_mph: null, along_axis_mph: null }
     const observation = createObservation({
       gameId: game.game_id,
       agentId: 'weather',
@@ -151,9 +577,14 @@ async function collectGameWeather(
       metric: 'weather.kickoff_forecast',
       value: {
         temperature_f: period.temperatureUnit === 'F' ? period.temperature : null,
-        wind_mph: parseWindMph(period.windSpeed),
+        wind_mph: windMph,
         wind_text: period.windSpeed,
         wind_direction: period.windDirection,
+        wind_bearing_degrees: windBearing,
+        wind_gust_mph: gust,
+        gust_spread_mph: gust !== null && windMph !== null ? Math.max(0, gust - windMph) : null,
+        field_bearing_degrees: venue.fieldBearing,
+        ...components,
         precipitation_probability: period.probabilityOfPrecipitation?.value ?? null,
         summary: period.shortForecast,
         roof: venue.roof,
@@ -167,15 +598,19 @@ async function collectGameWeather(
       },
       observedAt,
       effectiveAt: period.startTime,
-      expiresAt: new Date(context.now.getTime() + FRESHNESS_MS).toISOString(),
+      expiresAt: new Date(Date.parse(observedAt) + FRESHNESS_MS).toISOString(),
       importedAt: checkedAt,
       rawImportId: rawImport.raw_import_id,
       providerRecordId: `${game.game_id}:${period.number}:${period.startTime}`,
     })
     return {
-      observations: [observation],
-      rawImports: [rawImport],
-      availability: state({ state: 'available', checkedAt, observationCount: 1 }),
+      observations: [observation, ...alertObservations, ...roofObservations],
+      rawImports: [rawImport, ...(alertImport ? [alertImport] : []), ...(roofImport ? [roofImport] : [])],
+      availability: state({
+        state: 'available',
+        checkedAt,
+        observationCount: 1 + alertObservations.length + roofObservations.length,
+      }),
     }
   } catch (error) {
     return {
@@ -220,3 +655,219 @@ export const nwsWeatherProvider: ObservationProvider = {
     })
   },
 }
+
+const TREND_WIND_MPH = 5
+const TREND_PRECIPITATION_POINTS = 20
+const LARGE_WIND_REVISION_MPH = 8
+const LARGE_PRECIPITATION_REVISION_POINTS = 30
+
+export type ForecastTrend = 'strengthening' | 'easing' | 'stable' | 'volatile'
+
+function forecastNumber(observation: Observation, key: string): number | null {
+  const value = observation.value as Record<string, unknown>
+  return typeof value[key] === 'number' ? value[key] as number : null
+}
+
+function revisions(series: Array<number | null>): number[] {
+  const known = series.filter((value): value is number => value !== null)
+  return known.slice(1).map((value, index) => value - known[index])
+}
+
+function shiftDirection(change: number, threshold: number): -1 | 0 | 1 {
+  return change >= threshold ? 1 : change <= -threshold ? -1 : 0
+}
+
+// Worsening conditions strengthen the forecast; a reversal between pulls, or wind and precipitation
+// moving in opposite directions, makes it volatile.
+export function forecastTrend(forecasts: Observation[]): {
+  trend: ForecastTrend
+  wind_change_mph: number | null
+  precipitation_change: number | null
+  max_wind_revision_mph: number
+  max_precipitation_revision: number
+  large_revision: boolean
+} {
+  const wind = revisions(forecasts.map(forecast => forecastNumber(forecast, 'wind_mph')))
+  const precipitation = revisions(forecasts.map(forecast => forecastNumber(forecast, 'precipitation_probability')))
+  const total = (steps: number[]) => steps.length ? steps.reduce((sum, step) => sum + step, 0) : null
+  const windChange = total(wind)
+  const precipitationChange = total(precipitation)
+  const maxWind = Math.max(0, ...wind.map(Math.abs))
+  const maxPrecipitation = Math.max(0, ...precipitation.map(Math.abs))
+  const reverses = (steps: number[], threshold: number) => {
+    const directions = steps.map(step => shiftDirection(step, threshold)).filter(direction => direction !== 0)
+    return directions.some(direction => direction !== directions[0])
+  }
+  const windShift = shiftDirection(windChange ?? 0, TREND_WIND_MPH)
+  const precipitationShift = shiftDirection(precipitationChange ?? 0, TREND_PRECIPITATION_POINTS)
+  const trend: ForecastTrend = reverses(wind, TREND_WIND_MPH)
+    || reverses(precipitation, TREND_PRECIPITATION_POINTS)
+    || windShift * precipitationShift === -1
+    ? 'volatile'
+    : windShift + precipitationShift > 0
+      ? 'strengthening'
+      : windShift + precipitationShift < 0 ? 'easing' : 'stable'
+  return {
+    trend,
+    wind_change_mph: windChange,
+    precipitation_change: precipitationChange,
+    max_wind_revision_mph: maxWind,
+    max_precipitation_revision: maxPrecipitation,
+    large_revision: maxWind >= LARGE_WIND_REVISION_MPH || maxPrecipitation >= LARGE_PRECIPITATION_REVISION_POINTS,
+  }
+}
+
+// Links this run's kickoff forecast to the forecasts already stored in earlier snapshots of the same game.
+export function attachForecastTrajectories(params: {
+  feed: IngestionFeedResult
+  history: Observation[]
+  now: Date
+}): IngestionFeedResult {
+  const checkedAt = params.now.toISOString()
+  const trajectories = params.feed.observations
+    .filter(observation => observation.metric === 'weather.kickoff_forecast')
+    .flatMap(current => {
+      const forecasts = [
+        ...params.history.filter(item => (
+          item.game_id === current.game_id
+          && item.metric === current.metric
+          && item.observation_id !== current.observation_id
+          && item.observed_at < current.observed_at
+        )),
+        current,
+      ].sort((left, right) => left.observed_at.localeCompare(right.observed_at))
+      if (forecasts.length < 2) return []
+      const points = forecasts.map(forecast => ({
+        observation_id: forecast.observation_id,
+        observed_at: forecast.observed_at,
+        wind_mph: forecastNumber(forecast, 'wind_mph'),
+        wind_gust_mph: forecastNumber(forecast, 'wind_gust_mph'),
+        precipitation_probability: forecastNumber(forecast, 'precipitation_probability'),
+        temperature_f: forecastNumber(forecast, 'temperature_f'),
+      }))
+      const rawImport = createRawImport({
+        provider: 'swantail',
+        feed: 'forecast-trajectory',
+        sourceUrl: current.source.source_url,
+        fetchedAt: checkedAt,
+        payload: { game_id: current.game_id, points },
+      })
+      const observation = createObservation({
+        gameId: current.game_id,
+        agentId: 'weather',
+        kind: 'forecast',
+        subject: current.subject,
+        metric: 'weather.forecast_trajectory',
+        value: {
+          pulls: points.length,
+          first_observed_at: points[0].observed_at,
+          ...forecastTrend(forecasts),
+          points,
+        },
+        source: {
+          provider: 'swantail',
+          feed: 'forecast-trajectory',
+          quality: 'internal',
+          source_url: current.source.source_url,
+        },
+        observedAt: current.observed_at,
+        effectiveAt: current.effective_at,
+        expiresAt: current.expires_at,
+        importedAt: checkedAt,
+        rawImportId: rawImport.raw_import_id,
+      })
+      return [{ observation, rawImport }]
+    })
+  if (!trajectories.length) return params.feed
+  const gameStates = { ...params.feed.game_states }
+  for (const { observation } of trajectories) {
+    const current = gameStates[observation.game_id]
+    if (current) gameStates[observation.game_id] = { ...current, observation_count: current.observation_count + 1 }
+  }
+  return IngestionFeedResultSchema.parse({
+    ...params.feed,
+    raw_imports: [...params.feed.raw_imports, ...trajectories.map(item => item.rawImport)],
+    observations: [...params.feed.observations, ...trajectories.map(item => item.observation)],
+    game_states: gameStates,
+  })
+}
+
+// Scores the last stored pre-kickoff forecast against the measured game-window conditions, so each venue
+// accumulates a forecast-error history in its snapshots.
+export function attachForecastErrors(params: {
+  feed: IngestionFeedResult
+  history: Observation[]
+  now: Date
+}): IngestionFeedResult {
+  const checkedAt = params.now.toISOString()
+  const errors = params.feed.observations
+    .filter(observation => observation.metric === 'weather.actual_conditions')
+    .flatMap(actual => {
+      const forecast = params.history
+        .filter(item => (
+          item.game_id === actual.game_id
+          && item.metric === 'weather.kickoff_forecast'
+          && item.observed_at <= actual.effective_at
+        ))
+        .sort((left, right) => left.observed_at.localeCompare(right.observed_at))
+        .at(-1)
+      if (!forecast) return []
+      const difference = (key: string) => {
+        const measured = forecastNumber(actual, key)
+        const forecasted = forecastNumber(forecast, key)
+        return measured === null || forecasted === null ? null : Number((measured - forecasted).toFixed(1))
+      }
+      const probability = forecastNumber(forecast, 'precipitation_probability')
+      const observed = (actual.value as Record<string, unknown>).precipitation_observed === true
+      const value = {
+        forecast_observation_id: forecast.observation_id,
+        forecast_observed_at: forecast.observed_at,
+        lead_hours: Number(((Date.parse(actual.effective_at) - Date.parse(forecast.observed_at)) / (60 * 60 * 1000)).toFixed(1)),
+        wind_error_mph: difference('wind_mph'),
+        gust_error_mph: difference('wind_gust_mph'),
+        crosswind_error_mph: difference('crosswind_mph'),
+        temperature_error_f: difference('temperature_f'),
+        precipitation_probability: probability,
+        precipitation_observed: observed,
+        precipitation_brier: probability === null ? null : Number(((probability / 100 - (observed ? 1 : 0)) ** 2).toFixed(3)),
+      }
+      const rawImport = createRawImport({
+        provider: 'swantail',
+        feed: 'forecast-error',
+        sourceUrl: actual.source.source_url,
+        fetchedAt: checkedAt,
+        payload: { game_id: actual.game_id, actual_observation_id: actual.observation_id, ...value },
+      })
+      const observation = createObservation({
+        gameId: actual.game_id,
+        agentId: 'weather',
+        kind: 'measurement',
+        subject: actual.subject,
+        metric: 'weather.forecast_error',
+        value,
+        source: {
+          provider: 'swantail',
+          feed: 'forecast-error',
+          quality: 'internal',
+          source_url: actual.source.source_url,
+        },
+        observedAt: actual.observed_at,
+        effectiveAt: actual.effective_at,
+        importedAt: checkedAt,
+        rawImportId: rawImport.raw_import_id,
+      })
+      return [{ observation, rawImport }]
+    })
+  if (!errors.length) return params.feed
+  const gameStates = { ...params.feed.game_states }
+  for (const { observation } of errors) {
+    const current = gameStates[observation.game_id]
+    if (current) gameStates[observation.game_id] = { ...current, observation_count: current.observation_count + 1 }
+  }
+  return IngestionFeedResultSchema.parse({
+    ...params.feed,
+    raw_imports: [...params.feed.raw_imports, ...errors.map(item => item.rawImport)],
+    observations: [...params.feed.observations, ...errors.map(item => item.observation)],
+    game_states: gameStates,
+  })
+}
@@ -0,0 +1,228 @@
+import { parse } from 'csv-parse/sync'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { z } from 'zod'
+import {
+  IngestionFeedResultSchema,
+  type IngestionFeedResult,
+  type Observation,
+  type RawImport,
+  type SnapshotAvailability,
+} from '@/lib/data/contracts'
+import { createObservation, createRawImport } from '@/lib/data/providers/shared'
+import type { ObservationProvider } from '@/lib/data/providers/types'
+import type { ScheduleGame } from '@/lib/nfl/schedule'
+
+export const MARKET_TYPES = ['spread', 'total'] as const
+
+const MARKET_SIDES = {
+  spread: ['away', 'home'],
+  total: ['over', 'under'],
+} as const
+
+const OddsQuoteSchema = z.object({
+  game_id: z.string().min(1),
+  book: z.string().min(1),
+  market: z.enum(MARKET_TYPES),
+  side: z.enum(['away', 'home', 'over', 'under']),
+  line: z.coerce.number().finite(),
+  price: z.coerce.number().int().refine(value => Math.abs(value) >= 100, 'American price must be at least 100 in magnitude'),
+  quoted_at: z.string().datetime({ offset: true }),
+  source_url: z.string().url(),
+}).superRefine((quote, context) => {
+  if (!(MARKET_SIDES[quote.market] as readonly string[]).includes(quote.side)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `A ${quote.market} quote cannot be on the ${quote.side} side`,
+      path: ['side'],
+    })
+  }
+  if (quote.market === 'total' && quote.line <= 0) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'A total line must be positive',
+      path: ['line'],
+    })
+  }
+})
+
+const OddsFileSchema = z.object({
+  schema_version: z.number().int().positive(),
+  quotes: z.array(OddsQuoteSchema),
+})
+
+export type OddsQuote = z.infer<typeof OddsQuoteSchema>
+
+// Stand-in for a licensed odds feed: operators drop per-book spread and total quotes into
+// data/odds as JSON ({ schema_version, quotes }) or CSV with the same quote columns.
+// SWANTAIL_ODDS_DIR points at another directory.
+function oddsRoot(): string {
+  return process.env.SWANTAIL_ODDS_DIR ?? path.join(process.cwd(), 'data', 'odds')
+}
+
+export function parseOddsFile(fileName: string, body: string): OddsQuote[] {
+  if (fileName.endsWith('.csv')) {
+    const rows = parse(body, { columns: true, skip_empty_lines: true, trim: true, bom: true }) as unknown[]
+    return z.array(OddsQuoteSchema).parse(rows)
+  }
+  return OddsFileSchema.parse(JSON.parse(body)).quotes
+}
+
+function marketSubject(game: ScheduleGame, quote: OddsQuote): Observation['subject'] {
+  if (quote.market === 'total') return { type: 'game', id: game.game_id, label: game.display }
+  const team = quote.side === 'home' ? game.home_team : game.away_team
+  return { type: 'team', id: team, team }
+}
+
+// Only pregame quotes already posted at ingestion time count.
+function quotedBy(quote: OddsQuote, game: ScheduleGame, now: Date): boolean {
+  return quote.game_id === game.game_id
+    && Date.parse(quote.quoted_at) <= Math.min(now.getTime(), Date.parse(game.kickoff))
+}
+
+// Each book keeps its latest quote per market side, and earlier quotes remain in earlier snapshots.
+export function currentQuotes(quotes: OddsQuote[], game: ScheduleGame, now: Date): OddsQuote[] {
+  const latest = new Map<string, OddsQuote>()
+  for (const quote of quotes) {
+    if (!quotedBy(quote, game, now)) continue
+    const key = `${quote.book}:${quote.market}:${quote.side}`
+    const existing = latest.get(key)
+    if (!existing || Date.parse(quote.quoted_at) > Date.parse(existing.quoted_at)) latest.set(key, quote)
+  }
+  return [...latest.values()].sort((left, right) => (
+    left.book.localeCompare(right.book)
+    || left.market.localeCompare(right.market)
+    || left.side.localeCompare(right.side)
+  ))
+}
+
+function state(params: {
+  state: SnapshotAvailability['state']
+  checkedAt: string
+  observationCount?: number
+  message?: string
+}): SnapshotAvailability {
+  return {
+    state: params.state,
+    checked_at: params.checkedAt,
+    observation_count: params.observationCount ?? 0,
+    ...(params.message ? { message: params.message } : {}),
+  }
+}
+
+export const localOddsProvider: ObservationProvider = {
+  agentIds: ['market'],
+  async collect(context): Promise<IngestionFeedResult> {
+    const checkedAt = context.now.toISOString()
+    const root = oddsRoot()
+    const fileNames = existsSync(root)
+      ? readdirSync(root).filter(name => name.endsWith('.json') || name.endsWith('.csv')).sort()
+      : []
+    if (!fileNames.length) {
+      return IngestionFeedResultSchema.parse({
+        provider: 'swantail',
+        feed: 'odds-file',
+        state: 'not_configured',
+        checked_at: checkedAt,
+        message: 'No odds files are present in the drop directory',
+        raw_imports: [],
+        observations: [],
+        game_states: Object.fromEntries(context.games.map(game => [game.game_id, state({
+          state: 'not_configured',
+          checkedAt,
+          message: 'No odds files are present in the drop directory',
+        })])),
+      })
+    }
+
+    const gamesById = new Map(context.games.map(game => [game.game_id, game]))
+    const rawImports: RawImport[] = []
+    const observations: Observation[] = []
+    const invalidFiles: string[] = []
+    // Quotes from every file compete for the latest slot, so a book's spread updated in a later drop
+    // replaces the earlier file's quote instead of standing beside it.
+    const sourced: Array<{ quote: OddsQuote; rawImportId: string }> = []
+    for (const fileName of fileNames) {
+      const filePath = path.join(root, fileName)
+      let quotes: OddsQuote[]
+      try {
+        quotes = parseOddsFile(fileName, readFileSync(filePath, 'utf8'))
+      } catch {
+        invalidFiles.push(fileName)
+        continue
+      }
+      // The raw import keeps only quotes the run could use, so a backfill stores nothing posted after its as-of time.
+      const weekQuotes = quotes.filter(quote => {
+        const game = gamesById.get(quote.game_id)
+        return game !== undefined && quotedBy(quote, game, context.now)
+      })
+      if (!weekQuotes.length) continue
+      const rawImport = createRawImport({
+        provider: 'swantail',
+        feed: 'odds-file',
+        sourceUrl: pathToFileURL(filePath).href,
+        fetchedAt: checkedAt,
+        payload: { file: fileName, quotes: weekQuotes },
+      })
+      rawImports.push(rawImport)
+      sourced.push(...weekQuotes.map(quote => ({ quote, rawImportId: rawImport.raw_import_id })))
+    }
+
+    const rawImportIds = new Map(sourced.map(item => [item.quote, item.rawImportId]))
+    const quotes = sourced.map(item => item.quote)
+    for (const game of context.games) {
+      for (const quote of currentQuotes(quotes, game, context.now)) {
+        observations.push(createObservation({
+          gameId: game.game_id,
+          agentId: 'market',
+          kind: 'market',
+          subject: marketSubject(game, quote),
+          metric: `market.${quote.market}`,
+          value: {
+            book: quote.book,
+            market: quote.market,
+            side: quote.side,
+            line: quote.line,
+            price: quote.price,
+            quoted_at: quote.quoted_at,
+          },
+          source: {
+            provider: 'swantail',
+            feed: 'odds-file',
+            quality: 'internal',
+            source_url: quote.source_url,
+          },
+          observedAt: quote.quoted_at,
+          effectiveAt: quote.quoted_at,
+          expiresAt: game.kickoff,
+          importedAt: checkedAt,
+          rawImportId: rawImportIds.get(quote)!,
+          providerRecordId: `${game.game_id}:${quote.book}:${quote.market}:${quote.side}:${quote.quoted_at}`,
+        }))
+      }
+    }
+
+    const invalidMessage = invalidFiles.length ? `Skipped unreadable odds files: ${invalidFiles.join(', ')}` : undefined
+    const gameStates = Object.fromEntries(context.games.map(game => {
+      const count = observations.filter(observation => observation.game_id === game.game_id).length
+      return [game.game_id, state({
+        state: count ? 'available' : invalidFiles.length ? 'degraded' : 'missing',
+        checkedAt,
+        observationCount: count,
+        message: count ? invalidMessage : invalidMessage ?? 'No pregame spread or total quotes for this game',
+      })]
+    }))
+
+    return IngestionFeedResultSchema.parse({
+      provider: 'swantail',
+      feed: 'odds-file',
+      state: invalidFiles.length ? 'degraded' : observations.length ? 'available' : 'missing',
+      checked_at: checkedAt,
+      ...(invalidMessage ? { message: invalidMessage } : {}),
+      raw_imports: rawImports,
+      observations,
+      game_states: gameStates,
+    })
+  },
+}
@@ -8,12 +8,14 @@ import {
   type Observation,
   type SnapshotAvailability,
 } from '@/lib/data/contracts'
-import { contentHash, stableId } from '@/lib/data/hash'
+import { snapshotContentHash, stableId } from '@/lib/data/hash'
+import { loadGameWorkloads, type GameWorkload } from '@/lib/data/providers/nflverse'
 import { createObservation, createRawImport } from '@/lib/data/providers/shared'
 import type { ObservationProvider, WeekProviderContext } from '@/lib/data/providers/types'
-import { loadSeasonGames, type ScheduleGame } from '@/lib/nfl/schedule'
+import { createDownloadCache } from '@/lib/data/resilience'
+import { loadSchedule, loadSeasonGames, type ScheduleGame } from '@/lib/nfl/schedule'
 import type { TeamCode } from '@/lib/nfl/teams'
-import { getVenueWeatherProfile } from '@/lib/nfl/venues'
+import { getVenueLocation, localClockHour, utcOffsetHours } from '@/lib/nfl/venues'
 
 const EARTH_RADIUS_MILES = 3958.8
 
@@ -27,7 +29,13 @@ export type TeamRestContext = {
   current_site: 'home' | 'away' | 'neutral'
   consecutive_road_games: boolean
   travel_miles_from_home: number | null
-  data_scope: 'regular_season_schedule'
+  time_zones_crossed: number | null
+  travel_direction: 'east' | 'west' | 'same_zone' | null
+  body_clock_kickoff_hour: number | null
+  previous_overtime: boolean | null
+  previous_defensive_snaps: number | null
+  previous_offensive_plays: number | null
+  data_scope: 'regular_season_schedule' | 'schedule_and_workload'
 }
 
 function availability(checkedAt: string, count: number): SnapshotAvailability {
@@ -72,6 +80,7 @@ export function deriveTeamRestContext(params: {
   game: ScheduleGame
   team: TeamCode
   seasonGames: ScheduleGame[]
+  workloads?: GameWorkload[]
 }): TeamRestContext {
   const previousGame = params.seasonGames
     .filter(game => gameIncludesTeam(game, params.team))
@@ -93,13 +102,25 @@ export function deriveTeamRestContext(params: {
       ? 'home'
       : 'away'
   const baseVenue = homeVenue(params.seasonGames, params.team)
-  const baseLocation = getVenueWeatherProfile(baseVenue)
-  const gameLocation = getVenueWeatherProfile(params.game.venue)
+  const baseLocation = getVenueLocation(baseVenue)
+  const gameLocation = getVenueLocation(params.game.venue)
   const travelMiles = currentSite === 'home'
     ? 0
     : baseLocation && gameLocation
       ? Math.round(distanceMiles(baseLocation, gameLocation))
       : null
+  // Offsets are read at kickoff so daylight-saving transitions and Arizona's fixed offset stay correct.
+  const kickoff = new Date(params.game.kickoff)
+  const zoneShift = baseLocation && gameLocation
+    ? utcOffsetHours(gameLocation.timeZone, kickoff) - utcOffsetHours(baseLocation.timeZone, kickoff)
+    : null
+  const workload = previousGame
+    ? params.workloads?.find(candidate => (
+      candidate.team === params.team
+      && candidate.season === previousGame.season
+      && candidate.week === previousGame.week
+    ))
+    : undefined
 
   return {
     team: params.team,
@@ -111,68 +132,102 @@ export function deriveTeamRestContext(params: {
     current_site: currentSite,
     consecutive_road_games: Boolean(previousGame && isRoadGame(previousGame, params.team) && isRoadGame(params.game, params.team)),
     travel_miles_from_home: travelMiles,
-    data_scope: 'regular_season_schedule',
+    time_zones_crossed: zoneShift === null ? null : Math.abs(zoneShift),
+    travel_direction: zoneShift === null ? null : zoneShift > 0 ? 'east' : zoneShift < 0 ? 'west' : 'same_zone',
+    body_clock_kickoff_hour: baseLocation ? Number(localClockHour(baseLocation.timeZone, kickoff).toFixed(2)) : null,
+    previous_overtime: workload?.overtime ?? null,
+    previous_defensive_snaps: workload?.defensive_snaps ?? null,
+    previous_offensive_plays: workload?.offensive_plays ?? null,
+    data_scope: workload ? 'schedule_and_workload' : 'regular_season_schedule',
   }
 }
 
-export const scheduleRestProvider: ObservationProvider = {
-  agentIds: ['rest'],
-  async collect(context: WeekProviderContext): Promise<IngestionFeedResult> {
-    const checkedAt = context.now.toISOString()
-    const sourceUrl = `https://www.nfl.com/schedules/${context.season}/REG${context.week}/`
-    const seasonGames = loadSeasonGames(context.season)
-    const contexts = context.games.flatMap(game => (
-      [game.away_team, game.home_team].map(team => ({
-        game,
-        context: deriveTeamRestContext({ game, team, seasonGames }),
-      }))
-    ))
-    const rawImport = createRawImport({
-      provider: 'swantail',
-      feed: 'schedule-derived-rest',
-      sourceUrl,
-      fetchedAt: checkedAt,
-      payload: contexts.map(item => ({ game_id: item.game.game_id, ...item.context })),
-    })
-    const observations: Observation[] = contexts.map(item => createObservation({
-      gameId: item.game.game_id,
-      agentId: 'rest',
-      kind: 'measurement',
-      subject: {
-        type: 'team',
-        id: item.context.team,
-        label: item.context.team,
-        team: item.context.team,
-      },
-      metric: 'team.schedule_rest_context',
-      value: item.context,
-      source: {
-        provider: 'swantail',
-        feed: 'schedule-derived-rest',
-        quality: 'internal',
-        source_url: sourceUrl,
-      },
-      observedAt: checkedAt,
-      effectiveAt: checkedAt,
-      expiresAt: new Date(Date.parse(item.game.kickoff) + 6 * 60 * 60 * 1000).toISOString(),
-      importedAt: checkedAt,
-      rawImportId: rawImport.raw_import_id,
-      providerRecordId: `${item.game.game_id}:${item.context.team}`,
-    }))
-    const gameStates = Object.fromEntries(context.games.map(game => {
-      const count = observations.filter(observation => observation.game_id === game.game_id).length
-      return [game.game_id, availability(checkedAt, count)]
-    }))
+// Dated by the data rather than the run, so an unchanged schedule keeps the same observation ids:
+// the schedule import, or the previous kickoff once that game's workload is part of the context.
+function restObservedAt(context: TeamRestContext, scheduleImportedAt: string): string {
+  const workloadAt = context.data_scope === 'schedule_and_workload' ? context.previous_kickoff : null
+  const observedAt = workloadAt && Date.parse(workloadAt) > Date.parse(scheduleImportedAt)
+    ? workloadAt
+    : scheduleImportedAt
+  return new Date(observedAt).toISOString()
+}
 
-    return IngestionFeedResultSchema.parse({
+function scheduleRestFeed(params: {
+  context: WeekProviderContext
+  workloads: GameWorkload[]
+  workloadSources: string[]
+}): IngestionFeedResult {
+  const { context } = params
+  const checkedAt = context.now.toISOString()
+  const sourceUrl = `https://www.nfl.com/schedules/${context.season}/REG${context.week}/`
+  const seasonGames = loadSeasonGames(context.season)
+  const scheduleImportedAt = loadSchedule({ season: context.season, week: context.week }).lastUpdated
+  const contexts = context.games.flatMap(game => (
+    [game.away_team, game.home_team].map(team => ({
+      game,
+      context: deriveTeamRestContext({ game, team, seasonGames, workloads: params.workloads }),
+    }))
+  ))
+  const rawImport = createRawImport({
+    provider: 'swantail',
+    feed: 'schedule-derived-rest',
+    sourceUrl,
+    fetchedAt: checkedAt,
+    payload: contexts.map(item => ({ game_id: item.game.game_id, ...item.context })),
+  })
+  const workloadImport = createRawImport({
+    provider: 'nflverse',
+    feed: 'game-workload',
+    sourceUrl: params.workloadSources[0] ?? sourceUrl,
+    fetchedAt: checkedAt,
+    payload: { sources: params.workloadSources, workloads: params.workloads },
+  })
+  const observations: Observation[] = contexts.map(item => createObservation({
+    gameId: item.game.game_id,
+    agentId: 'rest',
+    kind: 'measurement',
+    subject: {
+      type: 'team',
+      id: item.context.team,
+      label: item.context.team,
+      team: item.context.team,
+    },
+    metric: 'team.schedule_rest_context',
+    value: item.context,
+    source: {
       provider: 'swantail',
       feed: 'schedule-derived-rest',
-      state: observations.length ? 'available' : 'missing',
-      checked_at: checkedAt,
-      raw_imports: [rawImport],
-      observations,
-      game_states: gameStates,
-    })
+      quality: 'internal',
+      source_url: sourceUrl,
+    },
+    observedAt: restObservedAt(item.context, scheduleImportedAt),
+    effectiveAt: restObservedAt(item.context, scheduleImportedAt),
+    expiresAt: new Date(Date.parse(item.game.kickoff) + 6 * 60 * 60 * 1000).toISOString(),
+    importedAt: checkedAt,
+    rawImportId: rawImport.raw_import_id,
+    providerRecordId: `${item.game.game_id}:${item.context.team}`,
+  }))
+  const gameStates = Object.fromEntries(context.games.map(game => {
+    const count = observations.filter(observation => observation.game_id === game.game_id).length
+    return [game.game_id, availability(checkedAt, count)]
+  }))
+
+  return IngestionFeedResultSchema.parse({
+    provider: 'swantail',
+    feed: 'schedule-derived-rest',
+    state: observations.length ? 'available' : 'missing',
+    checked_at: checkedAt,
+    raw_imports: params.workloads.length ? [rawImport, workloadImport] : [rawImport],
+    observations,
+    game_states: gameStates,
+  })
+}
+
+export const scheduleRestProvider: ObservationProvider = {
+  agentIds: ['rest'],
+  async collect(context: WeekProviderContext): Promise<IngestionFeedResult> {
+    const { workloads, sources } = await loadGameWorkloads(context)
+    return scheduleRestFeed({ context, workloads, workloadSources: sources })
   },
 }
 
@@ -182,12 +237,18 @@ export async function attachScheduleRestSnapshot(params: {
   now?: Date
 }): Promise<GameSnapshot> {
   const now = params.now ?? new Date()
-  const feed = await scheduleRestProvider.collect({
-    games: [params.game],
-    season: params.game.season,
-    week: params.game.week,
-    now,
-    fetch,
+  // Request-time fallback: schedule context only, with no remote workload fetch.
+  const feed = scheduleRestFeed({
+    context: {
+      games: [params.game],
+      season: params.game.season,
+      week: params.game.week,
+      now,
+      fetch,
+      downloads: createDownloadCache({ fetch }),
+    },
+    workloads: [],
+    workloadSources: [],
   })
   const restObservations = feed.observations.filter(observation => observation.game_id === params.game.game_id)
   const observations = [
@@ -210,7 +271,7 @@ export async function attachScheduleRestSnapshot(params: {
     observations,
     availability,
   }
-  const hash = contentHash(snapshotContent)
+  const hash = snapshotContentHash(snapshotContent)
   return GameSnapshotSchema.parse({
     snapshot_id: stableId('snapshot', {
       game_id: params.game.game_id,
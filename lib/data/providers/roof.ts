@@ -0,0 +1,45 @@
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { SeasonSchema } from '@/lib/nfl/game'
+
+export const RoofStatusSchema = z.enum(['open', 'closed', 'unknown'])
+
+const RoofStatusFileSchema = z.object({
+  schema_version: z.number().int().positive(),
+  season: SeasonSchema,
+  entries: z.array(z.object({
+    game_id: z.string().min(1),
+    status: RoofStatusSchema,
+    announced_at: z.string().datetime({ offset: true }),
+    source: z.string().min(1),
+    source_url: z.string().url(),
+  })),
+})
+
+export type RoofStatus = z.infer<typeof RoofStatusSchema>
+export type RoofStatusEntry = z.infer<typeof RoofStatusFileSchema>['entries'][number]
+
+// Stand-in for a club-announcement feed: operators record each retractable-roof decision in
+// data/roof-status/<season>.json. SWANTAIL_ROOF_STATUS_DIR points at another directory.
+function roofStatusRoot(): string {
+  return process.env.SWANTAIL_ROOF_STATUS_DIR ?? path.join(process.cwd(), 'data', 'roof-status')
+}
+
+export function loadRoofStatus(params: {
+  season: number
+  gameId: string
+  now: Date
+}): RoofStatusEntry | null {
+  const filePath = path.join(roofStatusRoot(), `${params.season}.json`)
+  if (!existsSync(filePath)) return null
+  const file = RoofStatusFileSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')))
+  if (file.season !== params.season) {
+    throw new Error(`Roof status metadata does not match filename: ${params.season}.json`)
+  }
+  // The latest announcement already made at ingestion time wins; later entries are not yet known.
+  return file.entries
+    .filter(entry => entry.game_id === params.gameId)
+    .filter(entry => Date.parse(entry.announced_at) <= params.now.getTime())
+    .sort((left, right) => Date.parse(right.announced_at) - Date.parse(left.announced_at))[0] ?? null
+}
@@ -7,12 +7,20 @@ export type ProviderContext = {
   fetch: typeof fetch
 }
 
+// One ingestion run's downloads keyed by URL, so providers reading the same release file share
+// a single download and parse. The first caller's `read` receives the cache's own fetch, which
+// runs outside every provider's deadline; a download that fails is dropped so the next caller retries.
+export type DownloadCache = {
+  load<T>(url: string, read: (fetcher: typeof fetch) => Promise<T>): Promise<T>
+}
+
 export type WeekProviderContext = {
   games: ScheduleGame[]
   season: number
   week: number
   now: Date
   fetch: typeof fetch
+  downloads: DownloadCache
 }
 
 export type ObservationProvider = {
@@ -0,0 +1,124 @@
+import { loadSeasonGames, type ScheduleGame } from '@/lib/nfl/schedule'
+
+export const REFRESH_FEEDS = ['weather', 'injury', 'team_stats', 'market', 'internal_metrics'] as const
+
+export type RefreshFeed = typeof REFRESH_FEEDS[number]
+
+export type PlanSlot = {
+  game_id: string
+  feed: RefreshFeed
+  slot_id: string
+  due_at: string
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+// Pregame forecast pulls, then one pull after the four-hour game window for the recorded conditions.
+const WEATHER_SLOTS: Array<[string, number]> = [
+  ['t-72h', -72 * HOUR_MS],
+  ['t-24h', -24 * HOUR_MS],
+  ['t-6h', -6 * HOUR_MS],
+  ['t-90m', -90 * MINUTE_MS],
+  ['final', 4 * HOUR_MS],
+]
+
+// Same pregame cadence as weather, plus the closing line at kickoff.
+const MARKET_SLOTS: Array<[string, number]> = [
+  ['t-72h', -72 * HOUR_MS],
+  ['t-24h', -24 * HOUR_MS],
+  ['t-6h', -6 * HOUR_MS],
+  ['t-90m', -90 * MINUTE_MS],
+  ['close', 0],
+]
+
+const PRACTICE_REPORT_DAYS = 3
+// Practice reports are released in the late afternoon Eastern; 21:00 UTC follows them in both
+// daylight and standard time.
+const PRACTICE_REPORT_UTC_HOUR = 21
+// nflverse publishes completed-week statistics overnight after Monday Night Football.
+const WEEKLY_STATS_DELAY_MS = 12 * HOUR_MS
+const PLAN_HORIZON_AFTER_KICKOFF_MS = 6 * HOUR_MS
+
+function offsetSlots(game: ScheduleGame, feed: RefreshFeed, offsets: Array<[string, number]>): PlanSlot[] {
+  const kickoff = Date.parse(game.kickoff)
+  return offsets.map(([slotId, offset]) => ({
+    game_id: game.game_id,
+    feed,
+    slot_id: slotId,
+    due_at: new Date(kickoff + offset).toISOString(),
+  }))
+}
+
+// Weekend and Monday games report through two days before kickoff; short-week games through the
+// day before.
+function practiceReportSlots(game: ScheduleGame): PlanSlot[] {
+  const gameDay = Date.parse(`${game.date}T00:00:00.000Z`)
+  const weekday = new Date(gameDay).getUTCDay()
+  const finalOffset = [0, 1, 6].includes(weekday) ? 2 : 1
+  return Array.from({ length: PRACTICE_REPORT_DAYS }, (_, index) => {
+    const reportDate = new Date(gameDay - (finalOffset + PRACTICE_REPORT_DAYS - 1 - index) * DAY_MS)
+    reportDate.setUTCHours(PRACTICE_REPORT_UTC_HOUR)
+    return {
+      game_id: game.game_id,
+      feed: 'injury' as const,
+      slot_id: `practice-${reportDate.toISOString().slice(0, 10)}`,
+      due_at: reportDate.toISOString(),
+    }
+  })
+}
+
+// Week 1 builds on the prior season, so its weekly baseline is due as soon as the week is planned.
+function weeklySlot(game: ScheduleGame, feed: RefreshFeed, priorWeekEndsAt: Date | null): PlanSlot {
+  return {
+    game_id: game.game_id,
+    feed,
+    slot_id: game.week > 1 ? `after-week-${game.week - 1}` : 'prior-season',
+    due_at: priorWeekEndsAt?.toISOString() ?? new Date(0).toISOString(),
+  }
+}
+
+export function priorWeekEndsAt(params: { season: number; week: number }): Date | null {
+  if (params.week <= 1) return null
+  const kickoffs = loadSeasonGames(params.season)
+    .filter(game => game.week === params.week - 1)
+    .map(game => Date.parse(game.kickoff))
+  return kickoffs.length ? new Date(Math.max(...kickoffs) + WEEKLY_STATS_DELAY_MS) : null
+}
+
+export function refreshSlots(game: ScheduleGame, priorWeekEnd: Date | null): PlanSlot[] {
+  return [
+    ...offsetSlots(game, 'weather', WEATHER_SLOTS),
+    ...practiceReportSlots(game),
+    weeklySlot(game, 'team_stats', priorWeekEnd),
+    ...offsetSlots(game, 'market', MARKET_SLOTS),
+    weeklySlot(game, 'internal_metrics', priorWeekEnd),
+  ]
+}
+
+export function planSlotKey(slot: Pick<PlanSlot, 'game_id' | 'feed' | 'slot_id'>): string {
+  return `${slot.game_id}:${slot.feed}:${slot.slot_id}`
+}
+
+// A game/feed pair is due when its most recent slot has passed without a run serving it. Earlier
+// missed slots are superseded by that one rather than replayed.
+export function planRefresh(params: {
+  games: ScheduleGame[]
+  now: Date
+  served: ReadonlySet<string>
+  priorWeekEnd: Date | null
+}): PlanSlot[] {
+  const now = params.now.getTime()
+  return params.games
+    .filter(game => now <= Date.parse(game.kickoff) + PLAN_HORIZON_AFTER_KICKOFF_MS)
+    .flatMap(game => {
+      const slots = refreshSlots(game, params.priorWeekEnd)
+      return REFRESH_FEEDS.flatMap(feed => {
+        const latest = slots
+          .filter(slot => slot.feed === feed && Date.parse(slot.due_at) <= now)
+          .sort((left, right) => Date.parse(right.due_at) - Date.parse(left.due_at))[0]
+        return latest && !params.served.has(planSlotKey(latest)) ? [latest] : []
+      })
+    })
+}
@@ -1,9 +1,13 @@
 import {
   GameSnapshotSchema,
+  ObservationSchema,
   type GameSnapshot,
   type IngestionFeedResult,
+  type Observation,
 } from '@/lib/data/contracts'
 import { getDatabase, isDatabaseConfigured } from '@/lib/data/database'
+import { planSlotKey, type PlanSlot } from '@/lib/data/refresh'
+import type { CircuitBreaker, DownloadTelemetry, FeedTelemetry } from '@/lib/data/resilience'
 import {
   GameScriptSchema,
   ScenarioResolutionSchema,
@@ -27,6 +31,20 @@ export type IngestionBundle = {
   completedAt: string
   feeds: IngestionFeedResult[]
   snapshots: GameSnapshot[]
+  slots: PlanSlot[]
+  // Keyed by breaker id (`provider:feed`).
+  telemetry: Record<string, FeedTelemetry>
+  // Shared release downloads, keyed by URL.
+  downloads: Record<string, DownloadTelemetry>
+  games: GameCapture[]
+  backfillAsOf?: string
+}
+
+// A game whose evidence matched its latest snapshot reuses that snapshot and is logged as no change.
+export type GameCapture = {
+  game_id: string
+  snapshot_id: string
+  change: 'captured' | 'no_change'
 }
 
 function requireDatabase() {
@@ -50,6 +68,84 @@ export async function loadLatestGameSnapshot(gameId: string): Promise<GameSnapsh
   return rows[0] ? GameSnapshotSchema.parse(rows[0].payload) : null
 }
 
+// Observations of one metric that earlier snapshots of these games included, oldest first.
+export async function loadSnapshotObservationHistory(params: {
+  gameIds: string[]
+  metric: string
+  capturedThrough?: string
+}): Promise<Observation[]> {
+  const sql = getDatabase()
+  if (!sql || !params.gameIds.length) return []
+  const rows = await sql<{ payload: unknown }[]>`
+    select observations.payload
+    from observations
+    join snapshot_observations on snapshot_observations.observation_id = observations.observation_id
+    join game_snapshots on game_snapshots.snapshot_id = snapshot_observations.snapshot_id
+    where game_snapshots.game_id in ${sql(params.gameIds)}
+      ${params.capturedThrough ? sql`and game_snapshots.captured_at <= ${params.capturedThrough}` : sql``}
+      and observations.metric = ${params.metric}
+    group by observations.observation_id
+    order by min(game_snapshots.captured_at) asc
+  `
+  return rows.map(row => ObservationSchema.parse(row.payload))
+}
+
+// Plan slots a completed run already served, keyed by planSlotKey.
+export async function loadServedPlanSlots(gameIds: string[]): Promise<Set<string>> {
+  const sql = getDatabase()
+  if (!sql || !gameIds.length) return new Set()
+  const rows = await sql<{ game_id: string; feed: PlanSlot['feed']; slot_id: string }[]>`
+    select game_id, feed, slot_id
+    from ingestion_plan_slots
+    where game_id in ${sql(gameIds)}
+  `
+  return new Set(rows.map(planSlotKey))
+}
+
+export async function loadCircuitBreakers(ids: string[]): Promise<Map<string, CircuitBreaker>> {
+  const sql = getDatabase()
+  if (!sql || !ids.length) return new Map()
+  const rows = await sql<{
+    breaker_id: string
+    consecutive_failures: number
+    opened_at: Date | null
+    last_error: string | null
+    updated_at: Date
+  }[]>`
+    select breaker_id, consecutive_failures, opened_at, last_error, updated_at
+    from provider_circuit_breakers
+    where breaker_id in ${sql(ids)}
+  `
+  return new Map(rows.map(row => [row.breaker_id, {
+    breaker_id: row.breaker_id,
+    consecutive_failures: row.consecutive_failures,
+    opened_at: row.opened_at?.toISOString() ?? null,
+    last_error: row.last_error,
+    updated_at: row.updated_at.toISOString(),
+  }]))
+}
+
+// Stored as soon as providers finish, so a run that fails later still counts toward the breaker.
+export async function persistCircuitBreakers(breakers: CircuitBreaker[]): Promise<void> {
+  const sql = getDatabase()
+  if (!sql) return
+  for (const breaker of breakers) {
+    await sql`
+      insert into provider_circuit_breakers (
+        breaker_id, consecutive_failures, opened_at, last_error, updated_at
+      ) values (
+        ${breaker.breaker_id}, ${breaker.consecutive_failures}, ${breaker.opened_at},
+        ${breaker.last_error}, ${breaker.updated_at}
+      )
+      on conflict (breaker_id) do update set
+        consecutive_failures = excluded.consecutive_failures,
+        opened_at = excluded.opened_at,
+        last_error = excluded.last_error,
+        updated_at = excluded.updated_at
+    `
+  }
+}
+
 export async function persistIngestionBundle(bundle: IngestionBundle): Promise<void> {
   const sql = requireDatabase()
   await sql.begin(async transaction => {
@@ -66,8 +162,14 @@ export async function persistIngestionBundle(bundle: IngestionBundle): Promise<v
             state: feed.state,
             observations: feed.observations.length,
             message: feed.message,
+            ...bundle.telemetry[`${feed.provider}:${feed.feed}`],
           })),
           snapshots: bundle.snapshots.length,
+          unchanged: bundle.games.filter(game => game.change === 'no_change').length,
+          games: bundle.games,
+          slots: bundle.slots,
+          downloads: bundle.downloads,
+          ...(bundle.backfillAsOf ? { backfill_as_of: bundle.backfillAsOf } : {}),
         }))}
       )
       on conflict (run_id) do nothing
@@ -107,13 +209,21 @@ export async function persistIngestionBundle(bundle: IngestionBundle): Promise<v
       }
     }
 
+    for (const slot of bundle.slots) {
+      await transaction`
+        insert into ingestion_plan_slots (game_id, feed, slot_id, due_at, run_id)
+        values (${slot.game_id}, ${slot.feed}, ${slot.slot_id}, ${slot.due_at}, ${bundle.runId})
+        on conflict do nothing
+      `
+    }
+
     for (const snapshot of bundle.snapshots) {
       await transaction`
         insert into game_snapshots (
-          snapshot_id, game_id, captured_at, contract_version, content_hash, payload
+          snapshot_id, game_id, captured_at, contract_version, content_hash, backfill, payload
         ) values (
           ${snapshot.snapshot_id}, ${snapshot.game_id}, ${snapshot.captured_at},
-          ${snapshot.contract_version}, ${snapshot.content_hash},
+          ${snapshot.contract_version}, ${snapshot.content_hash}, ${snapshot.backfill ?? false},
           ${transaction.json(jsonValue(snapshot))}
         )
         on conflict (snapshot_id) do nothing
@@ -0,0 +1,284 @@
+import {
+  IngestionFeedResultSchema,
+  type IngestionFeedResult,
+} from '@/lib/data/contracts'
+import type { DownloadCache, ObservationProvider, WeekProviderContext } from '@/lib/data/providers/types'
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 15_000
+// Shared release files include the full play-by-play season, so each attempt gets longer.
+export const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30_000
+export const DEFAULT_PROVIDER_DEADLINE_MS = 45_000
+const MAX_RETRIES = 2
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 5_000
+const BREAKER_FAILURE_THRESHOLD = 3
+const BREAKER_COOLDOWN_MS = 30 * 60 * 1000
+
+export type BreakerState = 'closed' | 'open' | 'half_open'
+
+export type CircuitBreaker = {
+  breaker_id: string
+  consecutive_failures: number
+  opened_at: string | null
+  last_error: string | null
+  updated_at: string
+}
+
+export type FeedTelemetry = {
+  attempts: number
+  retries: number
+  failed_requests: number
+  latency_ms: number
+  timed_out: boolean
+  breaker: BreakerState
+}
+
+export type DownloadTelemetry = Pick<FeedTelemetry, 'attempts' | 'retries' | 'failed_requests' | 'latency_ms'>
+
+export type ProviderRoute = {
+  provider: string
+  feed: string
+  requestTimeoutMs?: number
+  deadlineMs?: number
+}
+
+export class ProviderDeadlineError extends Error {}
+
+export function breakerId(route: Pick<ProviderRoute, 'provider' | 'feed'>): string {
+  return `${route.provider}:${route.feed}`
+}
+
+// Open after three consecutive failed runs; after a 30-minute cooldown one trial run is allowed,
+// and its outcome closes or reopens the breaker.
+export function breakerState(breaker: CircuitBreaker | undefined, now: Date): BreakerState {
+  if (!breaker?.opened_at) return 'closed'
+  return now.getTime() - Date.parse(breaker.opened_at) >= BREAKER_COOLDOWN_MS ? 'half_open' : 'open'
+}
+
+export function nextBreaker(params: {
+  id: string
+  breaker: CircuitBreaker | undefined
+  failure: string | null
+  now: Date
+}): CircuitBreaker {
+  const updatedAt = params.now.toISOString()
+  if (params.failure === null) {
+    return { breaker_id: params.id, consecutive_failures: 0, opened_at: null, last_error: null, updated_at: updatedAt }
+  }
+  const failures = (params.breaker?.consecutive_failures ?? 0) + 1
+  return {
+    breaker_id: params.id,
+    consecutive_failures: failures,
+    opened_at: failures >= BREAKER_FAILURE_THRESHOLD ? updatedAt : null,
+    last_error: params.failure,
+    updated_at: updatedAt,
+  }
+}
+
+function retryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+function backoffMs(response: Response, retry: number): number {
+  const retryAfter = Number(response.headers.get('retry-after'))
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : BASE_BACKOFF_MS * 2 ** retry
+  return Math.min(delay, MAX_BACKOFF_MS)
+}
+
+function abortable(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+// Each attempt gets its own deadline and is cancelled with the provider; 5xx and 429 responses
+// are retried with exponential backoff (or Retry-After), and the last response is returned.
+export function createResilientFetch(params: {
+  fetch: typeof fetch
+  requestTimeoutMs: number
+  signal: AbortSignal
+  telemetry: Pick<FeedTelemetry, 'attempts' | 'retries' | 'failed_requests'>
+}): typeof fetch {
+  const attempt = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const controller = new AbortController()
+    const cancel = () => controller.abort(params.signal.reason)
+    params.signal.addEventListener('abort', cancel, { once: true })
+    init?.signal?.addEventListener('abort', cancel, { once: true })
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Request exceeded its ${params.requestTimeoutMs}ms deadline`)),
+      params.requestTimeoutMs,
+    )
+    params.telemetry.attempts += 1
+    try {
+      return await params.fetch(input, { ...init, signal: controller.signal })
+    } finally {
+      clearTimeout(timer)
+      params.signal.removeEventListener('abort', cancel)
+    }
+  }
+
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    try {
+      let response = await attempt(input, init)
+      for (let retry = 0; retry < MAX_RETRIES && retryable(response.status); retry += 1) {
+        await abortable(backoffMs(response, retry), params.signal)
+        params.telemetry.retries += 1
+        response = await attempt(input, init)
+      }
+      if (retryable(response.status)) params.telemetry.failed_requests += 1
+      return response
+    } catch (error) {
+      params.telemetry.failed_requests += 1
+      throw error
+    }
+  }) as typeof fetch
+}
+
+// Shared downloads are scoped to the run rather than to a provider: no provider's deadline or
+// cleanup cancels them, each attempt has the download timeout, and their telemetry is kept per URL.
+export function createDownloadCache(params: {
+  fetch: typeof fetch
+  requestTimeoutMs?: number
+}): DownloadCache & { telemetry(): Record<string, DownloadTelemetry> } {
+  const downloads = new Map<string, Promise<unknown>>()
+  const telemetry = new Map<string, DownloadTelemetry>()
+  const signal = new AbortController().signal
+  return {
+    load<T>(url: string, read: (fetcher: typeof fetch) => Promise<T>): Promise<T> {
+      const cached = downloads.get(url)
+      if (cached) return cached as Promise<T>
+      const record: DownloadTelemetry = { attempts: 0, retries: 0, failed_requests: 0, latency_ms: 0 }
+      telemetry.set(url, record)
+      const started = Date.now()
+      const download = read(createResilientFetch({
+        fetch: params.fetch,
+        requestTimeoutMs: params.requestTimeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT_MS,
+        signal,
+        telemetry: record,
+      })).finally(() => {
+        record.latency_ms = Date.now() - started
+      })
+      downloads.set(url, download)
+      download.catch(() => {
+        if (downloads.get(url) === download) downloads.delete(url)
+      })
+      return download
+    },
+    telemetry: () => Object.fromEntries(telemetry),
+  }
+}
+
+function unavailableFeed(params: {
+  route: ProviderRoute
+  context: WeekProviderContext
+  message: string
+}): IngestionFeedResult {
+  const checkedAt = params.context.now.toISOString()
+  return IngestionFeedResultSchema.parse({
+    provider: params.route.provider,
+    feed: params.route.feed,
+    state: 'degraded',
+    checked_at: checkedAt,
+    message: params.message,
+    raw_imports: [],
+    observations: [],
+    game_states: Object.fromEntries(params.context.games.map(game => [game.game_id, {
+      state: 'degraded',
+      checked_at: checkedAt,
+      observation_count: 0,
+      message: params.message,
+    }])),
+  })
+}
+
+// A run fails when the provider throws, misses its deadline, or returns nothing while its
+// requests were failing. An open breaker skips the provider with a degraded feed so the
+// previous observations are carried forward.
+export async function collectWithResilience(params: {
+  provider: ObservationProvider
+  route: ProviderRoute
+  context: WeekProviderContext
+  breaker: CircuitBreaker | undefined
+}): Promise<{ feed: IngestionFeedResult; telemetry: FeedTelemetry; breaker: CircuitBreaker | null }> {
+  const { route, context } = params
+  const id = breakerId(route)
+  const state = breakerState(params.breaker, context.now)
+  const telemetry: FeedTelemetry = {
+    attempts: 0,
+    retries: 0,
+    failed_requests: 0,
+    latency_ms: 0,
+    timed_out: false,
+    breaker: state,
+  }
+  if (state === 'open') {
+    return {
+      feed: unavailableFeed({
+        route,
+        context,
+        message: `Skipped: circuit open after ${params.breaker?.consecutive_failures} consecutive failed runs`,
+      }),
+      telemetry,
+      breaker: null,
+    }
+  }
+
+  const deadlineMs = route.deadlineMs ?? DEFAULT_PROVIDER_DEADLINE_MS
+  const controller = new AbortController()
+  const started = Date.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ProviderDeadlineError(`Provider exceeded its ${deadlineMs}ms deadline`)
+      controller.abort(error)
+      reject(error)
+    }, deadlineMs)
+  })
+  let feed: IngestionFeedResult
+  let failure: string | null = null
+  try {
+    feed = await Promise.race([
+      params.provider.collect({
+        ...context,
+        // A shared download this provider waited on and lost still counts as its failed request.
+        downloads: {
+          load: (url, read) => context.downloads.load(url, read).catch((error: unknown) => {
+            telemetry.failed_requests += 1
+            throw error
+          }),
+        },
+        fetch: createResilientFetch({
+          fetch: context.fetch,
+          requestTimeoutMs: route.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+          signal: controller.signal,
+          telemetry,
+        }),
+      }),
+      deadline,
+    ])
+    if (!feed.observations.length && telemetry.failed_requests > 0) {
+      failure = `${telemetry.failed_requests} request(s) failed and no observations were produced`
+    }
+  } catch (error) {
+    telemetry.timed_out = error instanceof ProviderDeadlineError
+    failure = error instanceof Error ? error.message : 'Provider failed'
+    feed = unavailableFeed({ route, context, message: failure })
+  } finally {
+    clearTimeout(timer)
+    controller.abort()
+  }
+  telemetry.latency_ms = Date.now() - started
+  const breaker = nextBreaker({ id, breaker: params.breaker, failure, now: context.now })
+  telemetry.breaker = breakerState(breaker, context.now)
+  return { feed, telemetry, breaker }
+}
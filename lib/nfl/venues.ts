@@ -2,41 +2,91 @@ export type VenueWeatherProfile = {
   latitude: number
   longitude: number
   roof: 'outdoor' | 'canopy' | 'retractable' | 'enclosed'
+  timeZone: string
+  // Approximate end-zone-to-end-zone axis in degrees true, folded into 0-179; null where the axis
+  // has not been surveyed, so wind is not split into field components there.
+  fieldBearing: number | null
 }
 
+export type VenueLocation = Pick<VenueWeatherProfile, 'latitude' | 'longitude' | 'timeZone'>
+
 const VENUE_WEATHER: Record<string, VenueWeatherProfile> = {
-  'AT&T Stadium': { latitude: 32.7473, longitude: -97.0945, roof: 'retractable' },
-  'Acrisure Stadium': { latitude: 40.4468, longitude: -80.0158, roof: 'outdoor' },
-  'Allegiant Stadium': { latitude: 36.0908, longitude: -115.1830, roof: 'enclosed' },
-  'Bank of America Stadium': { latitude: 35.2258, longitude: -80.8528, roof: 'outdoor' },
-  'Caesars Superdome': { latitude: 29.9511, longitude: -90.0812, roof: 'enclosed' },
-  'Empower Field at Mile High': { latitude: 39.7439, longitude: -105.0201, roof: 'outdoor' },
-  'EverBank Stadium': { latitude: 30.3239, longitude: -81.6373, roof: 'outdoor' },
-  'Ford Field': { latitude: 42.34, longitude: -83.0456, roof: 'enclosed' },
-  'GEHA Field at Arrowhead Stadium': { latitude: 39.0489, longitude: -94.4839, roof: 'outdoor' },
-  'Gillette Stadium': { latitude: 42.0909, longitude: -71.2643, roof: 'outdoor' },
-  'Hard Rock Stadium': { latitude: 25.958, longitude: -80.2389, roof: 'canopy' },
-  'Highmark Stadium': { latitude: 42.7738, longitude: -78.787, roof: 'outdoor' },
-  'Huntington Bank Field': { latitude: 41.5061, longitude: -81.6995, roof: 'outdoor' },
-  'Lambeau Field': { latitude: 44.5013, longitude: -88.0622, roof: 'outdoor' },
-  "Levi's Stadium": { latitude: 37.403, longitude: -121.9698, roof: 'outdoor' },
-  'Lincoln Financial Field': { latitude: 39.9008, longitude: -75.1675, roof: 'outdoor' },
-  'Lucas Oil Stadium': { latitude: 39.7601, longitude: -86.1639, roof: 'retractable' },
-  'Lumen Field': { latitude: 47.5952, longitude: -122.3316, roof: 'outdoor' },
-  'M&T Bank Stadium': { latitude: 39.2779, longitude: -76.6227, roof: 'outdoor' },
-  'Mercedes-Benz Stadium': { latitude: 33.7553, longitude: -84.4006, roof: 'retractable' },
-  'MetLife Stadium': { latitude: 40.8135, longitude: -74.0745, roof: 'outdoor' },
-  'NRG Stadium': { latitude: 29.6847, longitude: -95.4107, roof: 'retractable' },
-  'Nissan Stadium': { latitude: 36.1665, longitude: -86.7713, roof: 'outdoor' },
-  'Northwest Stadium': { latitude: 38.9076, longitude: -76.8645, roof: 'outdoor' },
-  'Paycor Stadium': { latitude: 39.0954, longitude: -84.516, roof: 'outdoor' },
-  'Raymond James Stadium': { latitude: 27.9759, longitude: -82.5033, roof: 'outdoor' },
-  'SoFi Stadium': { latitude: 33.9535, longitude: -118.3392, roof: 'canopy' },
-  'Soldier Field': { latitude: 41.8623, longitude: -87.6167, roof: 'outdoor' },
-  'State Farm Stadium': { latitude: 33.5276, longitude: -112.2626, roof: 'retractable' },
-  'U.S. Bank Stadium': { latitude: 44.9738, longitude: -93.2577, roof: 'enclosed' },
+  'AT&T Stadium': { latitude: 32.7473, longitude: -97.0945, roof: 'retractable', timeZone: 'America/Chicago', fieldBearing: 60 },
+  'Acrisure Stadium': { latitude: 40.4468, longitude: -80.0158, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 140 },
+  'Allegiant Stadium': { latitude: 36.0908, longitude: -115.1830, roof: 'enclosed', timeZone: 'America/Los_Angeles', fieldBearing: 165 },
+  'Bank of America Stadium': { latitude: 35.2258, longitude: -80.8528, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 170 },
+  'Caesars Superdome': { latitude: 29.9511, longitude: -90.0812, roof: 'enclosed', timeZone: 'America/Chicago', fieldBearing: 45 },
+  'Empower Field at Mile High': { latitude: 39.7439, longitude: -105.0201, roof: 'outdoor', timeZone: 'America/Denver', fieldBearing: 5 },
+  'EverBank Stadium': { latitude: 30.3239, longitude: -81.6373, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 60 },
+  'Ford Field': { latitude: 42.34, longitude: -83.0456, roof: 'enclosed', timeZone: 'America/Detroit', fieldBearing: 90 },
+  'GEHA Field at Arrowhead Stadium': { latitude: 39.0489, longitude: -94.4839, roof: 'outdoor', timeZone: 'America/Chicago', fieldBearing: 160 },
+  'Gillette Stadium': { latitude: 42.0909, longitude: -71.2643, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 15 },
+  'Hard Rock Stadium': { latitude: 25.958, longitude: -80.2389, roof: 'canopy', timeZone: 'America/New_York', fieldBearing: null },
+  'Highmark Stadium': { latitude: 42.7738, longitude: -78.787, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 150 },
+  'Huntington Bank Field': { latitude: 41.5061, longitude: -81.6995, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 55 },
+  'Lambeau Field': { latitude: 44.5013, longitude: -88.0622, roof: 'outdoor', timeZone: 'America/Chicago', fieldBearing: null },
+  "Levi's Stadium": { latitude: 37.403, longitude: -121.9698, roof: 'outdoor', timeZone: 'America/Los_Angeles', fieldBearing: 150 },
+  'Lincoln Financial Field': { latitude: 39.9008, longitude: -75.1675, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 170 },
+  'Lucas Oil Stadium': { latitude: 39.7601, longitude: -86.1639, roof: 'retractable', timeZone: 'America/Indiana/Indianapolis', fieldBearing: null },
+  'Lumen Field': { latitude: 47.5952, longitude: -122.3316, roof: 'outdoor', timeZone: 'America/Los_Angeles', fieldBearing: 175 },
+  'M&T Bank Stadium': { latitude: 39.2779, longitude: -76.6227, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 170 },
+  'Mercedes-Benz Stadium': { latitude: 33.7553, longitude: -84.4006, roof: 'retractable', timeZone: 'America/New_York', fieldBearing: 45 },
+  'MetLife Stadium': { latitude: 40.8135, longitude: -74.0745, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: 160 },
+  'NRG Stadium': { latitude: 29.6847, longitude: -95.4107, roof: 'retractable', timeZone: 'America/Chicago', fieldBearing: null },
+  'Nissan Stadium': { latitude: 36.1665, longitude: -86.7713, roof: 'outdoor', timeZone: 'America/Chicago', fieldBearing: null },
+  'Northwest Stadium': { latitude: 38.9076, longitude: -76.8645, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: null },
+  'Paycor Stadium': { latitude: 39.0954, longitude: -84.516, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: null },
+  'Raymond James Stadium': { latitude: 27.9759, longitude: -82.5033, roof: 'outdoor', timeZone: 'America/New_York', fieldBearing: null },
+  'SoFi Stadium': { latitude: 33.9535, longitude: -118.3392, roof: 'canopy', timeZone: 'America/Los_Angeles', fieldBearing: null },
+  'Soldier Field': { latitude: 41.8623, longitude: -87.6167, roof: 'outdoor', timeZone: 'America/Chicago', fieldBearing: null },
+  'State Farm Stadium': { latitude: 33.5276, longitude: -112.2626, roof: 'retractable', timeZone: 'America/Phoenix', fieldBearing: null },
+  'U.S. Bank Stadium': { latitude: 44.9738, longitude: -93.2577, roof: 'enclosed', timeZone: 'America/Chicago', fieldBearing: 90 },
+}
+
+// International sites carry location and time zone only; NWS forecasts do not cover them.
+const INTERNATIONAL_VENUES: Record<string, VenueLocation> = {
+  'Estadio Banorte': { latitude: 19.3029, longitude: -99.1505, timeZone: 'America/Mexico_City' },
+  'FC Bayern Munich Stadium': { latitude: 48.2188, longitude: 11.6247, timeZone: 'Europe/Berlin' },
+  'Maracanã Stadium': { latitude: -22.9121, longitude: -43.2302, timeZone: 'America/Sao_Paulo' },
+  'Melbourne Cricket Ground': { latitude: -37.8199, longitude: 144.9834, timeZone: 'Australia/Melbourne' },
+  'Santiago Bernabéu': { latitude: 40.4531, longitude: -3.6883, timeZone: 'Europe/Madrid' },
+  'Stade de France': { latitude: 48.9245, longitude: 2.3602, timeZone: 'Europe/Paris' },
+  'Tottenham Hotspur Stadium': { latitude: 51.6043, longitude: -0.0664, timeZone: 'Europe/London' },
+  'Wembley Stadium': { latitude: 51.556, longitude: -0.2796, timeZone: 'Europe/London' },
 }
 
 export function getVenueWeatherProfile(venue?: string): VenueWeatherProfile | null {
   return venue ? VENUE_WEATHER[venue] ?? null : null
 }
+
+export function getVenueLocation(venue?: string): VenueLocation | null {
+  if (!venue) return null
+  return VENUE_WEATHER[venue] ?? INTERNATIONAL_VENUES[venue] ?? null
+}
+
+function zonedParts(timeZone: string, at: Date): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(at)
+  return Object.fromEntries(parts
+    .filter(part => part.type !== 'literal')
+    .map(part => [part.type, Number(part.value)]))
+}
+
+export function utcOffsetHours(timeZone: string, at: Date): number {
+  const local = zonedParts(timeZone, at)
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  const instant = Math.floor(at.getTime() / 60000) * 60000
+  return (localAsUtc - instant) / (60 * 60 * 1000)
+}
+
+export function localClockHour(timeZone: string, at: Date): number {
+  const local = zonedParts(timeZone, at)
+  return local.hour + local.minute / 60
+}
@@ -45,7 +45,7 @@ export const GAME_AGENT_CATALOG: Record<GameAgentId, GameAgentCatalogEntry> = {
     shortLabel: 'MOM',
     question: 'Has recent opponent-adjusted execution changed enough to carry into this matchup?',
     description: 'Separates durable changes in efficiency, personnel, or scheme from streaks driven by schedule and unstable results.',
-    dataSupport: 'assumption_only',
+    dataSupport: 'pilot_observations',
     specPath: 'docs/agents/momentum.md',
   },
   pace: {
@@ -53,7 +53,7 @@ export const GAME_AGENT_CATALOG: Record<GameAgentId, GameAgentCatalogEntry> = {
     shortLabel: 'PC',
     question: 'Which offense can control play volume, clock pressure, and possession count?',
     description: 'Uses neutral tempo, no-huddle rate, pass rate, and drive length to frame how many plays each side can access.',
-    dataSupport: 'assumption_only',
+    dataSupport: 'pilot_observations',
     specPath: 'docs/agents/pace.md',
   },
   injury: {
@@ -77,7 +77,7 @@ export const GAME_AGENT_CATALOG: Record<GameAgentId, GameAgentCatalogEntry> = {
     shortLabel: 'PR',
     question: 'Can either pass rush disrupt the quarterback before the offense reaches its answers?',
     description: 'Cross-matches pressure creation, protection, time to throw, sack avoidance, and quarterback response under pressure.',
-    dataSupport: 'assumption_only',
+    dataSupport: 'pilot_observations',
     specPath: 'docs/agents/pressure.md',
   },
   trenches: {
@@ -101,7 +101,7 @@ export const GAME_AGENT_CATALOG: Record<GameAgentId, GameAgentCatalogEntry> = {
     shortLabel: 'QB',
     question: 'Which quarterback can solve this specific coverage, pressure, and down-and-distance environment?',
     description: 'Profiles accuracy, decisions, depth, mobility, sack avoidance, and performance by pocket and coverage state.',
-    dataSupport: 'assumption_only',
+    dataSupport: 'pilot_observations',
     specPath: 'docs/agents/quarterback.md',
   },
   rest: {
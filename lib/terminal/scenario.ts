@@ -72,12 +72,39 @@ function recordValue(observation: Observation | undefined): Record<string, unkno
     : {}
 }
 
+function nestedRecord(record: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = record[key]
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
+
+function mergeRecords(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = value && typeof value === 'object' && !Array.isArray(value)
+      ? mergeRecords(nestedRecord(base, key), value as Record<string, unknown>)
+      : value
+  }
+  return merged
+}
+
+// Opponent-adjusted metrics replace the raw ones under the same keys when the provider supplied them.
+function teamMetrics(observation: Observation): Record<string, unknown> {
+  const value = recordValue(observation)
+  return value.adjusted === true ? mergeRecords(value, nestedRecord(value, 'opponent_adjusted')) : value
+}
+
+function adjustedLabel(label: string, value: Record<string, unknown>): string {
+  return value.adjusted === true ? `${label} (opponent-adjusted)` : label
+}
+
 function numericValue(record: Record<string, unknown>, key: string): number | null {
   return typeof record[key] === 'number' && Number.isFinite(record[key]) ? record[key] as number : null
 }
 
-function teamObservation(observations: Observation[], team: string): Observation | undefined {
-  return observations.find(observation => observation.subject.id === team)
+// Keyed by metric as well as team: an agent's observations can also carry other feeds' team
+// metrics, such as internal grades, which must not stand in for the provider profile.
+function teamObservation(observations: Observation[], team: string, metric: string): Observation | undefined {
+  return observations.find(observation => observation.subject.id === team && observation.metric === metric)
 }
 
 function directionForTeam(team: string, game: ScenarioGame): AgentFinding['direction'] {
@@ -131,75 +158,528 @@ function unavailableEvidence(params: {
   }
 }
 
+type SuppressionGrade = 'minimal' | 'moderate' | 'severe'
+
+// Kicking follows the crosswind and gust spread, deep passing the sustained wind and gusts, and
+// handling the precipitation chance. Without a wind direction, all of the wind counts as crosswind.
+function weatherGrades(value: Record<string, unknown>): Record<'kicking' | 'deep_passing' | 'handling', SuppressionGrade> {
+  const wind = numericValue(value, 'wind_mph') ?? 0
+  const gust = numericValue(value, 'wind_gust_mph') ?? 0
+  const gustSpread = numericValue(value, 'gust_spread_mph') ?? 0
+  const crosswind = numericValue(value, 'crosswind_mph') ?? wind
+  const alongAxis = numericValue(value, 'along_axis_mph') ?? 0
+  const precipitation = numericValue(value, 'precipitation_probability') ?? 0
+  const temperature = numericValue(value, 'temperature_f')
+  const cold = temperature !== null && temperature <= 20
+  const grade = (severe: boolean, moderate: boolean): SuppressionGrade => (
+    severe ? 'severe' : moderate ? 'moderate' : 'minimal'
+  )
+  return {
+    kicking: grade(crosswind >= 15 || gustSpread >= 15, crosswind >= 10 || alongAxis >= 15 || gustSpread >= 10 || cold),
+    deep_passing: grade(wind >= 20 || gust >= 35, wind >= 13 || gust >= 25 || alongAxis >= 12),
+    handling: grade(precipitation >= 70, precipitation >= 40 || cold),
+  }
+}
+
 function weatherEvidence(observations: Observation[]): EventEvidence {
-  const value = recordValue(observations[0])
+  const roofObservation = observations.find(observation => observation.metric === 'venue.roof_status')
+  const forecastObservation = observations.find(observation => observation.metric === 'weather.kickoff_forecast')
+  // Once the game window has passed, the station readings stand in for the expired forecast.
+  const actualObservation = forecastObservation
+    ? undefined
+    : observations.find(observation => observation.metric === 'weather.actual_conditions')
+  const conditionsObservation = forecastObservation ?? actualObservation
+  const conditionsSource = actualObservation ? 'Station readings during the game recorded' : 'The kickoff forecast shows'
+  const conditionsLabel = actualObservation ? 'Recorded game weather' : 'Kickoff weather'
+  const trajectoryObservation = observations.find(observation => observation.metric === 'weather.forecast_trajectory')
+  const kickoffAlerts = observations.filter(observation => (
+    observation.metric === 'weather.active_alert' && recordValue(observation).overlaps_kickoff === true
+  ))
+  const roof = recordValue(roofObservation)
+  const announcedAt = typeof roof.announced_at === 'string' ? roof.announced_at : null
+  const roofSignal = roofObservation
+    ? [{
+      label: 'Roof',
+      value: `${String(roof.status)}${announcedAt ? ` (announced ${announcedAt})` : ''}`,
+      observation_ids: [roofObservation.observation_id],
+    }]
+    : []
+  if (roof.status === 'closed') {
+    const played = roof.window_closed === true
+    const statement = played
+      ? 'The retractable roof was closed for the game; exterior weather was not a game condition.'
+      : 'The retractable roof is announced closed; exterior weather is not a material game condition.'
+    return {
+      statement,
+      finding: {
+        state: 'balanced',
+        direction: 'none',
+        headline: played ? 'Roof closed; exterior weather was not a factor' : 'Roof closed; exterior weather is not material',
+        detail: statement,
+        signals: roofSignal,
+        caveats: played ? [] : ['A roof decision can be revised before kickoff.'],
+      },
+      evidence_state: 'observed_conflict',
+      observations,
+      suggested_anchor_ids: [],
+    }
+  }
+
+  const value = recordValue(conditionsObservation)
   const wind = numericValue(value, 'wind_mph')
   const precipitation = numericValue(value, 'precipitation_probability')
+  const precipitationInches = numericValue(value, 'precipitation_in')
   const summary = typeof value.summary === 'string' ? value.summary : 'available conditions'
   const detail = [
     wind !== null ? `${wind} mph wind` : null,
     precipitation !== null ? `${precipitation}% precipitation probability` : null,
+    precipitationInches !== null ? `${precipitationInches} in precipitation` : null,
     summary,
   ].filter(Boolean).join(', ')
-  const suppressive = (wind ?? 0) >= 15 || (precipitation ?? 0) >= 40
-  const statement = suppressive
-    ? `The kickoff forecast shows ${detail}; those conditions can constrain clean passing and kicking execution.`
-    : `The kickoff forecast shows ${detail}; current conditions do not create a material weather constraint.`
+  const grades = weatherGrades(value)
+  const graded = Object.values(grades)
+  // An official alert in force during the game outweighs the point forecast.
+  const suppression: AgentFinding['state'] = kickoffAlerts.length
+    || graded.includes('severe')
+    || graded.filter(grade => grade === 'moderate').length >= 2
+    ? 'material'
+    : graded.includes('moderate') ? 'contextual' : 'balanced'
+  const alertEvents = [...new Set(kickoffAlerts.map(observation => String(recordValue(observation).event)))]
+  const alertText = alertEvents.length
+    ? ` The NWS ${alertEvents.join(' and ')} ${alertEvents.length === 1 ? 'is' : 'are'} in force for the kickoff window.`
+    : ''
+  // A retractable roof without an open announcement can still close, so conditions stay contextual.
+  // Once the game is over there is no decision left to wait on.
+  const roofPending = value.roof === 'retractable' && roof.status !== 'open' && !actualObservation
+  const state: AgentFinding['state'] = roofPending && suppression === 'material' ? 'contextual' : suppression
+  const gradeText = `Kicking suppression is ${grades.kicking}, deep-passing suppression ${grades.deep_passing}, and ball-handling risk ${grades.handling}.`
+  const statement = state === 'material'
+    ? `${conditionsSource} ${detail}${roof.status === 'open' ? ' with the roof announced open' : ''}; those conditions can constrain clean passing and kicking execution.${alertText} ${gradeText}`
+    : roofPending && suppression === 'material'
+      ? `${conditionsSource} ${detail}, but the retractable roof decision is pending; the conditions matter only if it stays open.${alertText} ${gradeText}`
+      : state === 'contextual'
+        ? `${conditionsSource} ${detail}; one phase of the game carries a moderate weather constraint. ${gradeText}`
+        : `${conditionsSource} ${detail}; current conditions do not create a material weather constraint.`
+  const crosswind = numericValue(value, 'crosswind_mph')
+  const alongAxis = numericValue(value, 'along_axis_mph')
+  const gust = numericValue(value, 'wind_gust_mph')
+  const gustSpread = numericValue(value, 'gust_spread_mph')
+  const temperature = numericValue(value, 'temperature_f')
+  const gustsAndTemperature = [
+    gust !== null ? `gusts ${gust} mph${gustSpread !== null ? ` (+${gustSpread} over sustained)` : ''}` : null,
+    temperature !== null
+      ? `${temperature}°F${temperature <= 20 ? ' (cold extreme)' : temperature >= 90 ? ' (heat extreme)' : ''}`
+      : null,
+  ].filter(Boolean).join(', ')
+  const forecastIds = conditionsObservation ? [conditionsObservation.observation_id] : []
+  const trajectory = recordValue(trajectoryObservation)
+  const pulls = numericValue(trajectory, 'pulls')
+  const points = Array.isArray(trajectory.points) ? trajectory.points as Array<Record<string, unknown>> : []
+  const firstWind = points.length ? numericValue(points[0], 'wind_mph') : null
+  const lastWind = points.length ? numericValue(points[points.length - 1], 'wind_mph') : null
+  const trendSignal = trajectoryObservation && typeof trajectory.trend === 'string'
+    ? [{
+      label: 'Forecast trend',
+      value: `${trajectory.trend}${firstWind !== null && lastWind !== null ? `, wind ${firstWind} → ${lastWind} mph` : ''} across ${pulls ?? points.length} pulls`,
+      observation_ids: [trajectoryObservation.observation_id],
+    }]
+    : []
+  const revisionCaveat = trajectory.large_revision === true
+    ? [`Successive forecasts were revised by up to ${numericValue(trajectory, 'max_wind_revision_mph') ?? 0} mph of wind and ${numericValue(trajectory, 'max_precipitation_revision') ?? 0} points of precipitation probability.`]
+    : []
   return {
     statement,
     finding: {
-      state: suppressive ? 'material' : 'balanced',
+      state,
       direction: 'none',
-      headline: suppressive ? 'Kickoff weather can narrow the available playbook' : 'Kickoff weather is not a material constraint',
+      headline: state === 'material'
+        ? alertEvents.length
+          ? `NWS ${alertEvents[0]} is in force for kickoff`
+          : roof.status === 'open' ? `Roof open; ${conditionsLabel.toLowerCase()} can narrow the available playbook` : `${conditionsLabel} can narrow the available playbook`
+        : roofPending && suppression === 'material'
+          ? 'Roof decision pending; exterior weather could matter'
+          : state === 'contextual'
+            ? `${conditionsLabel} is a moderate constraint`
+            : roof.status === 'open' ? `Roof open; ${conditionsLabel.toLowerCase()} is not a material constraint` : `${conditionsLabel} is not a material constraint`,
       detail: statement,
-      signals: [{
-        label: 'Kickoff forecast',
-        value: detail,
-        observation_ids: observations.map(observation => observation.observation_id),
-      }],
-      caveats: ['Forecast conditions can change before kickoff.'],
+      // Ranked so the cap drops the forecast trend first; large revisions also surface as a caveat.
+      signals: [
+        ...(kickoffAlerts.length ? [{
+          label: 'Active alert',
+          value: kickoffAlerts.map(observation => String(recordValue(observation).headline)).join('; '),
+          observation_ids: kickoffAlerts.map(observation => observation.observation_id),
+        }] : []),
+        {
+          label: actualObservation ? 'Recorded conditions' : 'Kickoff forecast',
+          value: detail,
+          observation_ids: forecastIds,
+        },
+        ...roofSignal,
+        {
+          label: 'Field-axis wind',
+          value: crosswind !== null && alongAxis !== null
+            ? `${crosswind} mph crosswind, ${alongAxis} mph along the axis`
+            : conditionsObservation && recordValue(conditionsObservation).field_bearing_degrees === null
+              ? 'field axis not surveyed; all wind graded as crosswind'
+              : 'wind direction unavailable',
+          observation_ids: forecastIds,
+        },
+        ...(gustsAndTemperature ? [{
+          label: 'Gusts and temperature',
+          value: gustsAndTemperature,
+          observation_ids: forecastIds,
+        }] : []),
+        ...trendSignal,
+      ].slice(0, 4),
+      caveats: [
+        actualObservation
+          ? `Recorded at NWS station ${String(value.station_id)}, the nearest station to the venue, which can differ from the field itself.`
+          : kickoffAlerts.length
+            ? 'Forecast conditions can change, and NWS can extend, upgrade, or cancel an alert, before kickoff.'
+            : 'Forecast conditions can change before kickoff.',
+        ...(roofPending ? ['No roof decision has been announced for this retractable venue.'] : []),
+        ...revisionCaveat,
+      ],
     },
-    evidence_state: suppressive ? 'observed_support' : 'observed_context',
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
     observations,
-    suggested_anchor_ids: suppressive ? AGENT_ANCHORS.weather : [],
+    suggested_anchor_ids: state === 'material' ? AGENT_ANCHORS.weather : [],
   }
 }
 
-function injuryEvidence(observations: Observation[]): EventEvidence {
-  const material = observations.filter(observation => {
+type ReplacementOutcome = 'function_lost' | 'capable_backup' | 'unknown'
+
+const REPLACEMENT_PRODUCTION_GAPS: Record<string, number> = {
+  scrimmage_epa: 2,
+  defensive_disruptions: 1,
+}
+
+function replacementOutcome(value: Record<string, unknown>): ReplacementOutcome {
+  if (!value.replacement) return 'function_lost'
+  const replacement = nestedRecord(value, 'replacement')
+  const starter = nestedRecord(value, 'starter')
+  const metric = typeof value.production_metric === 'string' ? value.production_metric : null
+  const snapGap = numericValue(value, 'snap_share_gap')
+  const starterProduction = numericValue(starter, 'production_per_game')
+  const productionGap = metric && starterProduction !== null
+    ? starterProduction - (numericValue(replacement, 'production_per_game') ?? 0)
+    : null
+  if (snapGap === null && productionGap === null) return 'unknown'
+  if ((snapGap ?? 0) >= 0.4) return 'function_lost'
+  if (metric && productionGap !== null && productionGap >= REPLACEMENT_PRODUCTION_GAPS[metric]) return 'function_lost'
+  return 'capable_backup'
+}
+
+// Expected share of the player's usual snaps lost, at which a designation starts to count as material.
+const MATERIAL_AVAILABILITY_LOSS = 0.5
+
+function expectedAvailabilityLoss(report: Observation | undefined): number | null {
+  return numericValue(nestedRecord(recordValue(report), 'availability_reference'), 'expected_loss')
+}
+
+function injuryEvidence(observations: Observation[], game: ScenarioGame): EventEvidence {
+  const reports = observations.filter(observation => observation.metric === 'player.availability_report')
+  const trajectories = new Map(observations
+    .filter(observation => observation.metric === 'player.practice_trajectory')
+    .map(observation => [observation.subject.id, observation]))
+  const lateDowngrades = [...trajectories.values()].filter(observation => recordValue(observation).late_downgrade === true)
+  const maintenance = [...trajectories.values()].filter(observation => recordValue(observation).routine_maintenance === true)
+  const gapped = [...trajectories.values()].filter(observation => (numericValue(recordValue(observation), 'missing_days') ?? 0) > 0)
+  const finalDay = (observation: Observation) => {
+    const days = recordValue(observation).days
+    const last = Array.isArray(days) ? days[days.length - 1] as Record<string, unknown> | undefined : undefined
+    return typeof last?.report_day === 'string' ? last.report_day : 'late week'
+  }
+  // Without a historical reference, every out, doubtful, or questionable designation counts as before.
+  const material = reports.filter(observation => {
+    const loss = expectedAvailabilityLoss(observation)
+    if (loss !== null) return loss >= MATERIAL_AVAILABILITY_LOSS
     const status = String(recordValue(observation).report_status ?? '').toLowerCase()
     return ['out', 'doubtful', 'questionable'].includes(status)
   })
+  const reportFor = (playerId: string) => reports.find(observation => observation.subject.id === playerId)
+  const weighted = reports
+    .filter(observation => recordValue(observation).report_status && expectedAvailabilityLoss(observation) !== null)
+    .sort((left, right) => (expectedAvailabilityLoss(right) ?? 0) - (expectedAvailabilityLoss(left) ?? 0))
+  const outcomeOrder: ReplacementOutcome[] = ['function_lost', 'unknown', 'capable_backup']
+  const roles = observations
+    .filter(observation => observation.metric === 'player.replacement_profile')
+    .map(observation => {
+      const value = recordValue(observation)
+      const replacement = nestedRecord(value, 'replacement')
+      return {
+        observation,
+        team: observation.subject.team ?? '',
+        role: String(value.role ?? 'Starter'),
+        status: String(value.report_status ?? ''),
+        replacementName: typeof replacement.name === 'string' ? replacement.name : null,
+        replacementShare: numericValue(replacement, 'snap_share'),
+        outcome: replacementOutcome(value),
+        lateDowngrade: recordValue(trajectories.get(observation.subject.id)).late_downgrade === true,
+        loss: expectedAvailabilityLoss(reportFor(observation.subject.id)),
+      }
+    })
+    .sort((left, right) => outcomeOrder.indexOf(left.outcome) - outcomeOrder.indexOf(right.outcome))
+  // Each role that loses function counts by its expected availability loss, so several likely absences on
+  // one roster can add up to a material loss. A questionable starter who was downgraded on the final
+  // practice day is treated like a doubtful one.
+  const roleWeight = (role: typeof roles[number]) => {
+    const status = role.status.toLowerCase()
+    const weight = role.loss ?? (['out', 'doubtful'].includes(status) ? 1 : 0)
+    return role.lateDowngrade && status === 'questionable' ? Math.max(weight, MATERIAL_AVAILABILITY_LOSS) : weight
+  }
+  const teamLoss = new Map<string, number>()
+  for (const role of roles) {
+    if (role.outcome === 'function_lost') teamLoss.set(role.team, (teamLoss.get(role.team) ?? 0) + roleWeight(role))
+  }
+  const lost = roles.filter(role => (
+    role.outcome === 'function_lost'
+    && roleWeight(role) > 0
+    && (teamLoss.get(role.team) ?? 0) >= MATERIAL_AVAILABILITY_LOSS
+  ))
+  const lostTeams = [...new Set(lost.map(role => role.team))]
+  const awayLoss = teamLoss.get(game.away_team) ?? 0
+  const homeLoss = teamLoss.get(game.home_team) ?? 0
+  // When both rosters lose function, the side with the clearly lighter expected loss is favored.
+  const favoredTeam = lostTeams.length === 1
+    ? (lostTeams[0] === game.away_team ? game.home_team : game.away_team)
+    : lostTeams.length > 1 && Math.abs(awayLoss - homeLoss) >= MATERIAL_AVAILABILITY_LOSS
+      ? (awayLoss < homeLoss ? game.away_team : game.home_team)
+      : null
+  const direction = favoredTeam ? directionForTeam(favoredTeam, game) : 'none'
+  // Without a depth chart there is nothing to judge replacements against, so designations stand on their own.
+  const uncharted = !roles.length && material.length > 0
+  const state: AgentFinding['state'] = lost.length || uncharted ? 'material' : material.length ? 'contextual' : 'balanced'
+  const lostRoles = lost.map(role => `${role.team} ${role.role}`).join(', ')
   const names = material.slice(0, 3).map(observation => observation.subject.label).filter(Boolean)
-  const statement = material.length
-    ? `${material.length} material player availability report${material.length === 1 ? '' : 's'} are attached${names.length ? `, including ${names.join(', ')}` : ''}; their role effects still require matchup context.`
-    : 'Current reports contain practice or contextual statuses, but no material game designation.'
+  const covered = roles.length > 0 && roles.every(role => role.outcome === 'capable_backup')
+  const practiceNote = lateDowngrades.length
+    ? ` ${lateDowngrades.length} player${lateDowngrades.length === 1 ? ' was' : 's were'} downgraded on the final practice day.`
+    : maintenance.length
+      ? ` ${maintenance.length} missed or limited practice${maintenance.length === 1 ? ' was a routine maintenance day' : 's were routine maintenance days'} followed by full participation.`
+      : ''
+  const statement = uncharted
+    ? `${material.length} material player availability report${material.length === 1 ? '' : 's'} are attached${names.length ? `, including ${names.join(', ')}` : ''}; their role effects still require matchup context.${practiceNote}`
+    : state === 'material'
+      ? `${lostRoles} lose${lost.length === 1 ? 's' : ''} function: the listed replacement${lost.length === 1 ? '' : 's'} played a much smaller prior snap share or produced well below the designated starter.${lost.some(role => role.lateDowngrade) ? ' The designation follows a late-week practice downgrade.' : ''}`
+      : state === 'contextual' && covered
+        ? `Designated starters have listed backups whose prior snap share and production keep the role functional.${practiceNote}`
+        : state === 'contextual'
+          ? `${material.length} material player availability report${material.length === 1 ? '' : 's'} are attached${names.length ? `, including ${names.join(', ')}` : ''}; replacement quality is not established.${practiceNote}`
+          : weighted.length
+            ? `Designations are attached, but past outcomes for the same designation, position, and practice pattern keep each expected availability loss below half.${practiceNote}`
+            : `Current reports contain practice or contextual statuses, but no material game designation.${practiceNote}`
+  const headline = uncharted
+    ? 'Availability can redistribute meaningful roles'
+    : state === 'material'
+      ? lostTeams.length === 1 ? `${lostTeams[0]} loses function at ${lost.map(role => role.role).join(', ')}` : 'Both rosters lose function at listed starting roles'
+      : state === 'contextual' && covered
+        ? 'Starters are designated, but capable backups are listed'
+        : state === 'contextual'
+          ? 'Designations are attached without an established replacement gap'
+          : weighted.length
+            ? 'Designations carry a low expected availability loss'
+            : 'No material availability designation is attached'
+  const roleSignal = (role: typeof roles[number]) => {
+    const trajectory = trajectories.get(role.observation.subject.id)
+    const starter = `${role.observation.subject.label ?? role.role} (${[
+      role.status,
+      ...(role.loss !== null ? [`${percentLabel(role.loss)} expected loss`] : []),
+      ...(role.lateDowngrade && trajectory ? [`downgraded ${finalDay(trajectory)}`] : []),
+    ].join(', ')})`
+    if (!role.replacementName) return `${starter} → no listed backup`
+    const share = role.replacementShare === null ? 'no prior snaps' : `${Math.round(role.replacementShare * 100)}% prior snaps`
+    const outcome = role.outcome === 'function_lost' ? 'function lost' : role.outcome === 'capable_backup' ? 'capable backup' : 'unrated'
+    return `${starter} → ${role.replacementName}, ${share}, ${outcome}`
+  }
   return {
     statement,
     finding: {
-      state: material.length ? 'material' : 'balanced',
-      direction: 'none',
-      headline: material.length ? 'Availability can redistribute meaningful roles' : 'No material availability designation is attached',
+      state,
+      direction: state === 'material' ? direction : 'none',
+      headline,
       detail: statement,
-      signals: [{
-        label: 'Material reports',
-        value: `${material.length} attached`,
-        observation_ids: material.map(observation => observation.observation_id),
-      }],
-      caveats: ['A designation alone does not establish replacement quality or expected workload.'],
+      // Role signals come first: each carries its own expected loss and downgrade, so the summaries fill what is left.
+      signals: [
+        {
+          label: 'Material reports',
+          value: `${material.length} attached`,
+          observation_ids: material.map(observation => observation.observation_id),
+        },
+        ...roles.slice(0, 3).map(role => ({
+          label: `${role.team} ${role.role}`,
+          value: roleSignal(role),
+          observation_ids: [
+            role.observation.observation_id,
+            ...(role.lateDowngrade ? [trajectories.get(role.observation.subject.id)!.observation_id] : []),
+          ],
+        })),
+        ...(weighted.length ? [{
+          label: 'Expected availability',
+          value: weighted.slice(0, 2).map(observation => {
+            const reference = nestedRecord(recordValue(observation), 'availability_reference')
+            return `${observation.subject.label ?? observation.subject.id} (${recordValue(observation).report_status}): ${percentLabel(numericValue(reference, 'play_probability'))} play, ${percentLabel(numericValue(reference, 'expected_loss'))} expected loss`
+          }).join('; '),
+          observation_ids: weighted.slice(0, 2).map(observation => observation.observation_id),
+        }] : []),
+        ...(trajectories.size ? [{
+          label: 'Practice trajectory',
+          value: [
+            lateDowngrades.length
+              ? `${lateDowngrades.length} late-week downgrade${lateDowngrades.length === 1 ? '' : 's'} (${lateDowngrades.map(observation => `${observation.subject.label ?? observation.subject.id} ${finalDay(observation)}`).join(', ')})`
+              : 'no late-week downgrades',
+            `${maintenance.length} routine maintenance day${maintenance.length === 1 ? '' : 's'}`,
+          ].join(', '),
+          observation_ids: [...trajectories.values()].map(observation => observation.observation_id),
+        }] : []),
+      ].slice(0, 4),
+      caveats: mergeCaveats([
+        ...(roles.length
+          ? [
+            'Replacement quality compares prior snap share and production with the next listed depth-chart player; scheme adjustments are not modeled.',
+            ...priorSeasonCaveat(roles.map(role => role.observation), game),
+          ]
+          : ['A designation alone does not establish replacement quality or expected workload.']),
+        ...(gapped.length
+          ? [`${gapped.length} practice trajector${gapped.length === 1 ? 'y skips' : 'ies skip'} report days that were not captured; those days are not inferred.`]
+          : []),
+      ]),
+    },
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
+    observations,
+    suggested_anchor_ids: state === 'material'
+      ? direction === 'none' ? AGENT_ANCHORS.injury : winnerAnchor(direction)
+      : [],
+  }
+}
+
+type EfficiencyCrossMatch = {
+  offense: string
+  defense: string
+  edge: number
+  phases: Array<{ phase: 'pass' | 'run'; edge: number; offenseRank: number | null; defenseRank: number | null }>
+}
+
+// An offense's edge averages its own rank strength with the weakness of the defense it faces.
+function efficiencyCrossMatch(params: {
+  offense: string
+  defense: string
+  offenseValue: Record<string, unknown>
+  defenseValue: Record<string, unknown>
+  leagueSize: number | null
+}): EfficiencyCrossMatch {
+  const offense = nestedRecord(params.offenseValue, 'offense')
+  const defense = nestedRecord(params.defenseValue, 'defense')
+  const edge = (unitOffense: Record<string, unknown>, unitDefense: Record<string, unknown>) => (
+    rankStrength(numericValue(unitOffense, 'epa_rank'), params.leagueSize)
+    + 1 - rankStrength(numericValue(unitDefense, 'epa_rank'), params.leagueSize)
+  ) / 2
+  return {
+    offense: params.offense,
+    defense: params.defense,
+    edge: edge(offense, defense),
+    phases: (['pass', 'run'] as const).map(phase => ({
+      phase,
+      edge: edge(nestedRecord(offense, phase), nestedRecord(defense, phase)),
+      offenseRank: numericValue(nestedRecord(offense, phase), 'epa_rank'),
+      defenseRank: numericValue(nestedRecord(defense, phase), 'epa_rank'),
+    })),
+  }
+}
+
+function percentLabel(value: number | null): string {
+  return value === null ? 'unavailable' : `${Math.round(value * 100)}%`
+}
+
+function efficiencySplitsEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
+  const splitObservation = (team: string) => observations.find(observation => (
+    observation.subject.id === team && observation.metric === 'team.efficiency_splits'
+  ))
+  const awayObservation = splitObservation(game.away_team)
+  const homeObservation = splitObservation(game.home_team)
+  if (!awayObservation || !homeObservation) return null
+  const away = teamMetrics(awayObservation)
+  const home = teamMetrics(homeObservation)
+  const leagueSize = numericValue(away, 'league_size') ?? numericValue(home, 'league_size')
+  const basis = away.adjusted === true && home.adjusted === true ? 'opponent-adjusted EPA/play' : 'EPA/play'
+  const awayMatch = efficiencyCrossMatch({
+    offense: game.away_team, defense: game.home_team, offenseValue: away, defenseValue: home, leagueSize,
+  })
+  const homeMatch = efficiencyCrossMatch({
+    offense: game.home_team, defense: game.away_team, offenseValue: home, defenseValue: away, leagueSize,
+  })
+  const gap = Math.abs(awayMatch.edge - homeMatch.edge)
+  const stronger = awayMatch.edge > homeMatch.edge ? awayMatch : homeMatch
+  const direction = directionForTeam(stronger.offense, game)
+  const state: AgentFinding['state'] = gap >= 0.25 ? 'material' : gap >= 0.125 ? 'contextual' : 'balanced'
+  const sharpest = [awayMatch, homeMatch]
+    .flatMap(match => match.phases.map(phase => ({ ...phase, offense: match.offense, defense: match.defense })))
+    .reduce((best, candidate) => candidate.edge > best.edge ? candidate : best)
+  const phaseLabel = sharpest.phase === 'pass' ? 'passing' : 'rushing'
+  const unit = (value: Record<string, unknown>, side: 'offense' | 'defense') => nestedRecord(value, side)
+  const matchLabel = (offenseValue: Record<string, unknown>, defenseValue: Record<string, unknown>) => (
+    `${rankLabel(numericValue(unit(offenseValue, 'offense'), 'epa_rank'), leagueSize)} offense vs `
+    + `${rankLabel(numericValue(unit(defenseValue, 'defense'), 'epa_rank'), leagueSize)} defense`
+  )
+  const rateLabel = (offenseValue: Record<string, unknown>, defenseValue: Record<string, unknown>, key: string) => (
+    `${percentLabel(numericValue(unit(offenseValue, 'offense'), key))} vs ${percentLabel(numericValue(unit(defenseValue, 'defense'), key))} allowed`
+  )
+  const strongerOffense = stronger.offense === game.away_team ? away : home
+  const strongerDefense = stronger.offense === game.away_team ? home : away
+  const statement = state === 'material'
+    ? `${stronger.offense}'s offense meets the softer opposing defense: its EPA cross-match leads the other by ${Math.round(gap * 100)} points of rank strength, with the sharpest edge in ${phaseLabel}. Explosive-play rate is ${rateLabel(strongerOffense, strongerDefense, 'explosive_rate')}, and red-zone touchdown rate ${rateLabel(strongerOffense, strongerDefense, 'red_zone_td_rate')}.`
+    : `The two offense-versus-defense cross-matches are within ${Math.round(gap * 100)} points of rank strength; the sharpest single edge is ${sharpest.offense} ${phaseLabel} into ${sharpest.defense}'s defense.`
+  const ids = [awayObservation.observation_id, homeObservation.observation_id]
+  return {
+    statement,
+    finding: {
+      state,
+      direction: state === 'balanced' ? 'none' : direction,
+      headline: state === 'material'
+        ? `${stronger.offense} has the clearer efficiency path`
+        : state === 'contextual'
+          ? `${stronger.offense} leans ahead in the efficiency cross-match`
+          : 'The efficiency profiles are relatively close',
+      detail: statement,
+      signals: [
+        {
+          label: `${game.away_team} offense vs ${game.home_team} defense`,
+          value: `${matchLabel(away, home)} (${basis})`,
+          observation_ids: ids,
+        },
+        {
+          label: `${game.home_team} offense vs ${game.away_team} defense`,
+          value: `${matchLabel(home, away)} (${basis})`,
+          observation_ids: ids,
+        },
+        {
+          label: 'Sharpest phase edge',
+          value: `${sharpest.offense} ${phaseLabel}: ${rankLabel(sharpest.offenseRank, leagueSize)} offense into ${rankLabel(sharpest.defenseRank, leagueSize)} defense`,
+          observation_ids: ids,
+        },
+        {
+          label: 'Success rate vs allowed',
+          away_value: rateLabel(away, home, 'success_rate'),
+          home_value: rateLabel(home, away, 'success_rate'),
+          observation_ids: ids,
+        },
+      ],
+      caveats: priorSeasonCaveat([awayObservation], game),
     },
-    evidence_state: material.length ? 'observed_support' : 'observed_context',
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
     observations,
-    suggested_anchor_ids: material.length ? AGENT_ANCHORS.injury : [],
+    suggested_anchor_ids: state === 'material' ? [...winnerAnchor(direction), 'blowout'] : [],
   }
 }
 
 function epaEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
-  const awayObservation = teamObservation(observations, game.away_team)
-  const homeObservation = teamObservation(observations, game.home_team)
+  const crossMatch = efficiencySplitsEvidence(observations, game)
+  if (crossMatch) return crossMatch
+  const awayObservation = teamObservation(observations, game.away_team, 'team.offensive_epa_per_play')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.offensive_epa_per_play')
   if (!awayObservation || !homeObservation) return null
-  const away = recordValue(awayObservation)
-  const home = recordValue(homeObservation)
+  const away = teamMetrics(awayObservation)
+  const home = teamMetrics(homeObservation)
   const awayRank = numericValue(away, 'rank')
   const homeRank = numericValue(home, 'rank')
   if (awayRank === null || homeRank === null) return null
@@ -218,12 +698,12 @@ function epaEvidence(observations: Observation[], game: ScenarioGame): EventEvid
       headline: state === 'material' ? `${strongerTeam} has the clearer efficiency path` : 'The efficiency profiles are relatively close',
       detail: statement,
       signals: [{
-        label: 'Offensive EPA rank',
+        label: adjustedLabel('Offensive EPA rank', away),
         away_value: rankLabel(awayRank, numericValue(away, 'league_size')),
         home_value: rankLabel(homeRank, numericValue(home, 'league_size')),
         observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
       }],
-      caveats: priorSeasonCaveat(observations, game),
+      caveats: priorSeasonCaveat([awayObservation], game),
     },
     evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
     observations,
@@ -232,55 +712,118 @@ function epaEvidence(observations: Observation[], game: ScenarioGame): EventEvid
 }
 
 function turnoversEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
-  const awayObservation = teamObservation(observations, game.away_team)
-  const homeObservation = teamObservation(observations, game.home_team)
+  const awayObservation = teamObservation(observations, game.away_team, 'team.turnover_profile')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.turnover_profile')
   if (!awayObservation || !homeObservation) return null
-  const away = recordValue(awayObservation)
-  const home = recordValue(homeObservation)
+  const away = teamMetrics(awayObservation)
+  const home = teamMetrics(homeObservation)
   const leagueSize = numericValue(away, 'league_size') ?? numericValue(home, 'league_size')
-  const awayGiveawayRank = numericValue(away, 'giveaway_rank')
-  const homeGiveawayRank = numericValue(home, 'giveaway_rank')
-  const awayTakeawayRank = numericValue(away, 'takeaway_rank')
-  const homeTakeawayRank = numericValue(home, 'takeaway_rank')
-  const awayRisk = (1 - rankStrength(awayGiveawayRank, leagueSize) + rankStrength(homeTakeawayRank, leagueSize)) / 2
-  const homeRisk = (1 - rankStrength(homeGiveawayRank, leagueSize) + rankStrength(awayTakeawayRank, leagueSize)) / 2
-  const gap = Math.abs(awayRisk - homeRisk)
-  const advantagedTeam = awayRisk < homeRisk ? game.away_team : game.home_team
+  const crossMatch = (giveawayKey: string, takeawayKey: string, source: (metrics: Record<string, unknown>) => Record<string, unknown>) => {
+    const awayRisk = (1 - rankStrength(numericValue(source(away), giveawayKey), leagueSize)
+      + rankStrength(numericValue(source(home), takeawayKey), leagueSize)) / 2
+    const homeRisk = (1 - rankStrength(numericValue(source(home), giveawayKey), leagueSize)
+      + rankStrength(numericValue(source(away), takeawayKey), leagueSize)) / 2
+    const gap = Math.abs(awayRisk - homeRisk)
+    return {
+      awayRisk,
+      homeRisk,
+      advantagedTeam: awayRisk < homeRisk ? game.away_team : game.home_team,
+      state: (gap >= 0.2 ? 'material' : gap >= 0.1 ? 'contextual' : 'balanced') as AgentFinding['state'],
+    }
+  }
+  const awayLuck = nestedRecord(away, 'luck')
+  const homeLuck = nestedRecord(home, 'luck')
+  const decomposed = numericValue(awayLuck, 'expected_giveaway_rank') !== null
+    && numericValue(homeLuck, 'expected_giveaway_rank') !== null
+  const results = crossMatch('giveaway_rank', 'takeaway_rank', metrics => metrics)
+  // With a decomposition, the repeatable exchange is ranked on expected turnovers rather than results.
+  const repeatable = decomposed
+    ? crossMatch('expected_giveaway_rank', 'expected_takeaway_rank', metrics => nestedRecord(metrics, 'luck'))
+    : results
+  const fading = decomposed && results.state === 'material' && repeatable.state !== 'material'
+  const state: AgentFinding['state'] = fading ? 'contextual' : repeatable.state
+  const advantagedTeam = fading ? results.advantagedTeam : repeatable.advantagedTeam
   const direction = directionForTeam(advantagedTeam, game)
-  const state: AgentFinding['state'] = gap >= 0.2 ? 'material' : gap >= 0.1 ? 'contextual' : 'balanced'
   const riskLabel = (risk: number) => risk >= 0.62 ? 'elevated' : risk <= 0.38 ? 'contained' : 'typical'
-  const statement = state === 'material'
-    ? `${advantagedTeam} has the cleaner turnover exchange when each offense's ball security is crossed with the opposing takeaway profile.`
-    : 'The two turnover cross-matches are close enough that variance matters more than a stable team advantage.'
-  return {
-    statement,
-    finding: {
-      state,
-      direction: state === 'balanced' ? 'none' : direction,
-      headline: state === 'material' ? `${advantagedTeam} has the cleaner ball-security matchup` : 'Turnover exposure is broadly balanced',
-      detail: statement,
-      signals: [
+  const statement = fading
+    ? `${advantagedTeam}'s turnover results outrun its expected giveaways and takeaways; the edge leans on recovery and interception luck that is likely to fade.`
+    : state === 'material'
+      ? decomposed
+        ? `${advantagedTeam} has the repeatable ball-security edge: expected giveaways and takeaways, not recovery luck, separate the two cross-matches.`
+        : `${advantagedTeam} has the cleaner turnover exchange when each offense's ball security is crossed with the opposing takeaway profile.`
+      : 'The two turnover cross-matches are close enough that variance matters more than a stable team advantage.'
+  const headline = fading
+    ? `${advantagedTeam}'s turnover edge leans on luck likely to fade`
+    : state === 'material'
+      ? decomposed ? `${advantagedTeam} has the repeatable ball-security edge` : `${advantagedTeam} has the cleaner ball-security matchup`
+      : 'Turnover exposure is broadly balanced'
+  const observationIds = [awayObservation.observation_id, homeObservation.observation_id]
+  const withActual = (luck: Record<string, unknown>, expectedKey: string, actualKey: string) => (
+    `${numericValue(luck, expectedKey) ?? 'unavailable'} (actual ${numericValue(luck, actualKey) ?? 'unavailable'})`
+  )
+  const signedLuck = (luck: Record<string, unknown>) => {
+    const value = numericValue(luck, 'net_luck_per_game')
+    return value === null ? 'unavailable' : `${value > 0 ? '+' : ''}${value}`
+  }
+  const signals: AgentFinding['signals'] = decomposed
+    ? [
+        {
+          label: 'Expected giveaways / game',
+          away_value: withActual(awayLuck, 'expected_giveaways_per_game', 'actual_giveaways_per_game'),
+          home_value: withActual(homeLuck, 'expected_giveaways_per_game', 'actual_giveaways_per_game'),
+          observation_ids: observationIds,
+        },
         {
-          label: 'Giveaways / game',
+          label: 'Expected takeaways / game',
+          away_value: withActual(awayLuck, 'expected_takeaways_per_game', 'actual_takeaways_per_game'),
+          home_value: withActual(homeLuck, 'expected_takeaways_per_game', 'actual_takeaways_per_game'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Luck residual / game',
+          away_value: signedLuck(awayLuck),
+          home_value: signedLuck(homeLuck),
+          observation_ids: observationIds,
+        },
+      ]
+    : [
+        {
+          label: adjustedLabel('Giveaways / game', away),
           away_value: String(numericValue(away, 'giveaways_per_game') ?? 'unavailable'),
           home_value: String(numericValue(home, 'giveaways_per_game') ?? 'unavailable'),
-          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
+          observation_ids: observationIds,
         },
         {
-          label: 'Takeaways / game',
+          label: adjustedLabel('Takeaways / game', away),
           away_value: String(numericValue(away, 'takeaways_per_game') ?? 'unavailable'),
           home_value: String(numericValue(home, 'takeaways_per_game') ?? 'unavailable'),
-          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
+          observation_ids: observationIds,
         },
+      ]
+  const charted = [awayLuck, homeLuck].every(luck => (
+    luck.interception_basis === 'bad_throws' && luck.takeaway_interception_basis === 'passes_defended'
+  ))
+  return {
+    statement,
+    finding: {
+      state,
+      direction: state === 'balanced' ? 'none' : direction,
+      headline,
+      detail: statement,
+      signals: [
+        ...signals,
         {
           label: 'Cross-match exposure',
-          away_value: riskLabel(awayRisk),
-          home_value: riskLabel(homeRisk),
-          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
+          away_value: riskLabel(repeatable.awayRisk),
+          home_value: riskLabel(repeatable.homeRisk),
+          observation_ids: observationIds,
         },
       ],
       caveats: [
-        ...priorSeasonCaveat(observations, game),
+        ...priorSeasonCaveat([awayObservation], game),
+        ...(decomposed && !charted
+          ? ['Where bad-throw or passes-defended data is missing, actual interceptions stand in for the expectation.']
+          : []),
         'Turnover outcomes are noisy; this compares repeatable team profiles rather than projecting a turnover count.',
       ],
     },
@@ -291,11 +834,11 @@ function turnoversEvidence(observations: Observation[], game: ScenarioGame): Eve
 }
 
 function trenchesEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
-  const awayObservation = teamObservation(observations, game.away_team)
-  const homeObservation = teamObservation(observations, game.home_team)
+  const awayObservation = teamObservation(observations, game.away_team, 'team.trenches_proxy')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.trenches_proxy')
   if (!awayObservation || !homeObservation) return null
-  const away = recordValue(awayObservation)
-  const home = recordValue(homeObservation)
+  const away = teamMetrics(awayObservation)
+  const home = teamMetrics(homeObservation)
   const leagueSize = numericValue(away, 'league_size') ?? numericValue(home, 'league_size')
   const awayPass = rankStrength(numericValue(away, 'pass_protection_rank'), leagueSize)
     - rankStrength(numericValue(home, 'front_disruption_rank'), leagueSize)
@@ -324,26 +867,26 @@ function trenchesEvidence(observations: Observation[], game: ScenarioGame): Even
       detail: statement,
       signals: [
         {
-          label: 'Pass protection rank',
+          label: adjustedLabel('Pass protection rank', away),
           away_value: rankLabel(numericValue(away, 'pass_protection_rank'), leagueSize),
           home_value: rankLabel(numericValue(home, 'pass_protection_rank'), leagueSize),
           observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
         },
         {
-          label: 'Rushing efficiency rank',
+          label: adjustedLabel('Rushing efficiency rank', away),
           away_value: rankLabel(numericValue(away, 'rushing_efficiency_rank'), leagueSize),
           home_value: rankLabel(numericValue(home, 'rushing_efficiency_rank'), leagueSize),
           observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
         },
         {
-          label: 'Front disruption rank',
+          label: adjustedLabel('Front disruption rank', away),
           away_value: rankLabel(numericValue(away, 'front_disruption_rank'), leagueSize),
           home_value: rankLabel(numericValue(home, 'front_disruption_rank'), leagueSize),
           observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
         },
       ],
       caveats: [
-        ...priorSeasonCaveat(observations, game),
+        ...priorSeasonCaveat([awayObservation], game),
         'This is a transparent result-based proxy, not an assignment-level offensive-line grade.',
       ],
     },
@@ -355,9 +898,332 @@ function trenchesEvidence(observations: Observation[], game: ScenarioGame): Even
   }
 }
 
+function pressureEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
+  const awayObservation = teamObservation(observations, game.away_team, 'team.pressure_profile')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.pressure_profile')
+  if (!awayObservation || !homeObservation) return null
+  const away = recordValue(awayObservation)
+  const home = recordValue(homeObservation)
+  const leagueSize = numericValue(away, 'league_size') ?? numericValue(home, 'league_size')
+  const awayExposure = (
+    rankStrength(numericValue(home, 'pass_rush_rank'), leagueSize)
+    + 1 - rankStrength(numericValue(away, 'protection_rank'), leagueSize)
+    + 1 - rankStrength(numericValue(away, 'pressure_response_rank'), leagueSize)
+  ) / 3
+  const homeExposure = (
+    rankStrength(numericValue(away, 'pass_rush_rank'), leagueSize)
+    + 1 - rankStrength(numericValue(home, 'protection_rank'), leagueSize)
+    + 1 - rankStrength(numericValue(home, 'pressure_response_rank'), leagueSize)
+  ) / 3
+  const gap = Math.abs(awayExposure - homeExposure)
+  const mutual = Math.min(awayExposure, homeExposure) >= 0.6
+  const advantagedTeam = awayExposure < homeExposure ? game.away_team : game.home_team
+  const exposedTeam = advantagedTeam === game.away_team ? game.home_team : game.away_team
+  const direction = mutual ? 'none' : directionForTeam(advantagedTeam, game)
+  const state: AgentFinding['state'] = mutual || gap >= 0.2
+    ? 'material'
+    : gap >= 0.1
+      ? 'contextual'
+      : 'balanced'
+  const statement = mutual
+    ? 'Both pass rushes meet protection and quarterback-response profiles they can disrupt, so either offense can see drives end before its answers develop.'
+    : state === 'material'
+      ? `The ${exposedTeam} passing game faces the more dangerous pressure cross-match; the opposing rush meets weaker protection or a weaker quarterback response.`
+      : 'Neither pass rush owns a decisive edge over the opposing protection and quarterback response.'
+  const percent = (value: Record<string, unknown>, key: string) => {
+    const rate = numericValue(value, key)
+    return rate === null ? 'unavailable' : `${(rate * 100).toFixed(1)}%`
+  }
+  const seconds = (value: Record<string, unknown>) => {
+    const timeToThrow = numericValue(value, 'average_time_to_throw')
+    return timeToThrow === null ? 'unavailable' : `${timeToThrow.toFixed(2)} s`
+  }
+  const epa = (value: Record<string, unknown>) => {
+    const pressuredEpa = numericValue(value, 'qb_epa_under_pressure')
+    return pressuredEpa === null ? 'unavailable' : pressuredEpa.toFixed(2)
+  }
+  const observationIds = [awayObservation.observation_id, homeObservation.observation_id]
+  return {
+    statement,
+    finding: {
+      state,
+      direction: state === 'material' ? direction : 'none',
+      headline: mutual
+        ? 'Both offenses face a drive-ending pass rush'
+        : state === 'material'
+          ? `${advantagedTeam} has the cleaner pressure cross-match`
+          : 'Pressure cross-matches are relatively balanced',
+      detail: statement,
+      signals: [
+        {
+          label: 'Pressure rate generated',
+          away_value: percent(away, 'pressure_rate_generated'),
+          home_value: percent(home, 'pressure_rate_generated'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Pressure rate allowed',
+          away_value: percent(away, 'pressure_rate_allowed'),
+          home_value: percent(home, 'pressure_rate_allowed'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Time to throw',
+          away_value: seconds(away),
+          home_value: seconds(home),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'QB EPA under pressure',
+          away_value: epa(away),
+          home_value: epa(home),
+          observation_ids: observationIds,
+        },
+      ],
+      caveats: [
+        ...priorSeasonCaveat([awayObservation], game),
+        'Pressure counts come from charted research data; QB EPA under pressure uses hit-or-sack dropbacks as a proxy for pressured plays.',
+      ],
+    },
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
+    observations,
+    suggested_anchor_ids: state !== 'material'
+      ? []
+      : mutual
+        ? ['game_under', 'grind']
+        : winnerAnchor(direction),
+  }
+}
+
+function qbEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
+  const starter = (team: string) => observations.find(observation => (
+    observation.metric === 'player.qb_profile' && observation.subject.team === team
+  ))
+  const passDefense = (team: string) => observations.find(observation => (
+    observation.metric === 'team.pass_defense' && observation.subject.id === team
+  ))
+  const awayStarter = starter(game.away_team)
+  const homeStarter = starter(game.home_team)
+  const awayDefense = passDefense(game.away_team)
+  const homeDefense = passDefense(game.home_team)
+  if (!awayStarter || !homeStarter || !awayDefense || !homeDefense) return null
+  const away = recordValue(awayStarter)
+  const home = recordValue(homeStarter)
+  const awayPassDefense = recordValue(awayDefense)
+  const homePassDefense = recordValue(homeDefense)
+  const defenseLeagueSize = numericValue(awayPassDefense, 'league_size') ?? numericValue(homePassDefense, 'league_size')
+  const awayEdge = rankStrength(numericValue(away, 'epa_rank'), numericValue(away, 'qualified_quarterbacks'))
+    - rankStrength(numericValue(homePassDefense, 'pass_defense_rank'), defenseLeagueSize)
+  const homeEdge = rankStrength(numericValue(home, 'epa_rank'), numericValue(home, 'qualified_quarterbacks'))
+    - rankStrength(numericValue(awayPassDefense, 'pass_defense_rank'), defenseLeagueSize)
+  const gap = Math.abs(awayEdge - homeEdge)
+  const changedStarters = [awayStarter, homeStarter].filter(observation => recordValue(observation).starter_change === true)
+  const advantagedTeam = awayEdge > homeEdge ? game.away_team : game.home_team
+  const direction = gap >= 0.12 ? directionForTeam(advantagedTeam, game) : 'none'
+  const state: AgentFinding['state'] = changedStarters.length || gap >= 0.25
+    ? 'material'
+    : gap >= 0.12
+      ? 'contextual'
+      : 'balanced'
+  const changeText = changedStarters.map(observation => {
+    const incumbent = recordValue(observation).incumbent as Record<string, unknown> | null
+    const replaced = incumbent && typeof incumbent.name === 'string' ? ` in place of ${incumbent.name}` : ''
+    return `${observation.subject.label} projects to start for ${observation.subject.team}${replaced}`
+  }).join('; ')
+  const statement = changedStarters.length
+    ? `${changeText}, so the team passing baseline no longer describes the quarterback who will face this defense.`
+    : state === 'material'
+      ? `${advantagedTeam}'s projected starter meets the more favorable pass-defense cross-match, giving that passing game the clearer path to sustain drives.`
+      : 'The projected starters meet comparable pass-defense cross-matches, so quarterback play is not a standalone matchup edge.'
+  const starterLabel = (observation: Observation) => {
+    const value = recordValue(observation)
+    const status = typeof value.report_status === 'string' ? ` (${value.report_status})` : ''
+    return `${observation.subject.label ?? observation.subject.id}${value.starter_change === true ? ' (change)' : status}`
+  }
+  const efficiency = (value: Record<string, unknown>) => {
+    const epa = numericValue(value, 'epa_per_dropback')
+    const cpoe = numericValue(value, 'cpoe')
+    return `${epa === null ? 'n/a' : epa.toFixed(2)} / ${cpoe === null ? 'n/a' : `${cpoe > 0 ? '+' : ''}${cpoe.toFixed(1)}`}`
+  }
+  const rates = (value: Record<string, unknown>) => ['sack_rate', 'interception_rate', 'scramble_rate']
+    .map(key => {
+      const rate = numericValue(value, key)
+      return rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`
+    })
+    .join(' / ')
+  const thinSamples = [awayStarter, homeStarter].filter(observation => (
+    (numericValue(recordValue(observation), 'dropbacks') ?? 0) < 150
+  ))
+  const starterIds = [awayStarter.observation_id, homeStarter.observation_id]
+  const bothPassingPaths = awayEdge >= 0.2 && homeEdge >= 0.2
+  return {
+    statement,
+    finding: {
+      state,
+      direction: state === 'balanced' ? 'none' : direction,
+      headline: changedStarters.length
+        ? 'A quarterback change resets the passing baseline'
+        : state === 'material'
+          ? `${advantagedTeam} has the clearer quarterback cross-match`
+          : 'Quarterback cross-matches are relatively close',
+      detail: statement,
+      signals: [
+        {
+          label: 'Projected starter',
+          away_value: starterLabel(awayStarter),
+          home_value: starterLabel(homeStarter),
+          observation_ids: starterIds,
+        },
+        {
+          label: 'EPA / dropback and CPOE',
+          away_value: efficiency(away),
+          home_value: efficiency(home),
+          observation_ids: starterIds,
+        },
+        {
+          label: 'Sack / INT / scramble rate',
+          away_value: rates(away),
+          home_value: rates(home),
+          observation_ids: starterIds,
+        },
+        {
+          label: 'Opposing pass defense rank',
+          away_value: rankLabel(numericValue(homePassDefense, 'pass_defense_rank'), defenseLeagueSize),
+          home_value: rankLabel(numericValue(awayPassDefense, 'pass_defense_rank'), defenseLeagueSize),
+          observation_ids: [homeDefense.observation_id, awayDefense.observation_id],
+        },
+      ],
+      caveats: [
+        ...priorSeasonCaveat([awayStarter], game),
+        ...(thinSamples.length
+          ? [`${thinSamples.map(observation => observation.subject.label ?? observation.subject.id).join(' and ')} ${thinSamples.length === 1 ? 'has' : 'have'} fewer than 150 dropbacks in the sample, so the baseline is thin.`]
+          : []),
+        'Projected starters come from the latest depth chart adjusted for out or doubtful designations.',
+      ],
+    },
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
+    observations,
+    suggested_anchor_ids: state === 'material'
+      ? [...winnerAnchor(direction), ...(bothPassingPaths ? AGENT_ANCHORS.qb : [])]
+      : [],
+  }
+}
+
+function momentumEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
+  const awayObservation = teamObservation(observations, game.away_team, 'team.momentum_profile')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.momentum_profile')
+  if (!awayObservation || !homeObservation) return null
+  const unit = (observation: Observation, key: 'offense' | 'defense') => nestedRecord(recordValue(observation), key)
+  const movements = [awayObservation, homeObservation].flatMap(observation => (
+    (['offense', 'defense'] as const).map(key => ({
+      team: observation.subject.id,
+      unit: key,
+      change: numericValue(unit(observation, key), 'change'),
+      zScore: numericValue(unit(observation, key), 'z_score') ?? 0,
+      significance: String(unit(observation, key).significance ?? 'insufficient_sample'),
+    }))
+  ))
+  const leading = [...movements].sort((left, right) => Math.abs(right.zScore) - Math.abs(left.zScore))[0]
+  const improving = (leading.change ?? 0) > 0
+  const state: AgentFinding['state'] = leading.significance === 'durable'
+    ? 'material'
+    : leading.significance === 'emerging'
+      ? 'contextual'
+      : 'balanced'
+  const favoredTeam = improving
+    ? leading.team
+    : leading.team === game.away_team ? game.home_team : game.away_team
+  const direction = state === 'balanced' ? 'none' : directionForTeam(favoredTeam, game)
+  const insufficient = movements.every(movement => movement.significance === 'insufficient_sample')
+  const movementText = `${leading.team}'s ${leading.unit} has ${improving ? 'improved' : 'declined'} over the last four games after opponent adjustment`
+  const statement = insufficient
+    ? 'Neither team has enough completed games to separate a recent window from its baseline.'
+    : state === 'material'
+      ? `${movementText}, and the change is large enough relative to game-to-game noise to treat as durable.`
+      : state === 'contextual'
+        ? `${movementText}, but the sample does not yet support calling the change durable.`
+        : 'Recent opponent-adjusted execution sits within normal variation of each team\'s baseline.'
+  const changeLabel = (observation: Observation, key: 'offense' | 'defense') => {
+    const value = unit(observation, key)
+    const change = numericValue(value, 'change')
+    const significance = String(value.significance ?? 'insufficient_sample').replace(/_/g, ' ')
+    return change === null ? significance : `${change > 0 ? '+' : ''}${change.toFixed(2)} (${significance})`
+  }
+  const sampleLabel = (observation: Observation) => {
+    const value = recordValue(observation)
+    return `${numericValue(value, 'recent_games') ?? 0} recent / ${numericValue(value, 'baseline_games') ?? 0} baseline`
+  }
+  const observationIds = [awayObservation.observation_id, homeObservation.observation_id]
+  return {
+    statement,
+    finding: {
+      state,
+      direction,
+      headline: insufficient
+        ? 'The sample is too short to establish momentum'
+        : state === 'material'
+          ? `${leading.team}'s ${leading.unit} shows a durable ${improving ? 'improvement' : 'decline'}`
+          : state === 'contextual'
+            ? `${leading.team}'s ${leading.unit} is moving, but the change is not yet durable`
+            : 'Neither team shows a durable change in form',
+      detail: statement,
+      signals: [
+        {
+          label: 'Offense change (adj. EPA/play)',
+          away_value: changeLabel(awayObservation, 'offense'),
+          home_value: changeLabel(homeObservation, 'offense'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Defense change (adj. EPA/play)',
+          away_value: changeLabel(awayObservation, 'defense'),
+          home_value: changeLabel(homeObservation, 'defense'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Games in sample',
+          away_value: sampleLabel(awayObservation),
+          home_value: sampleLabel(homeObservation),
+          observation_ids: observationIds,
+        },
+      ],
+      caveats: [
+        ...priorSeasonCaveat([awayObservation], game),
+        'Changes compare the last four games with the earlier baseline after adjusting each game for opponent season strength; personnel and scheme causes are not attributed.',
+      ],
+    },
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
+    observations,
+    suggested_anchor_ids: state === 'material' ? winnerAnchor(direction) : [],
+  }
+}
+
+const LONG_DEFENSIVE_GAME_SNAPS = 75
+
+// A short week weighs more when the prior game went to overtime or kept the defense on the field.
+function taxedShortWeek(value: Record<string, unknown>): boolean {
+  if (value.schedule_spot !== 'short_week') return false
+  const defensiveSnaps = numericValue(value, 'previous_defensive_snaps')
+  return value.previous_overtime === true || (defensiveSnaps !== null && defensiveSnaps >= LONG_DEFENSIVE_GAME_SNAPS)
+}
+
+// Two or more zones away from home, a kickoff before 11 AM or after 10 PM on the body clock.
+function bodyClockStrain(value: Record<string, unknown>): boolean {
+  const zones = numericValue(value, 'time_zones_crossed')
+  const hour = numericValue(value, 'body_clock_kickoff_hour')
+  return zones !== null && zones >= 2 && hour !== null && (hour < 11 || hour >= 22)
+}
+
+function clockLabel(hour: number | null): string {
+  if (hour === null) return 'unavailable'
+  const minutes = Math.round(hour * 60)
+  const hours = Math.floor(minutes / 60) % 24
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`
+}
+
 function restEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
-  const awayObservation = teamObservation(observations, game.away_team)
-  const homeObservation = teamObservation(observations, game.home_team)
+  const awayObservation = teamObservation(observations, game.away_team, 'team.schedule_rest_context')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.schedule_rest_context')
   if (!awayObservation || !homeObservation) return null
   const away = recordValue(awayObservation)
   const home = recordValue(homeObservation)
@@ -366,48 +1232,87 @@ function restEvidence(observations: Observation[], game: ScenarioGame): EventEvi
   const awayTravel = numericValue(away, 'travel_miles_from_home')
   const homeTravel = numericValue(home, 'travel_miles_from_home')
   const restGap = awayDays !== null && homeDays !== null ? Math.abs(awayDays - homeDays) : null
-  const advantagedTeam = restGap !== null && restGap > 0
-    ? awayDays! > homeDays! ? game.away_team : game.home_team
-    : null
+  const awayTaxed = taxedShortWeek(away)
+  const homeTaxed = taxedShortWeek(home)
+  const taxedTeam = awayTaxed !== homeTaxed ? awayTaxed ? game.away_team : game.home_team : null
+  const advantagedTeam = taxedTeam
+    ? taxedTeam === game.away_team ? game.home_team : game.away_team
+    : restGap !== null && restGap > 0
+      ? awayDays! > homeDays! ? game.away_team : game.home_team
+      : null
   const direction = advantagedTeam ? directionForTeam(advantagedTeam, game) : 'none'
+  const awayStrained = bodyClockStrain(away)
+  const homeStrained = bodyClockStrain(home)
+  const strainedTeam = awayStrained !== homeStrained ? awayStrained ? game.away_team : game.home_team : null
+  const strainedValue = strainedTeam === game.away_team ? away : home
   const openingWeek = awayDays === null || homeDays === null
   const state: AgentFinding['state'] = openingWeek
     ? 'contextual'
-    : restGap! >= 1.5
+    : restGap! >= 1.5 || taxedTeam
       ? 'material'
-      : restGap! >= 0.75
+      : restGap! >= 0.75 || strainedTeam
         ? 'contextual'
         : 'balanced'
-  const statement = openingWeek
+  const taxedValue = taxedTeam === game.away_team ? away : home
+  const taxedLoad = taxedValue.previous_overtime === true
+    ? 'an overtime game'
+    : `${numericValue(taxedValue, 'previous_defensive_snaps')} defensive snaps`
+  const restStatement = openingWeek
     ? 'The regular-season schedule establishes travel context, but Week 1 does not have a prior regular-season turnaround baseline.'
-    : state === 'material'
-      ? `${advantagedTeam} has the cleaner recovery and preparation window entering this matchup.`
-      : 'The two teams enter with comparable turnaround windows, so rest is not a standalone matchup edge.'
-  const scheduleSpot = (value: Record<string, unknown>) => (
-    typeof value.schedule_spot === 'string' ? value.schedule_spot.replace(/_/g, ' ') : 'unavailable'
-  )
+    : taxedTeam
+      ? `${taxedTeam} enters a short week after ${taxedLoad}, a heavier recovery load than an ordinary short week; ${advantagedTeam} has the cleaner preparation window.`
+      : state === 'material'
+        ? `${advantagedTeam} has the cleaner recovery and preparation window entering this matchup.`
+        : 'The two teams enter with comparable turnaround windows, so rest is not a standalone matchup edge.'
+  const statement = strainedTeam
+    ? `${restStatement} ${strainedTeam} kicks off at ${clockLabel(numericValue(strainedValue, 'body_clock_kickoff_hour'))} on its home body clock after crossing ${numericValue(strainedValue, 'time_zones_crossed')} time zones.`
+    : restStatement
+  // The signal list is capped, so the schedule spot rides along with the turnaround it is read from.
+  const turnaround = (days: number | null, value: Record<string, unknown>) => {
+    if (days === null) return 'opening week'
+    return typeof value.schedule_spot === 'string' ? `${days} days, ${value.schedule_spot.replace(/_/g, ' ')}` : `${days} days`
+  }
+  const bodyClock = (value: Record<string, unknown>) => {
+    const zones = numericValue(value, 'time_zones_crossed')
+    const hour = numericValue(value, 'body_clock_kickoff_hour')
+    const crossing = zones === null
+      ? null
+      : zones === 0
+        ? 'same zone'
+        : `${zones} zone${zones === 1 ? '' : 's'} ${String(value.travel_direction ?? '')}`.trim()
+    return [hour === null ? null : `${clockLabel(hour)} kickoff`, crossing].filter(Boolean).join(', ') || 'unavailable'
+  }
+  const priorLoad = (value: Record<string, unknown>) => {
+    const defensiveSnaps = numericValue(value, 'previous_defensive_snaps')
+    const offensivePlays = numericValue(value, 'previous_offensive_plays')
+    if (defensiveSnaps === null && offensivePlays === null && typeof value.previous_overtime !== 'boolean') return 'unavailable'
+    return [
+      `${defensiveSnaps ?? '?'} def snaps`,
+      `${offensivePlays ?? '?'} off plays`,
+      ...(value.previous_overtime === true ? ['OT'] : []),
+    ].join(' / ')
+  }
+  const workloadAttached = [away, home].every(value => value.data_scope === 'schedule_and_workload')
   return {
     statement,
     finding: {
       state,
       direction: state === 'material' ? direction : 'none',
-      headline: openingWeek
-        ? 'Week 1 rest is not established by the regular-season schedule'
+      headline: taxedTeam
+        ? `${taxedTeam} faces a short week after a heavy workload`
         : state === 'material'
           ? `${advantagedTeam} has the stronger rest profile`
-          : 'Rest windows are effectively even',
+          : strainedTeam
+            ? `${strainedTeam} plays on a shifted body clock`
+            : openingWeek
+              ? 'Week 1 rest is not established by the regular-season schedule'
+              : 'Rest windows are effectively even',
       detail: statement,
       signals: [
         {
           label: 'Turnaround',
-          away_value: awayDays === null ? 'opening week' : `${awayDays} days`,
-          home_value: homeDays === null ? 'opening week' : `${homeDays} days`,
-          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
-        },
-        {
-          label: 'Schedule spot',
-          away_value: scheduleSpot(away),
-          home_value: scheduleSpot(home),
+          away_value: turnaround(awayDays, away),
+          home_value: turnaround(homeDays, home),
           observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
         },
         {
@@ -416,10 +1321,24 @@ function restEvidence(observations: Observation[], game: ScenarioGame): EventEvi
           home_value: homeTravel === null ? 'unavailable' : `${Math.round(homeTravel)} mi`,
           observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
         },
+        {
+          label: 'Body clock',
+          away_value: bodyClock(away),
+          home_value: bodyClock(home),
+          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
+        },
+        ...(openingWeek ? [] : [{
+          label: 'Prior-game load',
+          away_value: priorLoad(away),
+          home_value: priorLoad(home),
+          observation_ids: [awayObservation.observation_id, homeObservation.observation_id],
+        }]),
       ],
       caveats: openingWeek
         ? ['Preseason games are intentionally excluded from the rest calculation.']
-        : ['Schedule-derived rest does not yet include overtime or player snap load.'],
+        : workloadAttached
+          ? []
+          : ['Schedule-derived rest does not yet include overtime or player snap load.'],
     },
     evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
     observations,
@@ -427,6 +1346,138 @@ function restEvidence(observations: Observation[], game: ScenarioGame): EventEvi
   }
 }
 
+function paceEvidence(observations: Observation[], game: ScenarioGame): EventEvidence | null {
+  const awayObservation = teamObservation(observations, game.away_team, 'team.pace_profile')
+  const homeObservation = teamObservation(observations, game.home_team, 'team.pace_profile')
+  if (!awayObservation || !homeObservation) return null
+  const away = recordValue(awayObservation)
+  const home = recordValue(homeObservation)
+  const leagueSize = numericValue(away, 'league_size') ?? numericValue(home, 'league_size')
+  const awayTempo = rankStrength(numericValue(away, 'tempo_rank'), leagueSize)
+  const homeTempo = rankStrength(numericValue(home, 'tempo_rank'), leagueSize)
+  const awayPassRate = rankStrength(numericValue(away, 'pass_rate_rank'), leagueSize)
+  const homePassRate = rankStrength(numericValue(home, 'pass_rate_rank'), leagueSize)
+  const volume = (awayTempo + homeTempo + (awayPassRate + homePassRate) / 2) / 3
+  const gap = Math.abs(awayTempo - homeTempo)
+  const fasterTeam = awayTempo > homeTempo ? game.away_team : game.home_team
+  const state: AgentFinding['state'] = volume >= 0.7
+    ? 'material'
+    : gap >= 0.35 || volume <= 0.3
+      ? 'contextual'
+      : 'balanced'
+  const statement = state === 'material'
+    ? 'Both offenses play fast and pass-first in neutral situations, so the matchup can create above-normal play volume for either efficiency profile to use.'
+    : state === 'contextual'
+      ? volume <= 0.3
+        ? 'Both offenses play deliberately in neutral situations, which compresses possessions rather than adding play volume.'
+        : `${fasterTeam} plays at a clearly faster neutral tempo, so the pace collision depends on which offense controls possession length.`
+      : 'The neutral tempo and pass-rate profiles are close enough that pace does not establish a distinct play-volume mechanism.'
+  const seconds = (value: Record<string, unknown>) => {
+    const secondsPerSnap = numericValue(value, 'neutral_seconds_per_snap')
+    return secondsPerSnap === null ? 'unavailable' : `${secondsPerSnap.toFixed(1)} s`
+  }
+  const percent = (value: Record<string, unknown>, key: string) => {
+    const rate = numericValue(value, key)
+    return rate === null ? 'unavailable' : `${Math.round(rate * 100)}%`
+  }
+  const observationIds = [awayObservation.observation_id, homeObservation.observation_id]
+  return {
+    statement,
+    finding: {
+      state,
+      direction: 'none',
+      headline: state === 'material'
+        ? 'Both offenses can push play volume'
+        : state === 'contextual'
+          ? volume <= 0.3 ? 'Both offenses compress possessions' : `${fasterTeam} sets the faster neutral tempo`
+          : 'Neutral pace profiles are relatively even',
+      detail: statement,
+      signals: [
+        {
+          label: 'Neutral seconds / snap',
+          away_value: seconds(away),
+          home_value: seconds(home),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'No-huddle rate',
+          away_value: percent(away, 'no_huddle_rate'),
+          home_value: percent(home, 'no_huddle_rate'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Neutral early-down pass rate',
+          away_value: percent(away, 'neutral_early_down_pass_rate'),
+          home_value: percent(home, 'neutral_early_down_pass_rate'),
+          observation_ids: observationIds,
+        },
+        {
+          label: 'Plays / drive',
+          away_value: String(numericValue(away, 'plays_per_drive') ?? 'unavailable'),
+          home_value: String(numericValue(home, 'plays_per_drive') ?? 'unavailable'),
+          observation_ids: observationIds,
+        },
+      ],
+      caveats: [
+        ...priorSeasonCaveat([awayObservation], game),
+        'Neutral tempo excludes lopsided win probability and end-of-half snaps; early scoring can still change both teams\' tendencies.',
+      ],
+    },
+    evidence_state: state === 'material' ? 'observed_support' : 'observed_context',
+    observations,
+    suggested_anchor_ids: state === 'material' ? AGENT_ANCHORS.pace : [],
+  }
+}
+
+const RELIABILITY_FLOOR = 0.5
+const CAVEAT_LIMIT = 3
+
+// Keeps every caveat inside the finding's cap by folding the overflow into the last entry.
+function mergeCaveats(caveats: string[]): string[] {
+  return caveats.length > CAVEAT_LIMIT
+    ? [...caveats.slice(0, CAVEAT_LIMIT - 1), caveats.slice(CAVEAT_LIMIT - 1).join(' ')]
+    : caveats
+}
+
+// A material team comparison needs both sides to rest on enough games; a thinner sample holds it at contextual.
+// A completed season is the whole available sample, so only in-season samples are weighed.
+function withSampleReliability(evidence: EventEvidence | null, game: ScenarioGame): EventEvidence | null {
+  if (!evidence || evidence.finding.state !== 'material') return evidence
+  const supporting = new Set(evidence.finding.signals.flatMap(signal => signal.observation_ids))
+  const thin = [game.away_team, game.home_team].flatMap(team => {
+    const weights = evidence.observations
+      .filter(observation => (
+        (observation.subject.team ?? observation.subject.id) === team && supporting.has(observation.observation_id)
+      ))
+      .flatMap(observation => {
+        if (recordValue(observation).through_week === 'final') return []
+        const weight = numericValue(recordValue(observation), 'reliability_weight')
+        return weight === null ? [] : [{ weight, games: numericValue(recordValue(observation), 'sample_games') }]
+      })
+    const weakest = weights.reduce<typeof weights[number] | null>((lowest, candidate) => (
+      !lowest || candidate.weight < lowest.weight ? candidate : lowest
+    ), null)
+    return weakest && weakest.weight < RELIABILITY_FLOOR ? [{ team, ...weakest }] : []
+  })
+  if (!thin.length) return evidence
+  const sampleText = thin
+    .map(item => `${item.team} rests on ${item.games ?? 'too few'} game${item.games === 1 ? '' : 's'} (reliability ${item.weight})`)
+    .join(' and ')
+  return {
+    ...evidence,
+    finding: {
+      ...evidence.finding,
+      state: 'contextual',
+      caveats: mergeCaveats([
+        `Held at contextual: ${sampleText}, below the ${RELIABILITY_FLOOR} reliability floor.`,
+        ...evidence.finding.caveats,
+      ]),
+    },
+    evidence_state: 'observed_context',
+    suggested_anchor_ids: [],
+  }
+}
+
 function eventEvidence(params: {
   agentId: GameAgentId
   game: ScenarioGame
@@ -435,6 +1486,7 @@ function eventEvidence(params: {
   now: Date
 }): EventEvidence {
   const assumption = AGENT_EVENTS[params.agentId]
+  const label = GAME_AGENT_CATALOG[params.agentId].label
   if (!params.availability) {
     return unavailableEvidence({
       agentId: params.agentId,
@@ -471,9 +1523,9 @@ function eventEvidence(params: {
   }
 
   if (params.agentId === 'weather') return weatherEvidence(params.observations)
-  if (params.agentId === 'injury') return injuryEvidence(params.observations)
+  if (params.agentId === 'injury') return injuryEvidence(params.observations, params.game)
   if (params.agentId === 'epa') {
-    return epaEvidence(params.observations, params.game)
+    return withSampleReliability(epaEvidence(params.observations, params.game), params.game)
       ?? unavailableEvidence({
         agentId: params.agentId,
         statement: 'A complete two-team efficiency comparison is unavailable.',
@@ -483,7 +1535,7 @@ function eventEvidence(params: {
       })
   }
   if (params.agentId === 'turnovers') {
-    return turnoversEvidence(params.observations, params.game)
+    return withSampleReliability(turnoversEvidence(params.observations, params.game), params.game)
       ?? unavailableEvidence({
         agentId: params.agentId,
         statement: 'A complete two-team turnover comparison is unavailable.',
@@ -493,7 +1545,7 @@ function eventEvidence(params: {
       })
   }
   if (params.agentId === 'trenches') {
-    return trenchesEvidence(params.observations, params.game)
+    return withSampleReliability(trenchesEvidence(params.observations, params.game), params.game)
       ?? unavailableEvidence({
         agentId: params.agentId,
         statement: 'A complete two-team trenches comparison is unavailable.',
@@ -502,6 +1554,36 @@ function eventEvidence(params: {
         caveat: 'Both team proxy profiles are required.',
       })
   }
+  if (params.agentId === 'pressure') {
+    return withSampleReliability(pressureEvidence(params.observations, params.game), params.game)
+      ?? unavailableEvidence({
+        agentId: params.agentId,
+        statement: 'A complete two-team pressure comparison is unavailable.',
+        evidenceState: 'missing',
+        observations: params.observations,
+        caveat: 'Both team pressure profiles are required.',
+      })
+  }
+  if (params.agentId === 'qb') {
+    return withSampleReliability(qbEvidence(params.observations, params.game), params.game)
+      ?? unavailableEvidence({
+        agentId: params.agentId,
+        statement: 'A complete two-quarterback comparison is unavailable.',
+        evidenceState: 'missing',
+        observations: params.observations,
+        caveat: 'Both projected starters and opposing pass defenses are required.',
+      })
+  }
+  if (params.agentId === 'momentum') {
+    return withSampleReliability(momentumEvidence(params.observations, params.game), params.game)
+      ?? unavailableEvidence({
+        agentId: params.agentId,
+        statement: 'A complete two-team momentum comparison is unavailable.',
+        evidenceState: 'missing',
+        observations: params.observations,
+        caveat: 'Both team momentum windows are required.',
+      })
+  }
   if (params.agentId === 'rest') {
     return restEvidence(params.observations, params.game)
       ?? unavailableEvidence({
@@ -512,13 +1594,23 @@ function eventEvidence(params: {
         caveat: 'Both team schedule contexts are required.',
       })
   }
+  if (params.agentId === 'pace') {
+    return withSampleReliability(paceEvidence(params.observations, params.game), params.game)
+      ?? unavailableEvidence({
+        agentId: params.agentId,
+        statement: 'A complete two-team pace comparison is unavailable.',
+        evidenceState: 'missing',
+        observations: params.observations,
+        caveat: 'Both team neutral pace profiles are required.',
+      })
+  }
 
   return {
     statement: assumption,
     finding: {
       state: 'contextual',
       direction: 'none',
-      headline: `${GAME_AGENT_CATALOG[params.agentId].label} has sourced context`,
+      headline: `${label} has sourced context`,
       detail: assumption,
       signals: [],
       caveats: [],